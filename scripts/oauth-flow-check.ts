@@ -0,0 +1,216 @@
+/**
+ * OAuth flow check — runs the tool-plugin OAuth code against a stand-in
+ * provider on 127.0.0.1 (config may point tokenUri at loopback over http).
+ *
+ * Covers startOAuthFlow, the code exchange in completeOAuthFlow (PKCE,
+ * replayed and refused redirects) and the refresh-and-retry on a 401 in
+ * fetchWithTokenRefresh. Everything lives in a throwaway home directory.
+ *
+ *   npm run test:oauth
+ */
+
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+// Config and vault paths are read when the modules load, so point them first
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'buhdi-oauth-check-'));
+process.env.HOME = home;
+process.env.USERPROFILE = home;
+process.env.BUHDI_NODE_CONFIG_DIR = path.join(home, '.buhdi-node');
+
+const CLIENT_ID = 'check-client';
+const CLIENT_SECRET = 'check-secret';
+const TOOL = 'oauth_check';
+
+// ---- Stand-in provider ----
+
+interface ProviderState {
+  /** code_challenge per issued authorization code */
+  codes: Map<string, { challenge: string; redirectUri: string }>;
+  /** The only access token the API accepts */
+  validToken: string;
+  refreshToken: string;
+  refuseRefresh: boolean;
+  refreshes: number;
+}
+
+const provider: ProviderState = {
+  codes: new Map(),
+  validToken: 'access-1',
+  refreshToken: 'refresh-1',
+  refuseRefresh: false,
+  refreshes: 0,
+};
+
+function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readForm(req);
+    if (form.get('client_id') !== CLIENT_ID || form.get('client_secret') !== CLIENT_SECRET) {
+      return send(res, 401, { error: 'invalid_client' });
+    }
+
+    if (form.get('grant_type') === 'authorization_code') {
+      const issued = provider.codes.get(form.get('code') || '');
+      provider.codes.delete(form.get('code') || '');
+      const challenge = crypto.createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+      if (!issued || issued.challenge !== challenge || issued.redirectUri !== form.get('redirect_uri')) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'bad code, verifier or redirect_uri' });
+      }
+      return send(res, 200, {
+        access_token: provider.validToken,
+        refresh_token: provider.refreshToken,
+        expires_in: 3600,
+        scope: 'read write',
+        token_type: 'Bearer',
+      });
+    }
+
+    if (form.get('grant_type') === 'refresh_token') {
+      if (provider.refuseRefresh || form.get('refresh_token') !== provider.refreshToken) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'refresh token revoked' });
+      }
+      provider.refreshes++;
+      provider.validToken = `access-${provider.refreshes + 1}`;
+      return send(res, 200, { access_token: provider.validToken, expires_in: 3600, token_type: 'Bearer' });
+    }
+
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  if (url.pathname === '/api/me') {
+    return req.headers.authorization === `Bearer ${provider.validToken}`
+      ? send(res, 200, { user: 'check' })
+      : send(res, 401, { error: 'invalid_token' });
+  }
+
+  send(res, 404, { error: 'not_found' });
+});
+
+/** What the provider does when the user approves: issue a code for the challenge */
+function approve(signInUrl: string): URLSearchParams {
+  const params = new URL(signInUrl).searchParams;
+  const code = `code-${crypto.randomBytes(4).toString('hex')}`;
+  provider.codes.set(code, { challenge: params.get('code_challenge')!, redirectUri: params.get('redirect_uri')! });
+  return new URLSearchParams({ state: params.get('state')!, code });
+}
+
+// ---- Checks ----
+
+async function main(): Promise<void> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  fs.mkdirSync(process.env.BUHDI_NODE_CONFIG_DIR!, { recursive: true });
+  fs.writeFileSync(path.join(process.env.BUHDI_NODE_CONFIG_DIR!, 'config.json'), JSON.stringify({
+    version: 2,
+    credentials: {
+      google: { authUri: `${base}/authorize`, tokenUri: `${base}/token`, clientId: CLIENT_ID, clientSecret: CLIENT_SECRET },
+    },
+  }));
+
+  const { startOAuthFlow, completeOAuthFlow, fetchWithTokenRefresh } = require('../src/tool-plugins/oauth');
+  const { getCredential, parseOAuthBundle } = require('../src/tool-plugins/credentials');
+  const stored = () => parseOAuthBundle(getCredential(TOOL, 'oauth-check').plaintext);
+
+  const plugin = {
+    name: TOOL,
+    oauth: { provider: 'google', scopes: ['read', 'write'] },
+    _token: '',
+  };
+  const redirectUri = 'http://127.0.0.1:3847/api/oauth/callback';
+
+  // Sign-in URL
+  const signInUrl: string = startOAuthFlow(plugin, redirectUri);
+  const query = new URL(signInUrl).searchParams;
+  assert.equal(signInUrl.startsWith(`${base}/authorize?`), true);
+  assert.equal(query.get('client_id'), CLIENT_ID);
+  assert.equal(query.get('redirect_uri'), redirectUri);
+  assert.equal(query.get('scope'), 'read write');
+  assert.equal(query.get('code_challenge_method'), 'S256');
+  assert.equal(query.get('access_type'), 'offline');
+  console.log('✓ startOAuthFlow builds a PKCE sign-in URL');
+
+  // Code exchange
+  const redirect = approve(signInUrl);
+  assert.equal(await completeOAuthFlow(redirect), TOOL);
+  const bundle = stored();
+  assert.equal(bundle.access_token, 'access-1');
+  assert.equal(bundle.refresh_token, 'refresh-1');
+  assert.equal(bundle.client_id, CLIENT_ID);
+  assert.equal(bundle.token_uri, `${base}/token`);
+  assert.ok(bundle.expires_at);
+  console.log('✓ completeOAuthFlow exchanges the code and stores the bundle');
+
+  await assert.rejects(completeOAuthFlow(redirect), /Unknown or expired sign-in/);
+  console.log('✓ a replayed redirect is rejected');
+
+  const refused = new URL(startOAuthFlow(plugin, redirectUri)).searchParams;
+  await assert.rejects(
+    completeOAuthFlow(new URLSearchParams({ state: refused.get('state')!, error: 'access_denied' })),
+    /was refused: access_denied/,
+  );
+  console.log('✓ a refused consent is reported');
+
+  const tampered = approve(startOAuthFlow(plugin, redirectUri));
+  provider.codes.set(tampered.get('code')!, { challenge: 'not-the-challenge', redirectUri });
+  await assert.rejects(completeOAuthFlow(tampered), /Token exchange failed: 400/);
+  assert.equal(stored().access_token, 'access-1');
+  console.log('✓ a failed exchange leaves the stored token alone');
+
+  // 401 → refresh → retry
+  plugin._token = stored().access_token;
+  provider.validToken = 'revoked';
+  provider.refreshes = 0;
+  const res: Response = await fetchWithTokenRefresh(plugin, `${base}/api/me`);
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { user: 'check' });
+  assert.equal(provider.refreshes, 1);
+  assert.equal(plugin._token, 'access-2');
+  assert.equal(stored().access_token, 'access-2');
+  assert.equal(stored().refresh_token, 'refresh-1');
+  console.log('✓ fetchWithTokenRefresh refreshes once on a 401 and retries');
+
+  const ok: Response = await fetchWithTokenRefresh(plugin, `${base}/api/me`);
+  assert.equal(ok.status, 200);
+  assert.equal(provider.refreshes, 1);
+  console.log('✓ a valid token is sent without refreshing');
+
+  provider.validToken = 'revoked-again';
+  provider.refuseRefresh = true;
+  const denied: Response = await fetchWithTokenRefresh(plugin, `${base}/api/me`);
+  assert.equal(denied.status, 401);
+  assert.equal(plugin._token, 'access-2');
+  console.log('✓ a refused refresh returns the original 401');
+}
+
+main()
+  .then(() => console.log('\nOAuth flow check passed'))
+  .catch(err => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    server.close();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
@@ -2,5 +2,6 @@
  * Agent System — Entry Point
  */
 
-export { AgentConfig, AgentRun, AgentStep, AgentCallbacks } from './types';
-export { runAgent, cancelAgent, getActiveRuns, sanitizeAgentConfig } from './loop';
+export { AgentConfig, AgentRun, AgentStep, AgentStepCall, AgentCallbacks, AgentRunStatus, AgentRunOrigin, AgentRunSummary, AgentToolMode } from './types';
+export { runAgent, resumeAgent, cancelAgent, getActiveRuns, getAgentSpend, sanitizeAgentConfig } from './loop';
+export { initAgentStore, closeAgentStore, listRuns, getRun } from './store';
@@ -5,14 +5,21 @@
  * Uses LLM Router for thinking, Tool Registry for acting.
  */
 
-import { AgentConfig, AgentStep, AgentRun, AgentCallbacks, AGENT_SYSTEM_PROMPT } from './types';
+import {
+  AgentConfig, AgentStep, AgentStepCall, AgentRun, AgentCallbacks, AgentRunOrigin, AgentToolMode,
+  AGENT_SYSTEM_PROMPT, AGENT_NATIVE_SYSTEM_PROMPT,
+} from './types';
+import { saveRunStart, saveRunStep, saveRunEnd, loadRunCheckpoint, getSpendSince } from './store';
 import { llmRouter } from '../llm/router';
 import { toolRegistry } from '../tool-plugins/registry';
+import { SafetyTier } from '../tool-plugins/types';
 import {
   sanitizeToolOutput, validateToolCall, MAX_TOOL_CALLS_PER_TURN,
 } from '../llm/safety';
 import { addActivity, broadcastToDashboard } from '../health';
-import { ChatMessage, ToolDefinition } from '../llm/types';
+import { emitNodeEvent } from '../events';
+import { ChatMessage, CompletionRequest, CompletionResponse, ToolDefinition } from '../llm/types';
+import { loadConfig } from '../config';
 
 const DEFAULT_CONFIG: AgentConfig = {
   maxSteps: 10,
@@ -23,6 +30,9 @@ const DEFAULT_CONFIG: AgentConfig = {
   allowedTools: [],
   blockedTools: [],
   temperature: 0.3,          // Lower temp for more reliable tool use
+  toolMode: 'json_prompt',
+  maxTokensPerRun: 0,        // Unlimited unless config.json agent.budget says otherwise
+  maxCostPerRunUsd: 0,
 };
 
 // H1-FIX: Hard limits that client config can NEVER exceed
@@ -59,16 +69,90 @@ export function sanitizeAgentConfig(raw: any): Partial<AgentConfig> {
     allowedTools: Array.isArray(raw.allowedTools) ? raw.allowedTools.filter((t: any) => typeof t === 'string') : [],
     // blockedTools: client CANNOT override — always use server defaults
     blockedTools: DEFAULT_CONFIG.blockedTools,
+    toolMode: raw.toolMode === 'native' ? 'native' : 'json_prompt',
+    // Budgets: clamped to the server's agent.budget in applyBudget()
+    maxTokensPerRun: Math.max(Number(raw.maxTokensPerRun) || 0, 0),
+    maxCostPerRunUsd: Math.max(Number(raw.maxCostPerRunUsd) || 0, 0),
+  };
+}
+
+/** Server-side spending limits from config.json `agent.budget` (0 = unlimited) */
+function serverBudget(): { runTokens: number; runCostUsd: number; dailyTokens: number; dailyCostUsd: number } {
+  const b = loadConfig().agent?.budget || {};
+  const limit = (v: any) => Math.max(Number(v) || 0, 0);
+  return {
+    runTokens: limit(b.run_tokens),
+    runCostUsd: limit(b.run_cost_usd),
+    dailyTokens: limit(b.daily_tokens),
+    dailyCostUsd: limit(b.daily_cost_usd),
+  };
+}
+
+/** A requested per-run budget may tighten the server's, never loosen it */
+function applyBudget(cfg: AgentConfig): AgentConfig {
+  const server = serverBudget();
+  const cap = (requested: number, limit: number) =>
+    limit > 0 ? (requested > 0 ? Math.min(requested, limit) : limit) : requested;
+  return {
+    ...cfg,
+    maxTokensPerRun: cap(cfg.maxTokensPerRun, server.runTokens),
+    maxCostPerRunUsd: cap(cfg.maxCostPerRunUsd, server.runCostUsd),
   };
 }
 
+function startOfToday(): number {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+/** Why the run may not spend more, or null if it's within every budget */
+function budgetProblem(run: AgentRun, cfg: AgentConfig): string | null {
+  const tokens = run.usage.promptTokens + run.usage.completionTokens;
+  if (cfg.maxTokensPerRun > 0 && tokens >= cfg.maxTokensPerRun) {
+    return `Run token budget exhausted (${tokens}/${cfg.maxTokensPerRun})`;
+  }
+  if (cfg.maxCostPerRunUsd > 0 && run.usage.costUsd >= cfg.maxCostPerRunUsd) {
+    return `Run cost budget exhausted ($${run.usage.costUsd.toFixed(4)}/$${cfg.maxCostPerRunUsd})`;
+  }
+
+  // Daily totals come from the run store, which already holds this run's committed steps
+  const server = serverBudget();
+  if (server.dailyTokens > 0 || server.dailyCostUsd > 0) {
+    const today = getSpendSince(startOfToday());
+    if (server.dailyTokens > 0 && today.tokens >= server.dailyTokens) {
+      return `Daily agent token budget exhausted (${today.tokens}/${server.dailyTokens})`;
+    }
+    if (server.dailyCostUsd > 0 && today.costUsd >= server.dailyCostUsd) {
+      return `Daily agent cost budget exhausted ($${today.costUsd.toFixed(4)}/$${server.dailyCostUsd})`;
+    }
+  }
+  return null;
+}
+
+/** Today's agent spend against the configured budgets */
+export function getAgentSpend(): {
+  today: { runs: number; tokens: number; costUsd: number };
+  budget: ReturnType<typeof serverBudget>;
+} {
+  return { today: getSpendSince(startOfToday()), budget: serverBudget() };
+}
+
+function addUsage(run: AgentRun, request: CompletionRequest, response: CompletionResponse): void {
+  const usage = llmRouter.usageOf(request, response);
+  run.usage.promptTokens += usage.promptTokens;
+  run.usage.completionTokens += usage.completionTokens;
+  run.usage.costUsd += usage.costUsd;
+}
+
 /**
  * Run the agent loop for a given goal.
  */
 export async function runAgent(
   goal: string,
   config?: Partial<AgentConfig>,
-  callbacks?: AgentCallbacks
+  callbacks?: AgentCallbacks,
+  origin: AgentRunOrigin = {},
 ): Promise<AgentRun> {
   // F2-FIX: Concurrent run limit
   if (activeRuns.size >= MAX_CONCURRENT_RUNS) {
@@ -76,9 +160,8 @@ export async function runAgent(
   }
 
   // H1-FIX: Always sanitize config
-  const cfg = { ...DEFAULT_CONFIG, ...sanitizeAgentConfig(config) };
+  const cfg = resolveToolMode(applyBudget({ ...DEFAULT_CONFIG, ...sanitizeAgentConfig(config) }));
   const runId = `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-  const startedAt = Date.now();
 
   const run: AgentRun = {
     id: runId,
@@ -87,39 +170,131 @@ export async function runAgent(
     steps: [],
     result: null,
     error: null,
-    startedAt,
+    startedAt: Date.now(),
     completedAt: null,
     totalDurationMs: 0,
     provider: null,
     model: null,
     toolsUsed: [],
+    usage: { promptTokens: 0, completionTokens: 0, costUsd: 0 },
+    source: origin.source || 'api',
+    sourceRef: origin.ref,
   };
 
-  activeRuns.set(runId, { cancelled: false });
+  const tools = filterTools(toolRegistry.getLLMToolSchemas(), cfg);
+
+  // Conversation history for the agent
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildSystemPrompt(tools, cfg.toolMode) },
+    { role: 'user', content: goal },
+  ];
+
   addActivity('🤖', `Agent started: "${goal.substring(0, 60)}${goal.length > 60 ? '...' : ''}"`);
-  broadcastToDashboard({ type: 'agent.started', runId, goal });
+  return executeRun(run, cfg, tools, messages, callbacks);
+}
 
-  // Get available tool schemas (filtered by config)
-  const allTools = toolRegistry.getLLMToolSchemas();
-  const tools = filterTools(allTools, cfg);
+/**
+ * Pick an interrupted run back up from its last completed step.
+ * The stored config and conversation are reused; the tool list is refreshed.
+ */
+export async function resumeAgent(runId: string, callbacks?: AgentCallbacks): Promise<AgentRun> {
+  if (activeRuns.has(runId)) throw new Error('Run is already active');
+  if (activeRuns.size >= MAX_CONCURRENT_RUNS) {
+    throw new Error(`Too many concurrent agent runs (max ${MAX_CONCURRENT_RUNS})`);
+  }
+
+  const checkpoint = loadRunCheckpoint(runId);
+  if (!checkpoint) throw new Error('Run not found');
+  const { run, messages } = checkpoint;
+  if (run.status !== 'interrupted') {
+    throw new Error(`Only interrupted runs can be resumed (status: ${run.status})`);
+  }
+
+  // H1-FIX: Stored config goes through the same clamp as client config
+  const cfg = resolveToolMode(applyBudget({ ...DEFAULT_CONFIG, ...sanitizeAgentConfig(checkpoint.config) }));
+  const tools = filterTools(toolRegistry.getLLMToolSchemas(), cfg);
+  const systemMsg: ChatMessage = { role: 'system', content: buildSystemPrompt(tools, cfg.toolMode) };
+  if (messages.length === 0) messages.push({ role: 'user', content: run.goal });
+  if (messages[0].role === 'system') messages[0] = systemMsg;
+  else messages.unshift(systemMsg);
+
+  run.status = 'running';
+  run.error = null;
+  run.completedAt = null;
+
+  addActivity('🔁', `Agent resumed at step ${run.steps.length + 1}: "${run.goal.substring(0, 60)}${run.goal.length > 60 ? '...' : ''}"`);
+  return executeRun(run, cfg, tools, messages, callbacks);
+}
+
+/**
+ * Native tool calling only works if the provider the router will use
+ * supports it — otherwise quietly fall back to JSON prompting.
+ */
+function resolveToolMode(cfg: AgentConfig): AgentConfig {
+  // Asking with tools attached lets cost_optimized routing pick a tool-capable provider
+  const probe = { messages: [], tools: filterTools(toolRegistry.getLLMToolSchemas(), cfg) };
+  if (cfg.toolMode === 'native' && !llmRouter.preferredProviderHas('tool_calling', probe)) {
+    console.log('[agent] Preferred LLM provider lacks tool_calling — using json_prompt mode');
+    return { ...cfg, toolMode: 'json_prompt' };
+  }
+  return cfg;
+}
+
+function buildSystemPrompt(tools: ToolDefinition[], toolMode: AgentToolMode): string {
+  // Native mode hands the provider full tool schemas; no list needed in the prompt
+  if (toolMode === 'native') {
+    return AGENT_NATIVE_SYSTEM_PROMPT + (tools.length
+      ? ''
+      : '\n\nNo tools are currently available. Answer from your knowledge.');
+  }
 
-  // Build tool description for the system prompt
   const toolList = tools.map(t =>
-    `- ${t.function.name}: ${t.function.description}`
+    `- ${t.function.name}${isReadOnly(t.function.name) ? ' (read-only)' : ''}: ${t.function.description}`
   ).join('\n');
 
-  const systemPrompt = AGENT_SYSTEM_PROMPT + (toolList
+  return AGENT_SYSTEM_PROMPT + (toolList
     ? `\n\n## Available tools\n${toolList}`
     : '\n\nNo tools are currently available. Answer from your knowledge.');
+}
 
-  // Conversation history for the agent
-  const messages: ChatMessage[] = [
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: goal },
-  ];
+/** The ReAct loop proper, shared by fresh and resumed runs */
+async function executeRun(
+  run: AgentRun,
+  cfg: AgentConfig,
+  tools: ToolDefinition[],
+  messages: ChatMessage[],
+  callbacks?: AgentCallbacks,
+): Promise<AgentRun> {
+  const runId = run.id;
+  // A resumed run keeps the time its earlier steps already spent
+  const loopStart = Date.now() - run.steps.reduce((ms, s) => ms + s.durationMs, 0);
+
+  saveRunStart(run, cfg, messages);
+  activeRuns.set(runId, { cancelled: false });
+  broadcastToDashboard({ type: 'agent.started', runId, goal: run.goal });
+
+  // Append a finished step and the messages it produced, then checkpoint both
+  const commitStep = (step: AgentStep, ...newMessages: ChatMessage[]) => {
+    run.steps.push(step);
+    messages.push(...newMessages);
+
+    // F3-FIX: Sliding window — trim old steps if messages grow too large
+    if (messages.length > MAX_MESSAGES) {
+      // Keep system prompt + last N messages
+      const systemMsg = messages[0];
+      const recent = messages.slice(-(MAX_MESSAGES - 1));
+      // A tool result must follow the assistant turn that called it
+      while (recent[0]?.role === 'tool') recent.shift();
+      messages.length = 0;
+      messages.push(systemMsg, ...recent);
+    }
+
+    saveRunStep(run, step, messages);
+    callbacks?.onStep?.(step, run);
+  };
 
   try {
-    for (let i = 0; i < cfg.maxSteps; i++) {
+    for (let i = run.steps.length; i < cfg.maxSteps; i++) {
       // Check cancellation
       if (activeRuns.get(runId)?.cancelled) {
         run.status = 'cancelled';
@@ -127,184 +302,171 @@ export async function runAgent(
       }
 
       // Check total timeout
-      if (Date.now() - startedAt > cfg.totalTimeoutMs) {
+      if (Date.now() - loopStart > cfg.totalTimeoutMs) {
         run.status = 'failed';
         run.error = `Total timeout exceeded (${cfg.totalTimeoutMs}ms)`;
         break;
       }
 
+      // Check spending — stop cleanly rather than mid-step
+      const overBudget = budgetProblem(run, cfg);
+      if (overBudget) {
+        run.status = 'budget_exceeded';
+        run.error = overBudget;
+        break;
+      }
+
       const stepStart = Date.now();
 
-      // Ask LLM for next action
-      const response = await llmRouter.complete({
+      // Ask LLM for next action. JSON mode leaves tools out and parses structured
+      // output instead; native mode lets the provider return tool calls.
+      const request: CompletionRequest = {
         messages,
+        tools: cfg.toolMode === 'native' && tools.length ? tools : undefined,
         temperature: cfg.temperature,
         maxTokens: cfg.maxTokensPerStep,
-        // Don't pass tools in OpenAI format — we're using structured JSON output
-      });
+      };
+      const response = await llmRouter.complete(request);
+      if (response.finishReason !== 'error') addUsage(run, request, response);
 
       if (!run.provider) {
         run.provider = response.provider;
         run.model = response.model;
       }
 
-      if (response.finishReason === 'error' || !response.content) {
+      if (response.finishReason === 'error' || (!response.content && response.toolCalls.length === 0)) {
         run.status = 'failed';
         run.error = 'LLM returned no response';
         break;
       }
 
-      // Parse the structured response
-      const parsed = parseAgentResponse(response.content);
+      const decision = cfg.toolMode === 'native' ? decideNative(response) : decideJson(response.content || '');
 
-      if (!parsed) {
-        // LLM didn't follow format — treat content as final answer
-        const step: AgentStep = {
-          index: i,
-          thought: 'Giving direct answer',
-          action: null,
-          actionInput: null,
-          observation: null,
-          timestamp: Date.now(),
-          durationMs: Date.now() - stepStart,
-        };
-        run.steps.push(step);
-        run.result = response.content;
+      if (decision.kind === 'answer') {
+        run.result = decision.answer;
         run.status = 'completed';
-        callbacks?.onStep?.(step, run);
-        break;
-      }
-
-      if ('answer' in parsed) {
-        // Final answer
-        const step: AgentStep = {
+        commitStep({
           index: i,
-          thought: parsed.thought || '',
+          thought: decision.thought,
           action: null,
           actionInput: null,
           observation: null,
           timestamp: Date.now(),
           durationMs: Date.now() - stepStart,
-        };
-        run.steps.push(step);
-        run.result = parsed.answer;
-        run.status = 'completed';
-        callbacks?.onStep?.(step, run);
-
-        // Add to conversation for logging
-        messages.push({ role: 'assistant', content: response.content });
+        }, ...decision.messages);
         break;
       }
 
-      if ('tool' in parsed) {
-        const toolName = parsed.tool;
-        const toolParams = parsed.params || {};
-
-        // Validate tool name
-        if (!validateToolCall(toolName, tools)) {
-          const step: AgentStep = {
-            index: i,
-            thought: parsed.thought || '',
-            action: toolName,
-            actionInput: toolParams,
-            observation: `Error: tool "${toolName}" is not available.`,
-            timestamp: Date.now(),
-            durationMs: Date.now() - stepStart,
-          };
-          run.steps.push(step);
-          callbacks?.onStep?.(step, run);
-
-          messages.push({ role: 'assistant', content: response.content });
-          // F4-FIX: Use system role for observations to distinguish from user input
-          messages.push({ role: 'system', content: `[TOOL_ERROR] Tool "${toolName}" is not available. Available tools: ${tools.map(t => t.function.name).join(', ')}` });
-          continue;
-        }
-
-        // Confirm destructive actions
-        if (cfg.confirmDestructive && callbacks?.onConfirmAction) {
-          const confirmed = await callbacks.onConfirmAction(toolName, toolParams);
-          if (!confirmed) {
-            const step: AgentStep = {
-              index: i,
-              thought: parsed.thought || '',
-              action: toolName,
-              actionInput: toolParams,
-              observation: 'User declined this action.',
-              timestamp: Date.now(),
-              durationMs: Date.now() - stepStart,
-            };
-            run.steps.push(step);
-            callbacks?.onStep?.(step, run);
-
-            messages.push({ role: 'assistant', content: response.content });
-            messages.push({ role: 'system', content: '[TOOL_DECLINED] User declined this action. Try a different approach or ask the user for guidance.' });
-            continue;
-          }
+      // Confirm destructive actions (default: the shared tool approval queue)
+      const executeAs = { source: 'agent', ref: runId };
+      const confirmAction = callbacks?.onConfirmAction
+        || ((tool: string, params: any) => toolRegistry.confirmAction(tool, params, executeAs));
+
+      const runCall = async (call: AgentStepCall): Promise<void> => {
+        const callStart = Date.now();
+        if (cfg.confirmDestructive && !(await confirmAction(call.tool, call.params, executeAs))) {
+          call.status = 'declined';
+          call.observation = 'User declined this action. Try a different approach or ask the user for guidance.';
+          return;
         }
 
-        // Execute tool
-        callbacks?.onToolCall?.(toolName, toolParams);
-        broadcastToDashboard({ type: 'agent.tool_call', runId, step: i, tool: toolName });
-
-        let observation: string;
+        callbacks?.onToolCall?.(call.tool, call.params);
+        broadcastToDashboard({ type: 'agent.tool_call', runId, step: i, tool: call.tool });
         try {
-          const result = await toolRegistry.executeByFullName(toolName, toolParams);
-          observation = sanitizeToolOutput(result.output);
-          callbacks?.onToolResult?.(toolName, result);
-
-          if (!run.toolsUsed.includes(toolName)) {
-            run.toolsUsed.push(toolName);
-          }
+          const result = await withTimeout(
+            toolRegistry.executeByFullName(call.tool, call.params, executeAs),
+            cfg.toolTimeoutMs,
+            `${call.tool} timed out after ${Math.round(cfg.toolTimeoutMs / 1000)}s`,
+          );
+          call.observation = sanitizeToolOutput(result.output);
+          callbacks?.onToolResult?.(call.tool, result);
+          if (!run.toolsUsed.includes(call.tool)) run.toolsUsed.push(call.tool);
         } catch (err: any) {
-          observation = `Tool execution error: ${err.message}`;
+          call.status = 'error';
+          call.observation = `Tool execution error: ${err.message}`;
         }
+        call.durationMs = Date.now() - callStart;
+      };
 
-        const step: AgentStep = {
-          index: i,
-          thought: parsed.thought || '',
-          action: toolName,
-          actionInput: toolParams,
-          observation,
-          timestamp: Date.now(),
-          durationMs: Date.now() - stepStart,
-        };
-        run.steps.push(step);
-        callbacks?.onStep?.(step, run);
-
-        broadcastToDashboard({
-          type: 'agent.step',
-          runId,
-          step: i,
-          action: toolName,
-          observation: observation.substring(0, 200),
-        });
-
-        // F4-FIX: Feed observation as system message with clear delimiters
-        messages.push({ role: 'assistant', content: response.content });
-        messages.push({ role: 'system', content: `[TOOL_RESULT] ${observation}` });
-
-        // F3-FIX: Sliding window — trim old steps if messages grow too large
-        if (messages.length > MAX_MESSAGES) {
-          // Keep system prompt + last N messages
-          const systemMsg = messages[0];
-          const recent = messages.slice(-(MAX_MESSAGES - 1));
-          messages.length = 0;
-          messages.push(systemMsg, ...recent);
+      // Validate every call, then run READ-tier calls side by side. Anything
+      // that changes state still goes one per step, after the reads.
+      const calls: AgentStepCall[] = decision.calls.slice(0, MAX_TOOL_CALLS_PER_TURN).map(c => {
+        if (c.error || !validateToolCall(c.tool, tools)) {
+          const problem = c.error || `Tool "${c.tool}" is not available.`;
+          return {
+            tool: c.tool, params: c.params, callId: c.callId, status: 'error', durationMs: 0,
+            observation: `${problem} Available tools: ${tools.map(t => t.function.name).join(', ')}`,
+          };
         }
+        return { tool: c.tool, params: c.params, callId: c.callId, status: 'ok', observation: '', durationMs: 0 };
+      });
+      const runnable = calls.filter(c => c.status === 'ok');
+      const reads = runnable.length > 1 ? runnable.filter(c => isReadOnly(c.tool)) : [];
+      const [write, ...extraWrites] = runnable.filter(c => !reads.includes(c));
+      for (const c of extraWrites) {
+        c.status = 'skipped';
+        c.observation = 'Not run: only one non-read-only action runs per step. Issue it again once you have seen these results.';
+      }
+
+      await Promise.all(reads.map(runCall));
+      if (write) await runCall(write);
+
+      const observation = calls.length === 1
+        ? calls[0].observation
+        : calls.map(c => `${c.tool}: ${c.observation}`).join('\n\n');
+      // F4-FIX: Feed observations back with clear delimiters, never as the user
+      const resultMessages: ChatMessage[] = decision.native
+        ? calls.map(c => ({ role: 'tool' as const, tool_call_id: c.callId, name: c.tool, content: `[${CALL_TAGS[c.status]}] ${c.observation}` }))
+        : [{
+            role: 'system',
+            content: calls.length === 1
+              ? `[${CALL_TAGS[calls[0].status]}] ${calls[0].observation}`
+              : calls.map(c => `[${CALL_TAGS[c.status]}] ${c.tool}: ${c.observation}`).join('\n\n'),
+          }];
+
+      const dropped = decision.native ? 0 : decision.calls.length - calls.length;
+      if (dropped > 0) {
+        resultMessages.push({ role: 'system', content: `[TOOL_SKIPPED] ${dropped} more call(s) ignored — at most ${MAX_TOOL_CALLS_PER_TURN} per step.` });
       }
+
+      const single = calls.length === 1;
+      commitStep({
+        index: i,
+        thought: decision.thought,
+        action: calls.map(c => c.tool).join(', '),
+        actionInput: single ? calls[0].params : null,
+        observation,
+        calls: single ? undefined : calls,
+        timestamp: Date.now(),
+        durationMs: Date.now() - stepStart,
+      }, ...decision.messages, ...resultMessages);
+
+      broadcastToDashboard({
+        type: 'agent.step',
+        runId,
+        step: i,
+        action: calls.map(c => c.tool).join(', '),
+        observation: observation.substring(0, 200),
+      });
     }
 
     // If we exited the loop without completing
     if (run.status === 'running') {
       run.status = 'max_steps';
       run.error = `Reached max steps (${cfg.maxSteps})`;
-      // Try to get a summary from LLM
-      messages.push({
-        role: 'user',
-        content: 'You have reached the maximum number of steps. Please provide your best answer based on what you\'ve learned so far.',
-      });
-      const summary = await llmRouter.complete({ messages, maxTokens: 1024 });
-      run.result = summary.content || `Agent stopped after ${cfg.maxSteps} steps.`;
+      // Try to get a summary from LLM (unless that would break the budget)
+      if (budgetProblem(run, cfg)) {
+        run.result = `Agent stopped after ${cfg.maxSteps} steps.`;
+      } else {
+        messages.push({
+          role: 'user',
+          content: 'You have reached the maximum number of steps. Please provide your best answer based on what you\'ve learned so far.',
+        });
+        const request: CompletionRequest = { messages, maxTokens: 1024 };
+        const summary = await llmRouter.complete(request);
+        if (summary.finishReason !== 'error') addUsage(run, request, summary);
+        run.result = summary.content || `Agent stopped after ${cfg.maxSteps} steps.`;
+      }
     }
   } catch (err: any) {
     run.status = 'failed';
@@ -317,10 +479,18 @@ export async function runAgent(
 
   run.completedAt = Date.now();
   run.totalDurationMs = run.completedAt - run.startedAt;
+  try {
+    saveRunEnd(run);
+  } catch (err: any) {
+    console.error('[agent] Failed to store run result:', err.message);
+  }
 
-  const icon = run.status === 'completed' ? '✅' : run.status === 'cancelled' ? '🚫' : '❌';
-  addActivity(icon, `Agent ${run.status}: ${run.steps.length} steps, ${Math.round(run.totalDurationMs / 1000)}s`);
+  const icon = run.status === 'completed' ? '✅' : run.status === 'cancelled' ? '🚫'
+    : run.status === 'budget_exceeded' ? '💸' : '❌';
+  const spend = run.usage.costUsd > 0 ? `, $${run.usage.costUsd.toFixed(4)}` : '';
+  addActivity(icon, `Agent ${run.status}: ${run.steps.length} steps, ${Math.round(run.totalDurationMs / 1000)}s${spend}`);
   broadcastToDashboard({ type: 'agent.completed', runId, status: run.status, steps: run.steps.length });
+  emitNodeEvent('agent.run.finished', { id: runId, status: run.status, source: run.source, ref: run.sourceRef ?? null });
   callbacks?.onComplete?.(run);
 
   return run;
@@ -343,7 +513,7 @@ export function getActiveRuns(): string[] {
 
 /**
  * Parse the agent's JSON response.
- * Returns { thought, tool, params } or { thought, answer } or null.
+ * Returns { thought, calls } or { thought, answer } or null.
  */
 function parseAgentResponse(content: string): any | null {
   // Try to extract JSON from the response
@@ -370,10 +540,16 @@ function parseAgentResponse(content: string): any | null {
     if (typeof parsed.tool === 'string') {
       return {
         thought: parsed.thought || '',
-        tool: parsed.tool,
-        params: typeof parsed.params === 'object' ? parsed.params : {},
+        calls: [{ tool: parsed.tool, params: asParams(parsed.params) }],
       };
     }
+    // Batched form: { thought, tools: [{ tool, params }, ...] }
+    if (Array.isArray(parsed.tools)) {
+      const calls = parsed.tools
+        .filter((c: any) => c && typeof c.tool === 'string')
+        .map((c: any) => ({ tool: c.tool, params: asParams(c.params) }));
+      if (calls.length > 0) return { thought: parsed.thought || '', calls };
+    }
 
     return null;
   } catch {
@@ -381,6 +557,93 @@ function parseAgentResponse(content: string): any | null {
   }
 }
 
+function asParams(raw: any): Record<string, any> {
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+}
+
+/** A tool call the model asked for, before validation */
+interface RequestedCall {
+  tool: string;
+  params: Record<string, any>;
+  callId?: string;                // Native mode: the provider's tool call id
+  error?: string;                 // Native mode: arguments that weren't valid JSON
+}
+
+/**
+ * What the model decided this step, normalized across tool modes.
+ * `messages` are the assistant turn(s) to append to the conversation.
+ */
+type AgentDecision =
+  | { kind: 'answer'; thought: string; answer: string; messages: ChatMessage[] }
+  | { kind: 'tools'; thought: string; calls: RequestedCall[]; native: boolean; messages: ChatMessage[] };
+
+/** Observation prefix per call outcome */
+const CALL_TAGS: Record<AgentStepCall['status'], string> = {
+  ok: 'TOOL_RESULT',
+  error: 'TOOL_ERROR',
+  declined: 'TOOL_DECLINED',
+  skipped: 'TOOL_SKIPPED',
+};
+
+/** JSON mode: pull { thought, tool(s), params } / { thought, answer } out of free text */
+function decideJson(content: string): AgentDecision {
+  const parsed = parseAgentResponse(content);
+  if (!parsed) {
+    // LLM didn't follow format — treat content as final answer
+    return { kind: 'answer', thought: 'Giving direct answer', answer: content, messages: [] };
+  }
+  const messages: ChatMessage[] = [{ role: 'assistant', content }];
+  if ('answer' in parsed) return { kind: 'answer', thought: parsed.thought, answer: parsed.answer, messages };
+  return { kind: 'tools', thought: parsed.thought, calls: parsed.calls, native: false, messages };
+}
+
+/**
+ * Native mode: the provider returned structured tool calls (or plain text = answer).
+ * Calls beyond MAX_TOOL_CALLS_PER_TURN are dropped from the conversation too,
+ * so every remaining call gets exactly one tool result.
+ */
+function decideNative(response: CompletionResponse): AgentDecision {
+  const thought = response.content?.trim() || '';
+  const toolCalls = response.toolCalls.slice(0, MAX_TOOL_CALLS_PER_TURN);
+  if (toolCalls.length === 0) {
+    return { kind: 'answer', thought, answer: thought, messages: [{ role: 'assistant', content: thought }] };
+  }
+
+  const calls = toolCalls.map((call): RequestedCall => {
+    const requested: RequestedCall = { tool: call.function.name, params: {}, callId: call.id };
+    try {
+      const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      if (args && typeof args === 'object' && !Array.isArray(args)) requested.params = args;
+      else requested.error = `Arguments for "${call.function.name}" must be a JSON object.`;
+    } catch {
+      requested.error = `Arguments for "${call.function.name}" are not valid JSON.`;
+    }
+    return requested;
+  });
+
+  return {
+    kind: 'tools',
+    thought,
+    calls,
+    native: true,
+    messages: [{ role: 'assistant', content: response.content || '', tool_calls: toolCalls }],
+  };
+}
+
+/** READ-tier actions have no side effects, so several can run at once */
+function isReadOnly(toolName: string): boolean {
+  return toolRegistry.findAction(toolName)?.action.safety === SafetyTier.READ;
+}
+
+/** Reject if a tool call outlives its budget (the call itself can't be aborted) */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
 /**
  * Filter tool schemas based on agent config allowlist/blocklist.
  */
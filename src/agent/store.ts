@@ -0,0 +1,283 @@
+/**
+ * Agent Run Store — SQLite history of agent runs and their steps.
+ *
+ * Every run is written as it goes: the run row at start, each step (plus a
+ * conversation checkpoint) as it completes, and the final status at the end.
+ * Runs still marked 'running' when the store opens were cut off by a crash or
+ * restart; they become 'interrupted' and can be resumed from their last step.
+ *
+ * The store is optional — if it was never initialized, runs still work, they
+ * just aren't recorded.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentConfig, AgentRun, AgentStep, AgentRunSummary } from './types';
+import { ChatMessage } from '../llm/types';
+
+/** Oldest finished runs are pruned beyond this */
+const MAX_STORED_RUNS = 500;
+
+let db: Database.Database | null = null;
+
+// ---- Init ----
+
+export function initAgentStore(configDir: string): void {
+  if (!fs.existsSync(configDir)) fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+
+  db = new Database(path.join(configDir, 'agent-runs.db'));
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.pragma('synchronous = NORMAL');
+  createSchema(db);
+
+  const interrupted = db.prepare(`
+    UPDATE agent_runs SET status = 'interrupted', error = 'Interrupted by node restart'
+    WHERE status = 'running'
+  `).run().changes;
+  const total = (db.prepare('SELECT COUNT(*) as c FROM agent_runs').get() as { c: number }).c;
+  console.log(`[agent] Run store ready: ${total} runs${interrupted ? `, ${interrupted} interrupted` : ''}`);
+}
+
+export function closeAgentStore(): void {
+  if (db) { db.close(); db = null; }
+}
+
+function createSchema(d: Database.Database): void {
+  d.exec(`
+    CREATE TABLE IF NOT EXISTS agent_runs (
+      id TEXT PRIMARY KEY,
+      goal TEXT NOT NULL,
+      status TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'api',
+      source_ref TEXT,
+      config TEXT NOT NULL DEFAULT '{}',
+      messages TEXT NOT NULL DEFAULT '[]',
+      result TEXT,
+      error TEXT,
+      provider TEXT,
+      model TEXT,
+      tools_used TEXT NOT NULL DEFAULT '[]',
+      prompt_tokens INTEGER NOT NULL DEFAULT 0,
+      completion_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      step_count INTEGER NOT NULL DEFAULT 0,
+      started_at INTEGER NOT NULL,
+      completed_at INTEGER,
+      total_duration_ms INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS agent_steps (
+      run_id TEXT NOT NULL REFERENCES agent_runs(id) ON DELETE CASCADE,
+      idx INTEGER NOT NULL,
+      thought TEXT NOT NULL DEFAULT '',
+      action TEXT,
+      action_input TEXT,
+      observation TEXT,
+      calls TEXT,
+      timestamp INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (run_id, idx)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_started ON agent_runs(started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_status ON agent_runs(status);
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_source ON agent_runs(source, source_ref);
+  `);
+
+  // Columns added after the first release of the store
+  addColumnIfMissing(d, 'agent_steps', 'calls', 'TEXT');
+  addColumnIfMissing(d, 'agent_runs', 'prompt_tokens', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(d, 'agent_runs', 'completion_tokens', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(d, 'agent_runs', 'cost_usd', 'REAL NOT NULL DEFAULT 0');
+}
+
+function addColumnIfMissing(d: Database.Database, table: string, column: string, decl: string): void {
+  const cols = d.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!cols.some(c => c.name === column)) d.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${decl}`);
+}
+
+// ---- Row mapping ----
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try { return JSON.parse(raw); } catch { return fallback; }
+}
+
+function rowToSummary(row: any): AgentRunSummary {
+  return {
+    id: row.id,
+    goal: row.goal,
+    status: row.status,
+    source: row.source,
+    sourceRef: row.source_ref,
+    result: row.result,
+    error: row.error,
+    provider: row.provider,
+    model: row.model,
+    toolsUsed: parseJson(row.tools_used, []),
+    usage: {
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      costUsd: row.cost_usd,
+    },
+    stepCount: row.step_count,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    totalDurationMs: row.total_duration_ms,
+  };
+}
+
+function rowToStep(row: any): AgentStep {
+  return {
+    index: row.idx,
+    thought: row.thought,
+    action: row.action,
+    actionInput: parseJson(row.action_input, null),
+    observation: row.observation,
+    calls: parseJson(row.calls, undefined),
+    timestamp: row.timestamp,
+    durationMs: row.duration_ms,
+  };
+}
+
+// ---- Writes ----
+
+/** Record a new run (or overwrite a resumed one's header) */
+export function saveRunStart(run: AgentRun, config: AgentConfig, messages: ChatMessage[]): void {
+  if (!db) return;
+  db.prepare(`
+    INSERT INTO agent_runs (id, goal, status, source, source_ref, config, messages, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET status = excluded.status, error = NULL, completed_at = NULL
+  `).run(
+    run.id, run.goal, run.status, run.source, run.sourceRef ?? null,
+    JSON.stringify(config), JSON.stringify(messages), run.startedAt,
+  );
+  pruneRuns();
+}
+
+/** Persist one completed step together with the conversation it produced */
+export function saveRunStep(run: AgentRun, step: AgentStep, messages: ChatMessage[]): void {
+  if (!db) return;
+  const d = db;
+  d.transaction(() => {
+    d.prepare(`
+      INSERT OR REPLACE INTO agent_steps (run_id, idx, thought, action, action_input, observation, calls, timestamp, duration_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.id, step.index, step.thought, step.action,
+      step.actionInput ? JSON.stringify(step.actionInput) : null,
+      step.observation, step.calls ? JSON.stringify(step.calls) : null, step.timestamp, step.durationMs,
+    );
+    d.prepare(`
+      UPDATE agent_runs SET messages = ?, step_count = ?, tools_used = ?, provider = ?, model = ?,
+        prompt_tokens = ?, completion_tokens = ?, cost_usd = ?
+      WHERE id = ?
+    `).run(
+      JSON.stringify(messages), run.steps.length, JSON.stringify(run.toolsUsed),
+      run.provider, run.model,
+      run.usage.promptTokens, run.usage.completionTokens, run.usage.costUsd, run.id,
+    );
+  })();
+}
+
+/** Record the final outcome of a run */
+export function saveRunEnd(run: AgentRun): void {
+  if (!db) return;
+  db.prepare(`
+    UPDATE agent_runs SET status = ?, result = ?, error = ?, provider = ?, model = ?,
+      tools_used = ?, step_count = ?, completed_at = ?, total_duration_ms = ?,
+      prompt_tokens = ?, completion_tokens = ?, cost_usd = ?
+    WHERE id = ?
+  `).run(
+    run.status, run.result, run.error, run.provider, run.model,
+    JSON.stringify(run.toolsUsed), run.steps.length, run.completedAt, run.totalDurationMs,
+    run.usage.promptTokens, run.usage.completionTokens, run.usage.costUsd, run.id,
+  );
+}
+
+function pruneRuns(): void {
+  db!.prepare(`
+    DELETE FROM agent_runs WHERE id IN (
+      SELECT id FROM agent_runs WHERE status NOT IN ('running', 'interrupted')
+      ORDER BY started_at DESC LIMIT -1 OFFSET ?
+    )
+  `).run(MAX_STORED_RUNS);
+}
+
+// ---- Reads ----
+
+export function listRuns(opts: {
+  status?: string;
+  source?: string;
+  sourceRef?: string;
+  limit?: number;
+  offset?: number;
+} = {}): AgentRunSummary[] {
+  if (!db) return [];
+  const where: string[] = [];
+  const params: any[] = [];
+  if (opts.status) { where.push('status = ?'); params.push(opts.status); }
+  if (opts.source) { where.push('source = ?'); params.push(opts.source); }
+  if (opts.sourceRef) { where.push('source_ref = ?'); params.push(opts.sourceRef); }
+
+  const rows = db.prepare(`
+    SELECT id, goal, status, source, source_ref, result, error, provider, model, tools_used,
+      prompt_tokens, completion_tokens, cost_usd, step_count, started_at, completed_at, total_duration_ms
+    FROM agent_runs ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
+    ORDER BY started_at DESC LIMIT ? OFFSET ?
+  `).all(...params, Math.min(opts.limit ?? 50, 200), opts.offset ?? 0);
+  return rows.map(rowToSummary);
+}
+
+/** A stored run with all of its steps */
+export function getRun(id: string): (AgentRunSummary & { steps: AgentStep[] }) | null {
+  if (!db) return null;
+  const row = db.prepare('SELECT * FROM agent_runs WHERE id = ?').get(id);
+  if (!row) return null;
+  const steps = db.prepare('SELECT * FROM agent_steps WHERE run_id = ? ORDER BY idx').all(id);
+  return { ...rowToSummary(row), steps: steps.map(rowToStep) };
+}
+
+/** Everything needed to pick a run back up: the run, its config and its conversation */
+export function loadRunCheckpoint(id: string): { run: AgentRun; config: AgentConfig; messages: ChatMessage[] } | null {
+  if (!db) return null;
+  const row = db.prepare('SELECT * FROM agent_runs WHERE id = ?').get(id) as any;
+  if (!row) return null;
+  const steps = db.prepare('SELECT * FROM agent_steps WHERE run_id = ? ORDER BY idx').all(id);
+  const summary = rowToSummary(row);
+  return {
+    run: {
+      id: summary.id,
+      goal: summary.goal,
+      status: summary.status,
+      steps: steps.map(rowToStep),
+      result: summary.result,
+      error: summary.error,
+      startedAt: summary.startedAt,
+      completedAt: summary.completedAt,
+      totalDurationMs: summary.totalDurationMs,
+      provider: summary.provider,
+      model: summary.model,
+      toolsUsed: summary.toolsUsed,
+      usage: summary.usage,
+      source: summary.source,
+      sourceRef: summary.sourceRef ?? undefined,
+    },
+    config: parseJson(row.config, {} as AgentConfig),
+    messages: parseJson(row.messages, []),
+  };
+}
+
+/** Tokens and spend of every run started since a timestamp (daily budgets, dashboard) */
+export function getSpendSince(since: number): { runs: number; tokens: number; costUsd: number } {
+  if (!db) return { runs: 0, tokens: 0, costUsd: 0 };
+  const row = db.prepare(`
+    SELECT COUNT(*) as runs, COALESCE(SUM(prompt_tokens + completion_tokens), 0) as tokens,
+      COALESCE(SUM(cost_usd), 0) as cost
+    FROM agent_runs WHERE started_at >= ?
+  `).get(since) as { runs: number; tokens: number; cost: number };
+  return { runs: row.runs, tokens: row.tokens, costUsd: row.cost };
+}
@@ -14,6 +14,7 @@ export interface ChatMessage {
   content: string;
   ts: string;
   toolsUsed?: string[];
+  toolRounds?: number;      // Tool-calling rounds spent producing this reply
   provider?: string;
   model?: string;
 }
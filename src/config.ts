@@ -37,17 +37,55 @@ export interface BuhdiConfig {
       name: string;
       endpoint: string;
       model: string;
-      apiKey?: string;           // NOTE: For local-only use. For production, store in credential vault as 'llm_<name>'
+      apiKey?: string;           // Legacy — moved into the secret store ('llm' namespace) on first use
       priority: number;
       capabilities: string[];
       maxContext: number;
       enabled: boolean;
+      pricing?: Record<string, { input: number; output: number }>; // USD per 1M tokens, by model ('*' = any)
     }>;
     maxLatencyMs?: number;
     retries?: number;
   };
   scheduler?: {
     allowScripts?: boolean;    // Default false — must explicitly enable shell commands
+    history?: {                // Run log retention; 0 = keep forever
+      max_runs_per_schedule?: number;  // Default 200
+      max_age_days?: number;           // Default 90
+    };
+  };
+  credentials?: {
+    sweepIntervalHours?: number;   // Default 6 — how often to test stored tool credentials; 0 = never
+    expiryWarningDays?: number;    // Default 7 — warn this long before a credential expires
+    google?: {                     // OAuth client for signing in Google tool plugins
+      clientId?: string;
+      clientSecret?: string;
+      authUri?: string;            // Endpoint overrides, e.g. for a local stand-in server
+      tokenUri?: string;
+    };
+  };
+  mcp?: {
+    servers?: Array<{          // stdio MCP servers mounted as tool plugins ("mcp_<name>")
+      name: string;
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;  // Only PATH, HOME and the like are inherited
+      cwd?: string;
+      enabled?: boolean;               // Default true
+      safety?: Record<string, string>; // Tier per MCP tool name, '*' = any: read | write | delete | financial | admin
+      tools?: string[];                // Only expose these tools (default all)
+      rateLimit?: number;              // Max calls per minute, per tool
+      timeoutMs?: number;              // Per call, default 60000
+    }>;
+    serve?: boolean;           // Offer this node's tools, memory and agent at /mcp (default true)
+  };
+  agent?: {
+    budget?: {                 // 0 / unset = unlimited. Run limits cap what clients may request
+      run_tokens?: number;
+      run_cost_usd?: number;
+      daily_tokens?: number;
+      daily_cost_usd?: number;
+    };
   };
   memory?: {
     enabled?: boolean;
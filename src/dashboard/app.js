@@ -14,6 +14,7 @@
     credentials: {},
     activeChatId: null,    // Current chat session ID
     chats: [],             // Chat list
+    pendingOAuth: null,    // Tool waiting on an OAuth sign-in tab
   };
 
   // ---- DOM refs ----
@@ -256,10 +257,12 @@
       content: m.content,
     }));
 
-    // Helper to send the chat payload (with optional file)
-    const sendPayload = (fileData) => {
+    // Helper to send the chat payload (with an optional image or uploaded document)
+    const sendPayload = (fileData, attachmentId) => {
       const payload = { message: text, history };
+      if (state.activeChatId) payload.chatId = state.activeChatId;
       if (fileData) payload.file = fileData;
+      if (attachmentId) payload.attachmentId = attachmentId;
 
       if (window.buhdiWS.ws?.readyState === WebSocket.OPEN) {
         window.buhdiWS.send('chat.send', payload);
@@ -273,11 +276,26 @@
 
     if (pendingFile) {
       const file = pendingFile;
+      const remember = pendingRemember.checked;
       clearPendingFile();
       const reader = new FileReader();
-      reader.onload = () => {
+      reader.onload = async () => {
         const base64 = reader.result.split(',')[1]; // strip data:...;base64, prefix
-        sendPayload({ name: file.name, type: file.type, data: base64 });
+        if (file.type.startsWith('image/')) {
+          sendPayload({ name: file.name, type: file.type, data: base64 });
+          return;
+        }
+        // Documents are extracted node-side first, then referenced by id
+        try {
+          const { data } = await buhdiAPI.chatUpload({ name: file.name, type: file.type, data: base64, remember });
+          const extra = [data.pages ? `${data.pages} pages` : '', data.sheets?.length ? `${data.sheets.length} sheets` : '', `${data.parts} parts`]
+            .filter(Boolean).join(', ');
+          addChatMessage('system', `📄 ${file.name} — ${extra}${data.memoryEntityId ? ' · saved to memory' : ''}`);
+          sendPayload(null, data.id);
+        } catch (err) {
+          addChatMessage('system', `Failed to read ${file.name}: ${err.message}`);
+          sendPayload(null);
+        }
       };
       reader.onerror = () => {
         addChatMessage('system', `Failed to read file: ${file.name}`);
@@ -302,7 +320,7 @@
   });
 
   // ---- File Handling (drag-drop, paste, upload) ----
-  const ALLOWED_EXTS = ['.jpg','.jpeg','.png','.gif','.webp','.pdf','.doc','.docx','.xls','.xlsx','.txt','.csv','.md'];
+  const ALLOWED_EXTS = ['.jpg','.jpeg','.png','.gif','.webp','.pdf','.docx','.xlsx','.txt','.csv','.md'];
   const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
   let pendingFile = null;
 
@@ -312,6 +330,8 @@
   const pendingFileEl = $('#chat-pending-file');
   const pendingNameEl = $('#chat-pending-name');
   const pendingClearBtn = $('#chat-pending-clear');
+  const pendingRemember = $('#chat-pending-remember');
+  const pendingRememberLabel = $('#chat-pending-remember-label');
 
   function handleFileSelect(file) {
     const ext = '.' + file.name.split('.').pop().toLowerCase();
@@ -326,6 +346,7 @@
     pendingFile = file;
     const icon = file.type.startsWith('image/') ? '🖼️' : '📎';
     pendingNameEl.textContent = icon + ' ' + file.name;
+    pendingRememberLabel.style.display = file.type.startsWith('image/') ? 'none' : '';
     pendingFileEl.style.display = 'flex';
   }
 
@@ -333,6 +354,7 @@
     pendingFile = null;
     pendingFileEl.style.display = 'none';
     pendingNameEl.textContent = '';
+    pendingRemember.checked = false;
     fileInput.value = '';
   }
 
@@ -525,11 +547,22 @@
     chatMessages.scrollTop = chatMessages.scrollHeight;
   }
 
-  function finalizeStream(fullText) {
+  function finalizeStream(fullText, modelInfo = null, persist = true) {
     const msgEl = document.getElementById('streaming-msg');
-    if (msgEl) {
-      msgEl.id = '';
-      msgEl.querySelector('.msg-content').innerHTML = window.renderMarkdown(fullText || state.streaming);
+    if (!msgEl) {
+      // Nothing was streamed (e.g. empty follow-up after tools) — render as a normal message
+      state.streaming = null;
+      showTyping(false);
+      if (fullText) addChatMessage('assistant', fullText, persist, modelInfo);
+      return;
+    }
+    msgEl.id = '';
+    msgEl.querySelector('.msg-content').innerHTML = window.renderMarkdown(fullText || state.streaming);
+    if (modelInfo) {
+      const metaEl = document.createElement('small');
+      metaEl.style.cssText = 'color:var(--text-muted);display:block;margin-top:4px;';
+      metaEl.textContent = 'via ' + modelInfo;
+      msgEl.querySelector('.msg-content').appendChild(metaEl);
     }
     const content = fullText || state.streaming || '';
     state.streaming = null;
@@ -537,7 +570,7 @@
     state.chatMessages.push({ role: 'assistant', content });
 
     // Persist assistant message
-    if (state.activeChatId && content) {
+    if (persist && state.activeChatId && content) {
       buhdiAPI.chatAddMessage(state.activeChatId, { role: 'assistant', content, ts: new Date().toISOString() }).catch(() => {});
       loadChatList(); // Refresh sidebar (title may have auto-updated)
     }
@@ -603,10 +636,12 @@
           if (llm.stats) {
             llmEl.innerHTML += `<div style="margin-top:8px;font-size:12px;color:var(--text-muted)">
               Requests: ${llm.stats.totalRequests || 0} · Fallbacks: ${llm.stats.totalFallbacks || 0} · Strategy: ${esc(llm.stats.strategy || 'none')}
+              ${llm.stats.routing?.recent?.[0] ? `<br>Last route: ${esc(llm.stats.routing.recent[0].reason)}` : ''}
             </div>`;
           }
         }
       } catch {}
+      loadCredentialAlerts();
       if (data.activity?.length) {
         $('#dash-activity').innerHTML = data.activity.map(a => `
           <div class="activity-item">
@@ -621,6 +656,36 @@
     }
   }
 
+  const CRED_STATUS = {
+    ok: { icon: '✅', label: 'Working', color: 'var(--success)' },
+    unchecked: { icon: '•', label: 'Not checked yet', color: 'var(--text-muted)' },
+    expiring: { icon: '⏳', label: 'Expiring soon', color: 'var(--warning)' },
+    expired: { icon: '⛔', label: 'Expired', color: 'var(--error)' },
+    failing: { icon: '⚠️', label: 'Failing', color: 'var(--error)' },
+  };
+
+  async function loadCredentialAlerts() {
+    const section = $('#dash-cred-alerts-section');
+    if (!section) return;
+    try {
+      const data = await window.buhdiAPI.credentials();
+      state.credentials = data.credentials || {};
+      const alerts = data.alerts || [];
+      section.classList.toggle('hidden', alerts.length === 0);
+      $('#dash-cred-alerts').innerHTML = alerts.map(a => `
+        <div class="activity-item">
+          <span class="activity-icon">${(CRED_STATUS[a.status] || CRED_STATUS.failing).icon}</span>
+          <span class="activity-text">${esc(a.message)}</span>
+          <button class="btn-sm" data-action="goto-tools">Re-enter</button>
+        </div>
+      `).join('');
+    } catch {}
+  }
+
+  document.getElementById('dash-cred-alerts')?.addEventListener('click', (e) => {
+    if (e.target.closest('[data-action="goto-tools"]')) switchView('tools');
+  });
+
   // ---- Jobs & Schedules ----
   async function loadSchedules() {
     try {
@@ -633,7 +698,10 @@
       try {
         const status = await buhdiAPI.schedulerStatus();
         const badge = document.getElementById('scheduler-status-badge');
-        if (badge) badge.textContent = `${status.active_count} active / ${status.schedule_count} total`;
+        if (badge) {
+          badge.textContent = `${status.active_count} active / ${status.schedule_count} total`
+            + (status.agent_cost_usd ? ` · ${formatUsd(status.agent_cost_usd)} agent spend` : '');
+        }
       } catch {}
 
       if (items.length === 0) {
@@ -646,11 +714,16 @@
           <div class="sched-status">${s.enabled ? '🟢' : '⚪'}</div>
           <div class="sched-info">
             <span class="sched-name">${escapeHtml(s.name)}</span>
-            <span class="sched-cron">${escapeHtml(s.cron)}</span>
+            <span class="sched-cron">${escapeHtml(describeTrigger(s))}</span>
             <div class="sched-meta">
-              ${s.action.type} · Runs: ${s.run_count} · Last: ${s.last_result ? (s.last_result === 'success' ? '✅' : '❌') : '—'}
+              ${s.action.type === 'workflow' ? `workflow (${s.action.steps.length} steps)` : s.action.type} · Runs: ${s.run_count} · Last: ${s.last_result ? (s.last_result === 'success' ? '✅' : '❌') : '—'}
               ${s.last_run_at ? ' · ' + new Date(s.last_run_at).toLocaleString() : ''}
+              ${s.notifications?.length ? ` · 🔔 ${s.notifications.map(n => escapeHtml(`${n.type} (${n.on || 'failure'})`)).join(', ')}` : ''}
+              ${s.agent_tokens ? ` · ${s.agent_tokens.toLocaleString()} tokens / ${formatUsd(s.agent_cost_usd || 0)}` : ''}
+              ${s.last_agent_run_id ? ` · <span class="sched-run-link" data-action="view-run" data-sched-id="${escapeHtml(s.id)}" data-run-id="${escapeHtml(s.last_agent_run_id)}">Run log</span>` : ''}
+              ${s.run_count ? ` · <span class="sched-run-link" data-action="history" data-sched-id="${escapeHtml(s.id)}">History</span>` : ''}
             </div>
+            <div class="sched-history" style="display:none"></div>
           </div>
           <div class="sched-actions">
             <button data-action="run" data-sched-id="${escapeHtml(s.id)}">▶ Run</button>
@@ -664,6 +737,72 @@
     }
   }
 
+  /** One-line description of what fires a schedule */
+  function describeTrigger(s) {
+    const t = s.trigger || { type: 'cron', expression: s.cron };
+    switch (t.type) {
+      case 'cron': return t.expression + (s.timezone ? ` (${s.timezone})` : '');
+      case 'once': return `once at ${new Date(t.at).toLocaleString()}`;
+      case 'interval': return `every ${Math.round(t.every_ms / 60000)} min`;
+      case 'watch': return `on change in ${t.path}`;
+      case 'webhook': return `webhook POST /api/hooks/${s.id}`;
+      case 'event': return `on ${t.event}${t.filter && Object.keys(t.filter).length ? ' ' + JSON.stringify(t.filter) : ''}`;
+      default: return t.type;
+    }
+  }
+
+  const TRIGGER_PLACEHOLDERS = {
+    cron: 'Cron (e.g. */30 * * * *)',
+    interval: 'Minutes (min 1)',
+    once: 'When (e.g. 2026-01-31 09:00)',
+    watch: 'Path inside the workspace',
+    webhook: 'No value needed',
+    event: 'Event (e.g. agent.run.finished)',
+  };
+
+  /** Trigger object from the create form's type + value fields */
+  function triggerFromForm(type, value) {
+    switch (type) {
+      case 'cron': return { type, expression: value };
+      case 'interval': return { type, every_ms: Math.round(parseFloat(value) * 60000) };
+      case 'once': return { type, at: new Date(value).toISOString() };
+      case 'watch': return { type, path: value };
+      case 'webhook': return { type };
+      case 'event': return { type, event: value };
+      default: throw new Error('Unknown trigger type');
+    }
+  }
+
+  const SCHED_HISTORY_PAGE = 10;
+  const STEP_ICONS = { success: '✅', error: '❌', skipped: '⏭️' };
+
+  /** Stored run attempts of one schedule, newest first, a page at a time */
+  async function loadScheduleHistory(el, id, offset) {
+    el.innerHTML = '<div class="job-meta">Loading…</div>';
+    try {
+      const { data, total } = await buhdiAPI.scheduleRuns(id, SCHED_HISTORY_PAGE, offset);
+      if (!data.length) {
+        el.innerHTML = '<div class="job-meta">No stored runs.</div>';
+        return;
+      }
+      const rows = data.map(r => `
+        <div class="sched-history-row">
+          ${STEP_ICONS[r.result] || '❌'} ${new Date(r.started_at).toLocaleString()}
+          · ${r.duration_ms}ms${r.attempt > 1 ? ` · retry ${r.attempt - 1}` : ''}${r.trigger !== 'cron' ? ` · ${escapeHtml(r.trigger)}` : ''}
+          ${r.agent_run_id ? ` · <span class="sched-run-link" data-action="view-run" data-sched-id="${escapeHtml(id)}" data-run-id="${escapeHtml(r.agent_run_id)}">Run log</span>` : ''}
+          ${r.steps?.length ? `<div class="job-meta">${r.steps.map(st => `${STEP_ICONS[st.status] || ''} ${escapeHtml(st.step_id)}${st.attempts > 1 ? ` ×${st.attempts}` : ''}`).join(' → ')}</div>` : ''}
+          <div class="step-obs">${escapeHtml((r.error || r.output || '').substring(0, 300))}</div>
+        </div>`).join('');
+      const pager = [
+        offset > 0 ? `<span class="sched-run-link" data-action="history-page" data-sched-id="${escapeHtml(id)}" data-offset="${Math.max(0, offset - SCHED_HISTORY_PAGE)}">Newer</span>` : '',
+        offset + data.length < total ? `<span class="sched-run-link" data-action="history-page" data-sched-id="${escapeHtml(id)}" data-offset="${offset + SCHED_HISTORY_PAGE}">Older</span>` : '',
+      ].filter(Boolean).join(' · ');
+      el.innerHTML = rows + `<div class="job-meta">${offset + 1}–${offset + data.length} of ${total}${pager ? ' · ' + pager : ''}</div>`;
+    } catch (err) {
+      el.innerHTML = `<div class="job-meta">Failed to load history: ${escapeHtml(err.message)}</div>`;
+    }
+  }
+
   // M2-FIX: Event delegation for schedule actions (no inline onclick)
   document.getElementById('schedules-list')?.addEventListener('click', async (e) => {
     const btn = e.target.closest('[data-action]');
@@ -673,7 +812,19 @@
     if (!id) return;
 
     try {
-      if (action === 'run') {
+      if (action === 'view-run') {
+        showAgentRun(btn.dataset.runId);
+      } else if (action === 'history') {
+        const el = btn.closest('.schedule-card').querySelector('.sched-history');
+        if (el.style.display === 'none') {
+          el.style.display = 'block';
+          loadScheduleHistory(el, id, 0);
+        } else {
+          el.style.display = 'none';
+        }
+      } else if (action === 'history-page') {
+        loadScheduleHistory(btn.closest('.sched-history'), id, parseInt(btn.dataset.offset) || 0);
+      } else if (action === 'run') {
         await buhdiAPI.scheduleRun(id);
         setTimeout(loadSchedules, 1000);
       } else if (action === 'toggle') {
@@ -694,14 +845,25 @@
     if (form) form.style.display = form.style.display === 'none' ? 'block' : 'none';
   });
 
+  document.getElementById('sched-trigger-type')?.addEventListener('change', (e) => {
+    const input = document.getElementById('sched-cron');
+    if (!input) return;
+    input.placeholder = TRIGGER_PLACEHOLDERS[e.target.value] || '';
+    input.disabled = e.target.value === 'webhook';
+  });
+
   // Create schedule
   document.getElementById('schedule-create-btn')?.addEventListener('click', async () => {
     const name = document.getElementById('sched-name')?.value?.trim();
-    const cronExpr = document.getElementById('sched-cron')?.value?.trim();
+    const triggerType = document.getElementById('sched-trigger-type')?.value || 'cron';
+    const triggerValue = document.getElementById('sched-cron')?.value?.trim();
     const actionType = document.getElementById('sched-action-type')?.value;
     const actionValue = document.getElementById('sched-action-value')?.value?.trim();
 
-    if (!name || !cronExpr || !actionValue) return alert('Fill in all fields');
+    if (!name || (!triggerValue && triggerType !== 'webhook') || !actionValue) return alert('Fill in all fields');
+
+    let trigger;
+    try { trigger = triggerFromForm(triggerType, triggerValue); } catch (err) { return alert('Invalid trigger: ' + err.message); }
 
     let action;
     switch (actionType) {
@@ -709,11 +871,17 @@
       case 'tool': action = { type: 'tool', plugin: actionValue, method: 'execute' }; break;
       case 'webhook': action = { type: 'webhook', url: actionValue }; break;
       case 'script': action = { type: 'script', command: actionValue }; break;
+      case 'workflow':
+        try { action = { type: 'workflow', steps: JSON.parse(actionValue) }; } catch { return alert('Workflow steps must be a JSON array'); }
+        break;
       default: return alert('Unknown action type');
     }
 
     try {
-      await buhdiAPI.scheduleCreate({ name, cron: cronExpr, action });
+      const created = await buhdiAPI.scheduleCreate({ name, trigger, action });
+      if (created.data?.webhook_secret) {
+        prompt(`Webhook secret — shown once. Send it as the X-Buhdi-Secret header to POST /api/hooks/${created.data.id}`, created.data.webhook_secret);
+      }
       document.getElementById('sched-name').value = '';
       document.getElementById('sched-cron').value = '';
       document.getElementById('sched-action-value').value = '';
@@ -724,8 +892,126 @@
     }
   });
 
+  // ---- Agent Run History ----
+  const RUN_ICONS = { running: '⚡', completed: '✅', failed: '❌', cancelled: '🚫', max_steps: '⏱️', interrupted: '⏸️', budget_exceeded: '💸' };
+
+  function formatUsd(n) {
+    return n > 0 && n < 0.01 ? `$${n.toFixed(4)}` : `$${n.toFixed(2)}`;
+  }
+
+  function agentRunCard(r) {
+    const when = new Date(r.startedAt).toLocaleString();
+    const duration = r.completedAt ? ` · ${Math.round(r.totalDurationMs / 1000)}s` : '';
+    const tokens = r.usage ? r.usage.promptTokens + r.usage.completionTokens : 0;
+    const spend = tokens ? ` · ${tokens.toLocaleString()} tokens${r.usage.costUsd ? ' / ' + formatUsd(r.usage.costUsd) : ''}` : '';
+    return `
+      <div class="job-card agent-run" data-run-id="${esc(r.id)}">
+        <div class="agent-run-head">
+          <div>
+            <div class="job-name">${RUN_ICONS[r.status] || '•'} ${esc(r.goal.length > 100 ? r.goal.slice(0, 100) + '…' : r.goal)}</div>
+            <div class="job-meta">${esc(r.source)} · ${r.stepCount} steps · ${esc(when)}${duration}${spend}</div>
+          </div>
+          <div class="job-status">
+            ${r.status === 'interrupted' ? `<button class="btn btn-secondary" data-run-action="resume" style="font-size:11px;">↻ Resume</button>` : esc(r.status)}
+          </div>
+        </div>
+        <div class="agent-run-steps" style="display:none;"></div>
+      </div>`;
+  }
+
+  async function loadAgentRuns() {
+    const list = document.getElementById('agent-runs');
+    if (!list) return;
+    try {
+      const result = await buhdiAPI.agentRuns({ limit: 25 });
+      const runs = result.data || [];
+      list.innerHTML = runs.length
+        ? runs.map(agentRunCard).join('')
+        : '<div class="activity-empty">No agent runs yet</div>';
+
+      const spend = await buhdiAPI.agentSpend();
+      const badge = document.getElementById('agent-spend-badge');
+      if (badge) {
+        const { today, budget } = spend;
+        let text = `Today: ${today.tokens.toLocaleString()} tokens · ${formatUsd(today.costUsd)}`;
+        if (budget.dailyCostUsd) text += ` of ${formatUsd(budget.dailyCostUsd)}`;
+        else if (budget.dailyTokens) text += ` (limit ${budget.dailyTokens.toLocaleString()} tokens)`;
+        badge.textContent = text;
+      }
+    } catch (err) {
+      console.warn('Failed to load agent runs:', err);
+    }
+  }
+
+  async function toggleAgentRun(card, forceOpen = false) {
+    const stepsEl = card.querySelector('.agent-run-steps');
+    if (!stepsEl) return;
+    if (stepsEl.style.display !== 'none' && !forceOpen) {
+      stepsEl.style.display = 'none';
+      return;
+    }
+    stepsEl.style.display = 'flex';
+    stepsEl.innerHTML = '<div class="job-meta">Loading…</div>';
+    try {
+      const run = await buhdiAPI.agentRun(card.dataset.runId);
+      const steps = run.steps.map(st => `
+        <div class="agent-run-step">
+          <div><strong>Step ${st.index + 1}</strong>${st.thought ? ` — 💭 ${esc(st.thought)}` : ''}</div>
+          ${st.calls?.length
+            ? st.calls.map(c => `<div>🔧 ${esc(c.tool)} <span class="job-meta">${esc(c.status)} · ${c.durationMs}ms</span></div>
+                <div class="step-obs">${esc(c.observation.slice(0, 500))}</div>`).join('')
+            : `${st.action ? `<div>🔧 ${esc(st.action)}</div>` : ''}
+              ${st.observation ? `<div class="step-obs">${esc(st.observation.slice(0, 1000))}</div>` : ''}`}
+        </div>`).join('');
+      const outcome = run.result || run.error;
+      stepsEl.innerHTML = (steps || '<div class="job-meta">No steps recorded</div>')
+        + (outcome ? `<div class="agent-run-step"><strong>${run.result ? 'Result' : 'Error'}:</strong> <span class="step-obs">${esc(outcome)}</span></div>` : '');
+    } catch (err) {
+      stepsEl.innerHTML = `<div class="job-meta">Failed to load run: ${esc(err.message)}</div>`;
+    }
+  }
+
+  /** Open a stored run in the Jobs tab (used by schedule "Run log" links) */
+  async function showAgentRun(runId) {
+    const list = document.getElementById('agent-runs');
+    if (!list || !runId) return;
+    let card = list.querySelector(`[data-run-id="${CSS.escape(runId)}"]`);
+    if (!card) {
+      try {
+        const run = await buhdiAPI.agentRun(runId);
+        list.querySelector('.activity-empty')?.remove();
+        list.insertAdjacentHTML('afterbegin', agentRunCard(run));
+        card = list.firstElementChild;
+      } catch (err) {
+        return alert('Run not found: ' + err.message);
+      }
+    }
+    card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    toggleAgentRun(card, true);
+  }
+
+  document.getElementById('agent-runs')?.addEventListener('click', async (e) => {
+    const card = e.target.closest('.agent-run');
+    if (!card || e.target.closest('.agent-run-steps')) return;
+
+    if (e.target.closest('[data-run-action="resume"]')) {
+      const btn = e.target.closest('button');
+      btn.disabled = true;
+      btn.textContent = 'Resuming…';
+      try {
+        await buhdiAPI.agentResume(card.dataset.runId);
+      } catch (err) {
+        alert('Resume failed: ' + err.message);
+      }
+      loadAgentRuns();
+      return;
+    }
+    toggleAgentRun(card);
+  });
+
   async function loadJobs() {
     await loadSchedules();
+    loadAgentRuns();
     try {
       const data = await window.buhdiAPI.tasks();
       const runningEl = $('#jobs-running');
@@ -768,7 +1054,7 @@
     'Communication': {
       icon: '📧',
       tools: [
-        { name: 'gmail', desc: 'Email management and automation', credType: 'api_key', credLabel: 'Gmail API Key', credHint: 'OAuth client credentials or API key from Google Cloud Console' },
+        { name: 'gmail', desc: 'Email management and automation', credType: 'oauth', credLabel: 'Gmail Access Token', credHint: 'Or paste an OAuth2 access token with gmail.readonly and gmail.send scopes' },
         { name: 'outlook', desc: 'Email and calendar management', credType: 'api_key', credLabel: 'Microsoft App Secret', credHint: 'Azure AD app registration client secret' },
         { name: 'zoom', desc: 'Video conferencing management', credType: 'api_key', credLabel: 'Zoom JWT Token', credHint: 'Server-to-Server OAuth app credentials' },
         { name: 'ringcentral', desc: 'Business phone and messaging', credType: 'api_key' },
@@ -805,7 +1091,7 @@
     'Scheduling': {
       icon: '📅',
       tools: [
-        { name: 'google_calendar', desc: 'Events, scheduling, and reminders', credType: 'api_key' },
+        { name: 'google_calendar', desc: 'Events, scheduling, and reminders', credType: 'oauth', credLabel: 'Calendar Access Token', credHint: 'Or paste an OAuth2 access token with calendar scope' },
         { name: 'calendly', desc: 'Appointment booking', credType: 'api_key', credLabel: 'Calendly API Key' },
         { name: 'acuity', desc: 'Client booking and payments', credType: 'api_key' },
         { name: 'meeting_prep', desc: 'Agendas, reminders, and meeting notes' },
@@ -974,7 +1260,10 @@
 
           const displayName = t.displayName || t.name.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
           const canConfigure = !!t.credType;
-          const credBadge = isConfigured
+          const credAlert = isConfigured && ['expiring', 'expired', 'failing'].includes(cred.status) ? CRED_STATUS[cred.status] : null;
+          const credBadge = credAlert
+            ? `<div class="tool-card-cred" style="color:${credAlert.color}">${credAlert.icon} ${credAlert.label} — click to re-enter</div>`
+            : isConfigured
             ? `<div class="tool-card-cred has-cred">🔒 ${cred.storageMode === 'blind_custodian' ? 'Portable' : 'Local'}</div>`
             : canConfigure
               ? `<div class="tool-card-cred">Click to configure credentials</div>`
@@ -1120,6 +1409,11 @@
         <input type="text" class="cred-input" id="ct-cred-label" placeholder="e.g. API Key, Access Token" value="API Key" maxlength="50">
         <div class="cred-hint">What to call the credential field when configuring</div>
       </div>
+      <div class="cred-form-group">
+        <label>OpenAPI Document (optional)</label>
+        <textarea class="cred-input" id="ct-openapi" rows="4" placeholder='{ "openapi": "3.0.0", ... }'></textarea>
+        <div class="cred-hint">Paste an OpenAPI 3 JSON document to make the tool's operations callable by Buhdi. Base URL and authentication are taken from it when left blank above.</div>
+      </div>
       <div id="ct-status"></div>
       <div class="cred-actions">
         <button class="btn-outline" id="ct-cancel">Cancel</button>
@@ -1134,6 +1428,7 @@
         $('#ct-status').innerHTML = '<div class="cred-status error">Tool name is required</div>';
         return;
       }
+      const openapi = $('#ct-openapi').value.trim();
       $('#ct-status').innerHTML = '<div class="cred-status" style="color:var(--text-muted)">Saving...</div>';
       try {
         await window.buhdiAPI.customToolSave({
@@ -1142,8 +1437,10 @@
           desc: $('#ct-desc').value.trim(),
           category: $('#ct-category').value,
           apiBaseUrl: $('#ct-url').value.trim(),
-          authType: $('#ct-auth').value,
+          // With a document, let it pick the auth unless the user chose one
+          authType: openapi && $('#ct-auth').value === 'api_key' ? undefined : $('#ct-auth').value,
           credLabel: $('#ct-cred-label').value.trim() || 'API Key',
+          ...(openapi ? { openapi } : {}),
         });
         closeCredentialModal();
         loadTools();
@@ -1180,12 +1477,25 @@
     const modeLabel = cred.storageMode === 'blind_custodian' ? '🔐 Blind Custodian · Portable' : '🔒 Local Only';
     const lastUsed = cred.lastUsedAt ? new Date(cred.lastUsedAt).toLocaleDateString() : 'Never';
     const addedAt = cred.addedAt ? new Date(cred.addedAt).toLocaleDateString() : '—';
+    const status = CRED_STATUS[cred.status] || CRED_STATUS.unchecked;
+    const expires = cred.expiresAt
+      ? new Date(cred.expiresAt).toLocaleString() + (cred.refreshable ? ' (auto-refreshed)' : '')
+      : 'Never';
+    const checked = cred.checkedAt ? new Date(cred.checkedAt).toLocaleString() : 'Never';
 
     credModalBody.innerHTML = `
       <div class="cred-configured">
         <div class="cred-configured-row">
           <span class="cred-configured-label">Status</span>
-          <span class="cred-configured-value" style="color: var(--success)">✅ Active</span>
+          <span class="cred-configured-value" style="color: ${status.color}">${status.icon} ${status.label}</span>
+        </div>
+        <div class="cred-configured-row">
+          <span class="cred-configured-label">Expires</span>
+          <span class="cred-configured-value">${esc(expires)}</span>
+        </div>
+        <div class="cred-configured-row">
+          <span class="cred-configured-label">Last Checked</span>
+          <span class="cred-configured-value">${esc(checked)}</span>
         </div>
         <div class="cred-configured-row">
           <span class="cred-configured-label">Storage</span>
@@ -1200,7 +1510,7 @@
           <span class="cred-configured-value">${lastUsed}</span>
         </div>
       </div>
-      <div id="cred-modal-status"></div>
+      <div id="cred-modal-status">${cred.error ? `<div class="cred-status error">❌ ${esc(cred.error)}</div>` : ''}</div>
       <div class="cred-actions">
         <button class="btn-outline" id="cred-test-btn">Test Connection</button>
         <button class="btn-outline" id="cred-update-btn">Update Key</button>
@@ -1214,7 +1524,10 @@
       statusEl.innerHTML = '<div class="cred-status" style="color: var(--text-muted)">Testing...</div>';
       try {
         const res = await window.buhdiAPI.credentialTest(toolName);
-        statusEl.innerHTML = `<div class="cred-status success">✅ ${res.details || 'Connection successful'}</div>`;
+        if (res.meta) state.credentials[toolName] = res.meta;
+        statusEl.innerHTML = res.ok
+          ? `<div class="cred-status success">✅ ${esc(res.details || 'Connection successful')}</div>`
+          : `<div class="cred-status error">❌ ${esc(res.details || 'Connection failed')}</div>`;
       } catch (err) {
         statusEl.innerHTML = `<div class="cred-status error">❌ ${err.message || 'Connection failed'}</div>`;
       }
@@ -1286,7 +1599,19 @@
     const label = tool.credLabel || 'API Key';
     const hint = tool.credHint || `Enter your ${label} for ${toolName.replace(/_/g, ' ')}`;
 
-    const formHtml = `
+    const oauthHtml = tool.credType === 'oauth' ? `
+      <div class="cred-form-group">
+        <label>Sign in with Google</label>
+        <input type="text" class="cred-input" id="cred-oauth-client-id" placeholder="OAuth client ID (blank = from config)" autocomplete="off">
+        <input type="password" class="cred-input" id="cred-oauth-client-secret" placeholder="Client secret (optional)" autocomplete="new-password" data-1p-ignore data-lpignore="true" style="margin-top:6px">
+        <div class="cred-hint">Use a Desktop app OAuth client from Google Cloud Console. Tokens are stored encrypted on this machine and refreshed automatically.</div>
+        <div class="cred-actions" style="justify-content:flex-start">
+          <button class="btn-primary" id="cred-oauth-btn">🔑 Sign in with Google</button>
+        </div>
+        <div id="cred-oauth-status"></div>
+      </div>` : '';
+
+    const formHtml = oauthHtml + `
       <div class="cred-form-group">
         <label>${label}</label>
         <div class="cred-input-row">
@@ -1295,6 +1620,11 @@
         </div>
         <div class="cred-hint">${hint}</div>
       </div>
+      <div class="cred-form-group">
+        <label>Expires (optional)</label>
+        <input type="date" class="cred-input" id="cred-expires-input">
+        <div class="cred-hint">You'll be warned before this date. OAuth tokens with a refresh token renew themselves.</div>
+      </div>
       <div id="cred-form-status"></div>
       <div class="cred-actions">
         <button class="btn-outline" id="cred-cancel-btn">Cancel</button>
@@ -1317,6 +1647,22 @@
     // Cancel
     $('#cred-cancel-btn').addEventListener('click', closeCredentialModal);
 
+    // OAuth sign-in — the tab lands on /api/oauth/callback, which reports back over the WebSocket
+    $('#cred-oauth-btn')?.addEventListener('click', async () => {
+      const statusEl = $('#cred-oauth-status');
+      try {
+        const { url } = await window.buhdiAPI.oauthStart(toolName, {
+          client_id: $('#cred-oauth-client-id').value.trim() || undefined,
+          client_secret: $('#cred-oauth-client-secret').value.trim() || undefined,
+        });
+        state.pendingOAuth = toolName;
+        window.open(url, '_blank', 'noopener');
+        statusEl.innerHTML = '<div class="cred-status" style="color: var(--text-muted)">Waiting for Google sign-in in the new tab...</div>';
+      } catch (err) {
+        statusEl.innerHTML = `<div class="cred-status error">❌ ${esc(err.message)}</div>`;
+      }
+    });
+
     // Save
     $('#cred-save-btn').addEventListener('click', async () => {
       const key = $('#cred-key-input').value.trim();
@@ -1329,10 +1675,12 @@
       statusEl.innerHTML = '<div class="cred-status" style="color: var(--text-muted)">Saving & testing...</div>';
 
       try {
+        const expires = $('#cred-expires-input').value;
         const res = await window.buhdiAPI.credentialSave(toolName, {
           credential: key,
           storageMode: mode,
           toolType: tool.credType || 'api_key',
+          expiresAt: expires ? new Date(expires + 'T23:59:59').toISOString() : undefined,
         });
 
         state.credentials[toolName] = {
@@ -1341,7 +1689,11 @@
           addedAt: new Date().toISOString(),
         };
 
-        statusEl.innerHTML = `<div class="cred-status success">✅ ${res.details || 'Saved successfully!'}</div>`;
+        const test = await window.buhdiAPI.credentialTest(toolName).catch(() => null);
+        if (test?.meta) state.credentials[toolName] = test.meta;
+        statusEl.innerHTML = test && !test.ok
+          ? `<div class="cred-status error">⚠️ Saved, but the test failed: ${esc(test.details || 'unknown error')}</div>`
+          : `<div class="cred-status success">✅ ${esc(res.details || 'Saved successfully!')}</div>`;
 
         // Auto-close after 1.5s and refresh
         setTimeout(() => {
@@ -1724,13 +2076,14 @@
 </ul>`,
 
     scheduler: `<h2>Scheduler</h2>
-<p>Cron-based task automation. Create schedules from the Jobs tab or API.</p>
+<p>Task automation on cron, interval, one-shot, file-change, webhook and node-event triggers. Create schedules from the Jobs tab or API.</p>
 <h3>Action Types</h3>
 <ul>
 <li><strong>Agent</strong> — Run an AI agent with a goal</li>
 <li><strong>Tool</strong> — Execute a tool plugin directly</li>
 <li><strong>Webhook</strong> — Call an HTTP endpoint</li>
 <li><strong>Script</strong> — Run a shell command (requires <code>scheduler.allowScripts: true</code>)</li>
+<li><strong>Workflow</strong> — Several of the above as steps; later steps use earlier output via <code>{{steps.id.output}}</code> or <code>{{steps.id.json.path}}</code>, with per-step <code>when</code>, <code>retries</code> and <code>timeout_ms</code></li>
 </ul>
 <h3>Cron Syntax</h3>
 <pre><code>┌───────── minute (0-59)
@@ -1748,9 +2101,16 @@ Examples:
 <h3>Limits</h3>
 <ul>
 <li>Max 50 schedules</li>
-<li>Minimum interval: 1 minute (no second-level crons)</li>
+<li>Minimum interval: 1 minute (no second-level crons, intervals of at least 60s)</li>
 <li>Max timeout: 5 minutes per execution</li>
 <li>Retries: max 5, with exponential backoff</li>
+</ul>
+<h3>Timing</h3>
+<ul>
+<li><strong>timezone</strong> — IANA zone for cron expressions (default: this machine's)</li>
+<li><strong>jitter_ms</strong> — Random delay before timer-triggered runs, up to 1 hour</li>
+<li><strong>overlap</strong> — <code>skip</code> (default), <code>queue</code> or <code>cancel_previous</code> when a run is still going</li>
+<li><strong>catch_up</strong> — <code>none</code> (default), <code>last</code> or <code>all</code> for runs missed while the node was down</li>
 </ul>`,
 
     security: `<h2>Security</h2>
@@ -1885,10 +2245,30 @@ DEL  /api/credentials/:tool Remove</code></pre>`,
       $('#settings-platform').textContent = data.system?.os || '—';
     } catch {}
 
+    // Approval PIN status
+    try {
+      const approvals = await buhdiAPI.approvals();
+      $('#settings-pin-status').textContent = approvals.pinSet ? '✅ Set' : '⚠️ Not set — financial actions cannot be approved';
+    } catch {}
+
     // Load providers
     await loadProviders();
   }
 
+  document.getElementById('pin-save-btn')?.addEventListener('click', async () => {
+    const pin = document.getElementById('pin-new')?.value?.trim();
+    const currentPin = document.getElementById('pin-current')?.value?.trim() || undefined;
+    if (!pin) return alert('Enter a new PIN');
+    try {
+      await buhdiAPI.approvalSetPin(pin, currentPin);
+      document.getElementById('pin-new').value = '';
+      document.getElementById('pin-current').value = '';
+      loadSettings();
+    } catch (err) {
+      alert('PIN not saved (check the current PIN and use 4-12 digits): ' + err.message);
+    }
+  });
+
   async function loadProviders() {
     try {
       const result = await buhdiAPI.providersList();
@@ -2107,7 +2487,15 @@ DEL  /api/credentials/:tool Remove</code></pre>`,
   });
   ws.on('status.update', (data) => updateStatus(data));
   ws.on('chat.stream', (data) => updateStreamingMessage(data.token));
-  ws.on('chat.stream.end', (data) => finalizeStream(data.full_text));
+  ws.on('chat.stream.end', (data) => {
+    let content = data.full_text;
+    if (content && data.toolsUsed?.length) {
+      content += `\n\n*Tools used: ${data.toolsUsed.join(', ')}*`;
+    }
+    const modelInfo = (data.provider && data.model) ? `${data.provider}/${data.model}` : null;
+    // Server already saved the reply (with tool calls) when it knew the chat
+    finalizeStream(content, modelInfo, !data.persisted);
+  });
   ws.on('chat.message', (data) => {
     if (data.role !== 'user') {
       showTyping(false);
@@ -2121,6 +2509,8 @@ DEL  /api/credentials/:tool Remove</code></pre>`,
   });
 
   ws.on('chat.tool_executing', (data) => {
+    // Close off any text streamed before the tool call so the follow-up gets its own bubble
+    if (state.streaming != null) finalizeStream(null, null, false);
     showTyping(false);
     addChatMessage('system', `🔧 Executing tool: ${data.tool}...`);
   });
@@ -2130,6 +2520,78 @@ DEL  /api/credentials/:tool Remove</code></pre>`,
     addChatMessage('system', `${icon} ${data.tool}: ${data.output}`);
   });
 
+  // Tool approvals (DELETE / FINANCIAL tiers)
+  function showApprovalCard(approval) {
+    if (document.querySelector(`.approval-card[data-approval-id="${CSS.escape(approval.id)}"]`)) return;
+    showTyping(false);
+    const card = document.createElement('div');
+    card.className = 'msg msg-ai approval-card';
+    card.dataset.approvalId = approval.id;
+    card.innerHTML = `
+      <div class="msg-avatar">⏸️</div>
+      <div class="msg-body">
+        <div class="msg-name">Approval needed <span class="msg-time">${esc(approval.safety)} · ${esc(approval.source)}</span></div>
+        <div class="msg-content">
+          <strong>${esc(approval.tool)}.${esc(approval.action)}</strong>
+          <pre style="white-space:pre-wrap;margin:6px 0;">${esc(JSON.stringify(approval.params, null, 2))}</pre>
+          ${approval.requiresPin ? '<input type="password" class="approval-pin" placeholder="PIN" inputmode="numeric" style="width:8em;margin-right:6px;">' : ''}
+          <button data-approval="approve">✅ Approve</button>
+          <button data-approval="deny">🚫 Deny</button>
+          <small class="approval-status" style="color:var(--text-muted);display:block;margin-top:4px;">
+            Expires ${esc(new Date(approval.expiresAt).toLocaleTimeString())}
+          </small>
+        </div>
+      </div>
+    `;
+    chatMessages.appendChild(card);
+    chatMessages.scrollTop = chatMessages.scrollHeight;
+  }
+
+  chatMessages.addEventListener('click', (e) => {
+    const btn = e.target.closest('[data-approval]');
+    if (!btn) return;
+    const card = btn.closest('.approval-card');
+    const pin = card.querySelector('.approval-pin')?.value || undefined;
+    window.buhdiWS.send('approval.respond', {
+      id: card.dataset.approvalId,
+      approved: btn.dataset.approval === 'approve',
+      pin,
+    });
+  });
+
+  ws.on('oauth.complete', (data) => {
+    if (!state.pendingOAuth) return;
+    const statusEl = $('#cred-oauth-status');
+    if (data.ok && data.tool === state.pendingOAuth) {
+      state.pendingOAuth = null;
+      state.credentials[data.tool] = { storageMode: 'local_only', toolType: 'oauth', addedAt: new Date().toISOString() };
+      if (statusEl) statusEl.innerHTML = `<div class="cred-status success">✅ Signed in — ${esc(data.tool)} is connected</div>`;
+      setTimeout(() => { closeCredentialModal(); loadTools(); }, 1500);
+    } else if (!data.ok && statusEl) {
+      statusEl.innerHTML = `<div class="cred-status error">❌ ${esc(data.error || 'Sign-in failed')}</div>`;
+    }
+  });
+  ws.on('credential.alert', (data) => {
+    if (state.currentView === 'dashboard') loadCredentialAlerts();
+    if (state.currentView === 'tools') loadTools();
+  });
+  ws.on('approval.requested', (data) => showApprovalCard(data.approval));
+  ws.on('approval.pending', (data) => (data.approvals || []).forEach(showApprovalCard));
+  ws.on('approval.result', (data) => {
+    if (data.ok) return;
+    const card = document.querySelector(`.approval-card[data-approval-id="${CSS.escape(data.id)}"]`);
+    const status = card?.querySelector('.approval-status');
+    if (status) status.textContent = `❌ ${data.error}`;
+  });
+  ws.on('approval.resolved', (data) => {
+    const card = document.querySelector(`.approval-card[data-approval-id="${CSS.escape(data.id)}"]`);
+    if (!card) return;
+    card.querySelectorAll('button, input').forEach(el => el.remove());
+    const status = card.querySelector('.approval-status');
+    const labels = { approved: '✅ Approved', denied: '🚫 Denied', timeout: '⌛ Timed out' };
+    if (status) status.textContent = labels[data.reason] || data.reason;
+  });
+
   // Agent events
   ws.on('agent.step', (data) => {
     const step = data.step;
@@ -2148,10 +2610,11 @@ DEL  /api/credentials/:tool Remove</code></pre>`,
 
   ws.on('agent.complete', (data) => {
     showTyping(false);
-    const icon = data.status === 'completed' ? '✅' : data.status === 'cancelled' ? '🚫' : '❌';
-    let msg = data.result || `Agent ${data.status}`;
+    const icon = data.status === 'completed' ? '✅' : data.status === 'cancelled' ? '🚫' : RUN_ICONS[data.status] || '❌';
+    let msg = data.result || data.error || `Agent ${data.status}`;
     msg += `\n\n*${icon} ${data.steps} steps · ${Math.round(data.durationMs / 1000)}s`;
     if (data.toolsUsed?.length) msg += ` · Tools: ${data.toolsUsed.join(', ')}`;
+    if (data.usage?.costUsd) msg += ` · ${formatUsd(data.usage.costUsd)}`;
     msg += '*';
     addChatMessage('assistant', msg);
   });
@@ -2161,6 +2624,9 @@ DEL  /api/credentials/:tool Remove</code></pre>`,
     addChatMessage('system', `❌ Agent error: ${data.error}`);
   });
 
+  ws.on('agent.started', () => { if (state.currentView === 'jobs') loadAgentRuns(); });
+  ws.on('agent.completed', () => { if (state.currentView === 'jobs') loadAgentRuns(); });
+
   // ---- Init ----
   // ---- Wizard ----
   async function checkWizard() {
@@ -47,6 +47,7 @@ window.buhdiAPI = {
   fileRead(name) { return this.get(`/api/files/${encodeURIComponent(name)}`); },
   fileSave(name, content) { return this.put(`/api/files/${encodeURIComponent(name)}`, { content }); },
   chatSend(message) { return this.post('/api/chat/send', { message }); },
+  chatUpload(file) { return this.post('/api/chat/upload', file); },
 
   // LLM
   llmStatus()    { return this.get('/api/llm/status'); },
@@ -64,6 +65,18 @@ window.buhdiAPI = {
     return res.json();
   },
 
+  // OAuth sign-in — returns { url } to open; errors carry the server's reason
+  async oauthStart(tool, data) {
+    const res = await fetch(`/api/oauth/${encodeURIComponent(tool)}/start`, {
+      method: 'POST',
+      headers: this._headers(),
+      body: JSON.stringify(data || {}),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `${res.status} ${res.statusText}`);
+    return body;
+  },
+
   // Memory
   memoryStatus()    { return this.get('/api/memory/status'); },
   memoryEntities(q, limit = 50) {
@@ -75,8 +88,8 @@ window.buhdiAPI = {
   memoryEntity(id)  { return this.get(`/api/memory/entities/${id}`); },
   memoryCreateEntity(data) { return this.post('/api/memory/entities', data); },
   memoryCreateFact(data)   { return this.post('/api/memory/facts', data); },
-  memorySearch(q, limit = 10) {
-    return this.get(`/api/memory/search?q=${encodeURIComponent(q)}&limit=${limit}`);
+  memorySearch(q, limit = 10, mode = 'hybrid') {
+    return this.get(`/api/memory/search?q=${encodeURIComponent(q)}&limit=${limit}&mode=${mode}`);
   },
   memoryContext(q, limit = 5) {
     return this.get(`/api/memory/context?q=${encodeURIComponent(q)}&limit=${limit}`);
@@ -108,13 +121,34 @@ window.buhdiAPI = {
 
   // Custom tools
   customTools()        { return this.get('/api/custom-tools'); },
-  customToolSave(data) { return this.post('/api/custom-tools', data); },
+  async customToolSave(data) {
+    // Surface validation errors (bad URL, OpenAPI document, actions)
+    const res = await fetch('/api/custom-tools', {
+      method: 'POST',
+      headers: this._headers(),
+      body: JSON.stringify(data),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `${res.status} ${res.statusText}`);
+    return body;
+  },
   async customToolDelete(name) {
     const res = await fetch(`/api/custom-tools/${encodeURIComponent(name)}`, { method: 'DELETE', headers: this._headers() });
     if (!res.ok) throw new Error(`${res.status}`);
     return res.json();
   },
 
+  // Tool approvals
+  approvals()          { return this.get('/api/approvals'); },
+  approvalRespond(id, approved, pin) { return this.post(`/api/approvals/${encodeURIComponent(id)}`, { approved, pin }); },
+  approvalSetPin(pin, currentPin) { return this.post('/api/approvals/pin', { pin, currentPin }); },
+
+  // Agent runs
+  agentRuns(params = {}) { return this.get(`/api/agent/runs?${new URLSearchParams(params)}`); },
+  agentRun(id)           { return this.get(`/api/agent/runs/${encodeURIComponent(id)}`); },
+  agentResume(id)        { return this.post(`/api/agent/runs/${encodeURIComponent(id)}/resume`, {}); },
+  agentSpend()           { return this.get('/api/agent/spend'); },
+
   // Wizard
   wizardStatus()     { return this.get('/api/wizard/status'); },
   wizardAutoConfig() { return this.post('/api/wizard/auto-config', {}); },
@@ -125,6 +159,7 @@ window.buhdiAPI = {
   scheduleCreate(data) { return this.post('/api/schedules', data); },
   scheduleUpdate(id, data) { return this.put(`/api/schedules/${id}`, data); },
   scheduleRun(id)      { return this.post(`/api/schedules/${id}/run`, {}); },
+  scheduleRuns(id, limit = 10, offset = 0) { return this.get(`/api/schedules/${id}/runs?limit=${limit}&offset=${offset}`); },
   async scheduleDelete(id) {
     const res = await fetch(`/api/schedules/${id}`, { method: 'DELETE', headers: this._headers() });
     if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
@@ -0,0 +1,278 @@
+/**
+ * Document Chunks — split extracted text into prompt-sized parts, then fit
+ * them into the context window.
+ *
+ * A document that fits goes in whole. One that doesn't is never cut off at
+ * the end: the parts most relevant to the user's message are retrieved
+ * (BM25 over the chunks), or — when the message gives nothing to match on,
+ * like "summarise this" — every part is summarised by the LLM and the
+ * summaries go in instead.
+ */
+
+import { llmRouter } from '../llm';
+import { markdownTable } from './extract';
+import { DocumentAttachment, DocumentChunk, DocumentContext, ExtractedDocument } from './types';
+
+/** Target chunk size */
+const CHUNK_TOKENS = 600;
+
+/**
+ * Summarisation: aim for this many LLM calls per pass, each reading at least
+ * this much but never more than fits the summarising provider's context
+ * window. More groups than that are reduced in further passes.
+ */
+const MAX_SUMMARY_CALLS = 8;
+const MIN_SUMMARY_INPUT_TOKENS = 3000;
+const MAX_SUMMARY_PASSES = 4;
+/** Context left for the instructions and document label of each summary call */
+const SUMMARY_HEADROOM_TOKENS = 256;
+
+const SUMMARY_PROMPT = 'Summarise this part of a document for someone who will answer questions about it. '
+  + 'Keep names, numbers, dates and totals exact. Reply with the summary only.';
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'what', 'when', 'where', 'which', 'who', 'how', 'does', 'did',
+  'this', 'that', 'these', 'those', 'with', 'from', 'into', 'about', 'there', 'their', 'have', 'has',
+  'can', 'you', 'your', 'please', 'tell', 'show', 'give', 'file', 'document', 'attached', 'says',
+]);
+
+/** Rough token count (~4 chars per token), as the router estimates */
+export function tokensOf(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ---- Chunking ----
+
+export function chunkDocument(doc: ExtractedDocument): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const push = (label: string, text: string) => {
+    chunks.push({ index: chunks.length, label, text, tokens: tokensOf(text) });
+  };
+
+  if (doc.tables?.length) {
+    // Spreadsheets: runs of rows, each repeating the header so it reads on its own
+    for (const table of doc.tables) {
+      const headerTokens = tokensOf(markdownTable(table.header, []));
+      let start = 0;
+      while (start < table.rows.length || start === 0) {
+        let end = start;
+        let tokens = headerTokens;
+        while (end < table.rows.length && (end === start || tokens < CHUNK_TOKENS)) {
+          tokens += tokensOf(table.rows[end].join(' | ')) + 2;
+          end++;
+        }
+        const label = `${table.name} rows ${start + 1}-${end}`;
+        push(label, `### ${label}\n\n${markdownTable(table.header, table.rows.slice(start, end))}`);
+        if (end >= table.rows.length) break;
+        start = end;
+      }
+    }
+    return chunks;
+  }
+
+  // Text: whole paragraphs where possible, hard splits for giant ones
+  let current = '';
+  const flush = () => {
+    if (current.trim()) push(`Part ${chunks.length + 1}`, current.trim());
+    current = '';
+  };
+  for (const paragraph of splitParagraphs(doc.text)) {
+    if (current && tokensOf(current) + tokensOf(paragraph) > CHUNK_TOKENS) flush();
+    current += (current ? '\n\n' : '') + paragraph;
+  }
+  flush();
+  return chunks;
+}
+
+function splitParagraphs(text: string): string[] {
+  const maxChars = CHUNK_TOKENS * 4;
+  const out: string[] = [];
+  for (const p of text.split(/\n\s*\n/)) {
+    if (p.length <= maxChars) { if (p.trim()) out.push(p); continue; }
+    // Break long paragraphs at sentence ends, falling back to a hard cut
+    let rest = p;
+    while (rest.length > maxChars) {
+      const window = rest.slice(0, maxChars);
+      const cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'));
+      const at = cut > maxChars / 2 ? cut + 1 : maxChars;
+      out.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    if (rest.trim()) out.push(rest.trim());
+  }
+  return out;
+}
+
+// ---- Fitting ----
+
+/**
+ * Attachment text for a prompt, within budgetTokens. `summaries` caches LLM
+ * summaries per attachment so follow-up questions don't pay for them again.
+ */
+export async function fitDocumentContext(
+  attachment: DocumentAttachment,
+  query: string,
+  budgetTokens: number,
+  summaries: Map<number, string> = new Map(),
+): Promise<DocumentContext> {
+  const { chunks } = attachment;
+  const total = chunks.length;
+
+  if (attachment.tokens <= budgetTokens) {
+    return { text: chunks.map(c => c.text).join('\n\n'), mode: 'full', chunksUsed: total, chunksTotal: total };
+  }
+
+  const ranked = rankChunks(chunks, query);
+  if (ranked.length > 0) {
+    const picked: DocumentChunk[] = [];
+    let used = 0;
+    for (const chunk of ranked) {
+      if (used + chunk.tokens > budgetTokens) continue;
+      picked.push(chunk);
+      used += chunk.tokens;
+    }
+    if (picked.length > 0) {
+      picked.sort((a, b) => a.index - b.index);
+      return {
+        text: picked.map(c => `--- ${c.label} of ${total} ---\n${c.text}`).join('\n\n'),
+        mode: 'retrieved',
+        chunksUsed: picked.length,
+        chunksTotal: total,
+      };
+    }
+  }
+
+  return summariseChunks(attachment, budgetTokens, summaries);
+}
+
+/** Chunks that share terms with the query, best BM25 score first */
+function rankChunks(chunks: DocumentChunk[], query: string): DocumentChunk[] {
+  const terms = [...new Set(termsOf(query))];
+  if (terms.length === 0) return [];
+
+  const docs = chunks.map(c => termsOf(c.text));
+  const avgLen = docs.reduce((n, d) => n + d.length, 0) / Math.max(docs.length, 1);
+  const df = new Map<string, number>();
+  for (const t of terms) df.set(t, docs.filter(d => d.includes(t)).length);
+
+  const k1 = 1.2, b = 0.75;
+  return chunks
+    .map((chunk, i) => {
+      const d = docs[i];
+      let score = 0;
+      for (const t of terms) {
+        const tf = d.filter(x => x === t).length;
+        if (tf === 0) continue;
+        const idf = Math.log(1 + (docs.length - df.get(t)! + 0.5) / (df.get(t)! + 0.5));
+        score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * d.length / avgLen));
+      }
+      return { chunk, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.chunk);
+}
+
+function termsOf(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []).filter(t => t.length > 2 && !STOPWORDS.has(t));
+}
+
+/** A run of the document (a chunk, or the summary of several) with the labels it spans */
+interface SummaryItem {
+  first: string;
+  last: string;
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Summarise the document in groups of consecutive chunks, one LLM call per
+ * group. Groups are capped by the summarising provider's context window;
+ * when that makes more than MAX_SUMMARY_CALLS of them, their summaries are
+ * grouped and summarised again until few enough remain. The last pass sizes
+ * each summary so all of them together fit the budget. A group whose
+ * summary fails falls back to its opening lines.
+ */
+async function summariseChunks(
+  attachment: DocumentAttachment,
+  budgetTokens: number,
+  cache: Map<number, string>,
+): Promise<DocumentContext> {
+  const { chunks } = attachment;
+  const cached = cache.get(budgetTokens);
+  if (cached) return { text: cached, mode: 'summarised', chunksUsed: chunks.length, chunksTotal: chunks.length };
+
+  const window = llmRouter.contextWindow({ messages: [{ role: 'system', content: SUMMARY_PROMPT }] });
+  const replyCap = Math.max(64, Math.floor(window / 4));
+  const inputLimit = Math.max(CHUNK_TOKENS, window - replyCap - SUMMARY_HEADROOM_TOKENS);
+
+  let items: SummaryItem[] = chunks.map(c => ({ first: c.label, last: c.label, text: c.text, tokens: c.tokens }));
+  for (let pass = 1; ; pass++) {
+    const groups = groupItems(items, inputLimit);
+    const final = groups.length <= MAX_SUMMARY_CALLS || pass >= MAX_SUMMARY_PASSES || groups.length >= items.length;
+    const replyTokens = final
+      ? Math.min(replyCap, Math.max(64, Math.floor(budgetTokens / groups.length) - 16))
+      : Math.min(replyCap, Math.max(64, Math.floor(inputLimit / MAX_SUMMARY_CALLS)));
+
+    const next: SummaryItem[] = [];
+    for (const g of groups) {
+      const first = g[0].first;
+      const last = g[g.length - 1].last;
+      const source = g.map(i => i.text).join('\n\n').slice(0, inputLimit * 4);
+      const summary = await summarise(attachment.name, spanLabel(first, last), source, replyTokens)
+        ?? source.slice(0, replyTokens * 4) + ' …';
+      next.push({ first, last, text: summary, tokens: tokensOf(summary) });
+    }
+    items = next;
+    if (final) break;
+  }
+
+  const text = items
+    .map(i => `--- Summary of ${spanLabel(i.first, i.last)} ---\n${i.text}`)
+    .join('\n\n')
+    .slice(0, budgetTokens * 4);
+  cache.set(budgetTokens, text);
+  return { text, mode: 'summarised', chunksUsed: chunks.length, chunksTotal: chunks.length };
+}
+
+/** Consecutive items in groups of about total/MAX_SUMMARY_CALLS tokens, none over inputLimit */
+function groupItems(items: SummaryItem[], inputLimit: number): SummaryItem[][] {
+  const total = items.reduce((n, i) => n + i.tokens, 0);
+  const groupTokens = Math.min(inputLimit, Math.max(MIN_SUMMARY_INPUT_TOKENS, Math.ceil(total / MAX_SUMMARY_CALLS)));
+  const groups: SummaryItem[][] = [];
+  let group: SummaryItem[] = [];
+  let groupSize = 0;
+  for (const item of items) {
+    if (group.length && groupSize + item.tokens > groupTokens) {
+      groups.push(group);
+      group = [];
+      groupSize = 0;
+    }
+    group.push(item);
+    groupSize += item.tokens;
+  }
+  if (group.length) groups.push(group);
+  return groups;
+}
+
+/** One summary call; null when the provider errors or returns nothing */
+async function summarise(name: string, label: string, source: string, maxTokens: number): Promise<string | null> {
+  try {
+    const response = await llmRouter.complete({
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: `Document: ${name} (${label})\n\n${source}` },
+      ],
+      temperature: 0.2,
+      maxTokens,
+    });
+    return response.finishReason !== 'error' && response.content?.trim() ? response.content.trim() : null;
+  } catch (err: any) {
+    console.warn(`[documents] Summary of ${name} (${label}) failed: ${err.message}`);
+    return null;
+  }
+}
+
+function spanLabel(first: string, last: string): string {
+  return first === last ? first : `${first} – ${last}`;
+}
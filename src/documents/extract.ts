@@ -0,0 +1,166 @@
+/**
+ * Document Extractors — local text extraction for chat attachments.
+ *
+ * PDFs (pdf-parse), Word .docx (mammoth), spreadsheets .xlsx (exceljs) and
+ * .csv (csv-parse), and plain text. Nothing leaves the machine; only the extracted text is
+ * later put in front of an LLM.
+ */
+
+import * as path from 'path';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import ExcelJS from 'exceljs';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { DocumentKind, DocumentTable, ExtractedDocument } from './types';
+
+/** Rows read per sheet — enough to reason over, small enough to chunk quickly */
+const MAX_SHEET_ROWS = 2000;
+const MAX_SHEETS = 20;
+const MAX_CELL_CHARS = 200;
+
+const KIND_BY_EXT: Record<string, DocumentKind> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.xlsx': 'spreadsheet',
+  '.csv': 'spreadsheet',
+  '.txt': 'text',
+  '.md': 'text',
+};
+
+/** Old binary Office formats, with what to do instead */
+const LEGACY_FORMATS: Record<string, string> = {
+  '.doc': 'Legacy .doc files are not supported — save the file as .docx and attach it again',
+  '.xls': 'Legacy .xls files are not supported — save the file as .xlsx or .csv and attach it again',
+};
+
+/** Why a file name is a legacy Office format we can't read, or null if it isn't one */
+export function legacyFormatError(name: string): string | null {
+  return LEGACY_FORMATS[path.extname(name).toLowerCase()] ?? null;
+}
+
+/** Which extractor handles a file name, or null if none does */
+export function documentKindOf(name: string): DocumentKind | null {
+  return KIND_BY_EXT[path.extname(name).toLowerCase()] ?? null;
+}
+
+/** Extract text (and tables, for spreadsheets) from an uploaded file */
+export async function extractDocument(name: string, mimeType: string, data: Buffer): Promise<ExtractedDocument> {
+  const ext = path.extname(name).toLowerCase();
+  const legacy = legacyFormatError(name);
+  if (legacy) throw new Error(legacy);
+
+  const kind = documentKindOf(name);
+  if (!kind) throw new Error(`Unsupported file type: ${ext || mimeType || 'unknown'}`);
+
+  switch (kind) {
+    case 'pdf': {
+      const result = await pdfParse(data);
+      const text = normalizeWhitespace(result.text);
+      if (!text) throw new Error(`No text found in ${name} — scanned PDFs need OCR, try attaching page images instead`);
+      return { name, kind, mimeType, text, pages: result.numpages };
+    }
+
+    case 'docx': {
+      const result = await mammoth.extractRawText({ buffer: data });
+      return { name, kind, mimeType, text: normalizeWhitespace(result.value) };
+    }
+
+    case 'spreadsheet': {
+      const tables = ext === '.csv' ? [readCsvTable(data)] : await readWorkbookTables(data);
+      return { name, kind, mimeType, text: tables.map(tableToMarkdown).join('\n\n'), tables };
+    }
+
+    case 'text':
+      return { name, kind, mimeType, text: data.toString('utf-8') };
+  }
+}
+
+// ---- Spreadsheets ----
+
+async function readWorkbookTables(data: Buffer): Promise<DocumentTable[]> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs types its Buffer as an ArrayBuffer; the runtime takes a Node Buffer
+  await workbook.xlsx.load(data as any);
+
+  const tables: DocumentTable[] = [];
+  for (const sheet of workbook.worksheets.slice(0, MAX_SHEETS)) {
+    const rows: string[][] = [];
+    for (let r = 1; r <= sheet.rowCount && rows.length < MAX_SHEET_ROWS; r++) {
+      const row = sheet.findRow(r);
+      if (!row?.hasValues) continue;
+      const cells: string[] = [];
+      for (let c = 1; c <= row.cellCount; c++) cells.push(cellText(row.getCell(c)).slice(0, MAX_CELL_CHARS));
+      rows.push(cells);
+    }
+    const table = toTable(sheet.name, rows, sheet.actualRowCount);
+    if (table) tables.push(table);
+  }
+  if (tables.length === 0) throw new Error('Spreadsheet is empty');
+  return tables;
+}
+
+function readCsvTable(data: Buffer): DocumentTable {
+  // One record past the limit tells us whether the file was cut short
+  const records = parseCsv(data.toString('utf-8'), {
+    bom: true,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: true,
+    to: MAX_SHEET_ROWS + 1,
+  }) as string[][];
+  const rows = records.slice(0, MAX_SHEET_ROWS).map(row => row.map(v => v.slice(0, MAX_CELL_CHARS)));
+  const table = toTable('CSV', rows, records.length);
+  if (!table) throw new Error('Spreadsheet is empty');
+  return table;
+}
+
+/** First row is the header; rows are padded to the widest one */
+function toTable(name: string, rows: string[][], totalRows: number): DocumentTable | null {
+  if (rows.length === 0) return null;
+  const width = Math.max(...rows.map(r => r.length));
+  const pad = (r: string[]) => r.concat(Array(width - r.length).fill(''));
+  return {
+    name,
+    header: pad(rows[0]),
+    rows: rows.slice(1).map(pad),
+    truncated: totalRows > MAX_SHEET_ROWS,
+  };
+}
+
+/** Display text of a cell; dates as ISO (date only at midnight) rather than Date#toString */
+function cellText(c: ExcelJS.Cell): string {
+  const value = c.type === ExcelJS.ValueType.Formula ? c.result : c.value;
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return c.text ?? '';
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+}
+
+/** Markdown table for a header and a run of rows */
+export function markdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.map(cell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(r => `| ${r.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function tableToMarkdown(table: DocumentTable): string {
+  const note = table.truncated ? `\n\n_(first ${table.rows.length} rows only)_` : '';
+  return `### ${table.name}\n\n${markdownTable(table.header, table.rows)}${note}`;
+}
+
+// ---- Text ----
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,128 @@
+/**
+ * Document Ingestion — Entry Point
+ *
+ * Upload → extract locally → chunk → keep for the chat. Each chat turn that
+ * references an attachment gets as much of it as the context window allows
+ * (see chunks.ts). Attachments can also be filed into the memory DB so they
+ * outlive the session.
+ */
+
+import * as crypto from 'crypto';
+import { llmRouter } from '../llm';
+import { extractDocument } from './extract';
+import { chunkDocument, fitDocumentContext, tokensOf } from './chunks';
+import { DocumentAttachment, DocumentContext } from './types';
+
+/** Attachments are kept this long after their last use */
+const ATTACHMENT_TTL_MS = 60 * 60_000;
+const MAX_ATTACHMENTS = 20;
+
+/** Share of the context window an attachment may take (the rest is persona, history and reply) */
+const CONTEXT_SHARE = 0.5;
+
+/** Memory filing: one fact per chunk, up to this many */
+const MAX_MEMORY_PARTS = 200;
+
+interface StoredAttachment {
+  attachment: DocumentAttachment;
+  summaries: Map<number, string>;
+  lastUsed: number;
+}
+
+const attachments = new Map<string, StoredAttachment>();
+
+function pruneAttachments(): void {
+  const now = Date.now();
+  for (const [id, entry] of attachments) {
+    if (now - entry.lastUsed > ATTACHMENT_TTL_MS) attachments.delete(id);
+  }
+  // Oldest first — Map keeps insertion order and touched entries are re-inserted
+  while (attachments.size > MAX_ATTACHMENTS) attachments.delete(attachments.keys().next().value!);
+}
+
+/**
+ * Extract and chunk an uploaded file. With `remember`, the extracted text is
+ * also filed into memory as a 'document' entity.
+ */
+export async function ingestAttachment(
+  name: string,
+  mimeType: string,
+  data: Buffer,
+  options: { remember?: boolean } = {},
+): Promise<DocumentAttachment> {
+  const doc = await extractDocument(name, mimeType, data);
+  const chunks = chunkDocument(doc);
+  const attachment: DocumentAttachment = {
+    id: crypto.randomBytes(8).toString('hex'),
+    name: doc.name,
+    kind: doc.kind,
+    mimeType: doc.mimeType,
+    pages: doc.pages,
+    sheets: doc.tables?.map(t => t.name),
+    chunks,
+    tokens: chunks.reduce((n, c) => n + c.tokens, 0),
+    uploadedAt: new Date().toISOString(),
+  };
+  if (options.remember) attachment.memoryEntityId = fileToMemory(attachment);
+
+  attachments.set(attachment.id, { attachment, summaries: new Map(), lastUsed: Date.now() });
+  pruneAttachments();
+  return attachment;
+}
+
+export function getAttachment(id: string): DocumentAttachment | null {
+  const entry = attachments.get(id);
+  if (!entry || Date.now() - entry.lastUsed > ATTACHMENT_TTL_MS) return null;
+  return entry.attachment;
+}
+
+/**
+ * The attachment as prompt context for a message: whole if it fits in its
+ * share of the context window, otherwise retrieved or summarised parts.
+ */
+export async function buildDocumentContext(id: string, message: string): Promise<DocumentContext | null> {
+  const entry = attachments.get(id);
+  if (!entry || Date.now() - entry.lastUsed > ATTACHMENT_TTL_MS) return null;
+  attachments.delete(id);
+  attachments.set(id, { ...entry, lastUsed: Date.now() });
+
+  const window = llmRouter.contextWindow({ messages: [{ role: 'user', content: message }] });
+  const budget = Math.max(512, Math.floor(window * CONTEXT_SHARE) - tokensOf(message));
+  return fitDocumentContext(entry.attachment, message, budget, entry.summaries);
+}
+
+/** Prompt block for an attachment, labelled with how much of it the model sees */
+export function formatDocumentContext(attachment: DocumentAttachment, context: DocumentContext): string {
+  const detail = context.mode === 'full'
+    ? ''
+    : context.mode === 'retrieved'
+      ? ` — ${context.chunksUsed} of ${context.chunksTotal} parts most relevant to the question`
+      : ` — summarised, the full text is ${attachment.tokens} tokens`;
+  return `[Attached file: ${attachment.name}${detail}]\n\`\`\`\n${context.text}\n\`\`\``;
+}
+
+/** File an attachment into memory: a 'document' entity with one fact per chunk */
+function fileToMemory(attachment: DocumentAttachment): string {
+  const { createEntity, embedEntity, isMemoryInitialized } = require('../memory');
+  if (!isMemoryInitialized()) throw new Error('Memory not initialized — cannot remember this file');
+
+  const details = [
+    attachment.kind,
+    attachment.pages ? `${attachment.pages} pages` : '',
+    attachment.sheets?.length ? `sheets: ${attachment.sheets.join(', ')}` : '',
+  ].filter(Boolean).join(', ');
+  const parts = attachment.chunks.slice(0, MAX_MEMORY_PARTS);
+
+  const entity = createEntity('local', {
+    name: attachment.name,
+    type: 'document',
+    description: `Uploaded ${attachment.uploadedAt.slice(0, 10)} (${details}). ${parts[0]?.text.slice(0, 400) ?? ''}`,
+    facts: parts.map(c => ({ key: c.label, value: c.text, source: `upload:${attachment.name}` })),
+  });
+  embedEntity(entity.id).catch(() => {});
+  return entity.id;
+}
+
+export { extractDocument, documentKindOf, legacyFormatError } from './extract';
+export { chunkDocument, fitDocumentContext } from './chunks';
+export * from './types';
@@ -0,0 +1,59 @@
+/**
+ * Document Ingestion — Type Definitions
+ */
+
+export type DocumentKind = 'pdf' | 'docx' | 'spreadsheet' | 'text';
+
+/** One sheet (or a CSV file) as header + rows of cell text */
+export interface DocumentTable {
+  name: string;
+  header: string[];
+  rows: string[][];
+  truncated: boolean;            // More rows in the source than were read
+}
+
+/** Text pulled out of an attachment, before chunking */
+export interface ExtractedDocument {
+  name: string;
+  kind: DocumentKind;
+  mimeType: string;
+  text: string;                  // Plain text (spreadsheets: every table as markdown)
+  pages?: number;                // PDFs
+  tables?: DocumentTable[];      // Spreadsheets
+}
+
+export interface DocumentChunk {
+  index: number;
+  label: string;                 // "Part 3", "Sheet1 rows 51-100"
+  text: string;
+  tokens: number;
+}
+
+/** An extracted, chunked attachment kept for the chat that uploaded it */
+export interface DocumentAttachment {
+  id: string;
+  name: string;
+  kind: DocumentKind;
+  mimeType: string;
+  pages?: number;
+  sheets?: string[];
+  chunks: DocumentChunk[];
+  tokens: number;
+  uploadedAt: string;
+  memoryEntityId?: string;       // Set once filed into the memory DB
+}
+
+/**
+ * How an attachment was fitted into the prompt:
+ * - full: every chunk fits
+ * - retrieved: the chunks most relevant to the message
+ * - summarised: chunk summaries written by the LLM
+ */
+export type DocumentContextMode = 'full' | 'retrieved' | 'summarised';
+
+export interface DocumentContext {
+  text: string;
+  mode: DocumentContextMode;
+  chunksUsed: number;
+  chunksTotal: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * Node Events — in-process bus for things that happen on this node.
+ *
+ * Producers (memory, tool registry, LLM router, agent loop) emit; the
+ * scheduler's event triggers listen. Listeners run after the emitting call
+ * returns, so a slow or failing listener never holds up the producer.
+ */
+
+import { EventEmitter } from 'events';
+
+export const NODE_EVENTS = [
+  'memory.entity.created',
+  'memory.fact.created',
+  'tool.executed',
+  'llm.provider.down',
+  'llm.provider.up',
+  'agent.run.finished',
+] as const;
+
+export type NodeEventName = typeof NODE_EVENTS[number];
+
+export interface NodeEvent {
+  name: NodeEventName;
+  at: string;
+  data: Record<string, any>;
+}
+
+const bus = new EventEmitter();
+bus.setMaxListeners(100);
+
+export function isNodeEventName(name: unknown): name is NodeEventName {
+  return typeof name === 'string' && (NODE_EVENTS as readonly string[]).includes(name);
+}
+
+export function emitNodeEvent(name: NodeEventName, data: Record<string, any> = {}): void {
+  const event: NodeEvent = { name, at: new Date().toISOString(), data };
+  setImmediate(() => bus.emit('event', event));
+}
+
+/** Subscribe to every node event; returns an unsubscribe function */
+export function onNodeEvent(listener: (event: NodeEvent) => void): () => void {
+  const safe = (event: NodeEvent) => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error(`[events] Listener for ${event.name} failed:`, (err as Error).message);
+    }
+  };
+  bus.on('event', safe);
+  return () => { bus.off('event', safe); };
+}
@@ -131,7 +131,7 @@ export function startHealthServer(port: number): http.Server | null {
       res.setHeader('Access-Control-Allow-Origin', origin);
     }
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Buhdi-Secret, Mcp-Session-Id');
     if (req.method === 'OPTIONS') { res.writeHead(204); res.end(); return; }
 
     // ---- Public endpoints (no auth) ----
@@ -140,6 +140,46 @@ export function startHealthServer(port: number): http.Server | null {
       return jsonResponse(res, { status: healthy ? 'healthy' : 'unhealthy' }, healthy ? 200 : 503);
     }
 
+    // Inbound webhook triggers — authenticated by the schedule's own secret, not the dashboard token
+    if (pathname.startsWith('/api/hooks/') && req.method === 'POST') {
+      const id = decodeURIComponent(pathname.slice('/api/hooks/'.length));
+      const secret = req.headers['x-buhdi-secret'];
+      return readBody(req, (body) => {
+        try {
+          const { fireWebhook } = require('./scheduler');
+          let payload: unknown = body;
+          try { payload = body ? JSON.parse(body) : null; } catch { /* non-JSON bodies are passed as text */ }
+          const result = fireWebhook(id, typeof secret === 'string' ? secret : undefined, payload);
+          // Unknown id and wrong secret look the same, so hook ids can't be probed
+          if (!result) return jsonResponse(res, { error: 'Not found' }, 404);
+          if (!result.accepted) return jsonResponse(res, { accepted: false, reason: 'disabled or already running' }, 409);
+          jsonResponse(res, { accepted: true }, 202);
+        } catch (err: any) {
+          jsonResponse(res, { error: err.message }, 500);
+        }
+      });
+    }
+
+    // OAuth redirect from the provider's consent page — authenticated by the flow's one-time state
+    if (pathname === '/api/oauth/callback' && req.method === 'GET') {
+      (async () => {
+        const { completeOAuthFlow } = require('./tool-plugins');
+        try {
+          const tool = await completeOAuthFlow(url.searchParams);
+          addActivity('🔑', `Signed in: ${tool}`);
+          broadcastToDashboard({ type: 'oauth.complete', tool, ok: true });
+          oauthPage(res, 200, `${tool} is connected`, 'You can close this window and return to the dashboard.');
+          // Load the new token into the plugin and record its health
+          const { checkCredential } = require('./tool-plugins/credential-health');
+          checkCredential(tool).catch(() => {});
+        } catch (err: any) {
+          broadcastToDashboard({ type: 'oauth.complete', ok: false, error: err.message });
+          oauthPage(res, 400, 'Sign-in failed', err.message);
+        }
+      })();
+      return;
+    }
+
     // ---- Static files (no auth — served from same origin) ----
     if (pathname === '/' || pathname === '/index.html') {
       return serveFile(res, path.join(DASHBOARD_DIR, 'index.html'));
@@ -173,33 +213,28 @@ export function startHealthServer(port: number): http.Server | null {
     }
 
     if (pathname === '/api/custom-tools' && req.method === 'POST') {
-      return readBody(req, (rawBody) => {
+      return readBody(req, async (rawBody) => {
         try {
           const body = JSON.parse(rawBody);
           const { loadConfig, saveConfig } = require('./config');
+          const { normalizeCustomTool, loadCustomTools } = require('./tool-plugins/http-tool');
+          const { importOpenApi } = require('./tool-plugins/openapi');
           const config = loadConfig();
           if (!(config as any).customTools) (config as any).customTools = [];
-          // Validate API URL if provided
-          const rawUrl = String(body.apiBaseUrl || '').trim();
-          if (rawUrl && !/^https?:\/\//i.test(rawUrl)) {
-            return jsonResponse(res, { error: 'API URL must start with http:// or https://' }, 400);
-          }
-          // Block private/internal IPs (SSRF prevention)
-          if (rawUrl && /^https?:\/\/(localhost|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/i.test(rawUrl)) {
-            return jsonResponse(res, { error: 'API URL cannot point to private/internal addresses' }, 400);
+          // An OpenAPI 3 document supplies actions, base URL and auth; explicit fields win
+          let imported: any = null;
+          if (body.openapi) {
+            imported = importOpenApi(body.openapi, { operations: body.operations });
+            body.name = body.name || imported.title;
+            body.desc = body.desc || String(imported.description || '').split('\n')[0];
+            body.apiBaseUrl = body.apiBaseUrl || imported.apiBaseUrl;
+            body.authType = body.authType || imported.authType;
+            body.authHeader = body.authHeader || imported.authHeader;
+            body.authQuery = body.authQuery || imported.authQuery;
+            body.actions = imported.actions;
           }
-          const tool = {
-            name: String(body.name || '').toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, 50),
-            displayName: String(body.displayName || body.name || '').slice(0, 100),
-            desc: String(body.desc || '').slice(0, 200),
-            category: String(body.category || 'Custom'),
-            apiBaseUrl: rawUrl,
-            authType: ['api_key', 'bearer', 'oauth', 'none'].includes(body.authType) ? body.authType : 'api_key',
-            credLabel: String(body.credLabel || 'API Key'),
-            custom: true,
-            createdAt: new Date().toISOString(),
-          };
-          if (!tool.name) return jsonResponse(res, { error: 'Name is required' }, 400);
+          // Validates the URL (no private/internal addresses) and the actions
+          const tool = normalizeCustomTool(body);
           // Block names that collide with built-in tools (checked client-side too)
           const BUILTIN_NAMES = ['gmail','outlook','zoom','ringcentral','hubspot','salesforce','pipedrive','stripe_payments','quickbooks','zendesk','asana','trello','google_calendar','calendly','canva','mailchimp','google_ads','meta_ads','instagram','facebook','linkedin','twitter_x','tiktok','sendgrid_email','freshdesk','intercom','square','shipstation','zoho_crm'];
           if (BUILTIN_NAMES.includes(tool.name)) {
@@ -208,18 +243,20 @@ export function startHealthServer(port: number): http.Server | null {
           // Check for duplicate custom names
           const existing = (config as any).customTools.findIndex((t: any) => t.name === tool.name);
           if (existing >= 0) {
-            (config as any).customTools[existing] = { ...(config as any).customTools[existing], ...tool };
+            (config as any).customTools[existing] = { ...(config as any).customTools[existing], ...tool, createdAt: (config as any).customTools[existing].createdAt };
           } else {
             (config as any).customTools.push(tool);
           }
           saveConfig(config);
+          // Make the tool's actions callable right away
+          await loadCustomTools();
           // Trigger tool sync to cloud
           if (_state.nodeId && config.apiKey) triggerToolSync(config.apiKey, _state.nodeId);
-          return jsonResponse(res, { tool });
+          return jsonResponse(res, { tool, ...(imported?.skipped.length ? { skipped: imported.skipped } : {}) });
         } catch (e: any) {
           return jsonResponse(res, { error: e.message }, 400);
         }
-      });
+      }, MAX_SPEC_SIZE);
     }
 
     if (pathname.startsWith('/api/custom-tools/') && req.method === 'DELETE') {
@@ -229,6 +266,7 @@ export function startHealthServer(port: number): http.Server | null {
       if (!(config as any).customTools) return jsonResponse(res, { error: 'Not found' }, 404);
       (config as any).customTools = (config as any).customTools.filter((t: any) => t.name !== toolName);
       saveConfig(config);
+      require('./tool-plugins/http-tool').loadCustomTools().catch(() => {});
       // Trigger tool sync to cloud
       if (_state.nodeId && config.apiKey) triggerToolSync(config.apiKey, _state.nodeId);
       return jsonResponse(res, { ok: true });
@@ -275,6 +313,32 @@ export function startHealthServer(port: number): http.Server | null {
       });
     }
 
+    if (pathname === '/api/chat/upload' && req.method === 'POST') {
+      return readBody(req, async (body) => {
+        try {
+          const { name, type, data, remember } = JSON.parse(body);
+          if (typeof name !== 'string' || typeof data !== 'string' || !name || !data) {
+            return jsonResponse(res, { error: 'Missing name or data (base64)' }, 400);
+          }
+          const { ingestAttachment, documentKindOf, legacyFormatError } = require('./documents');
+          const legacy = legacyFormatError(name);
+          if (legacy) return jsonResponse(res, { error: legacy }, 400);
+          if (!documentKindOf(name)) {
+            return jsonResponse(res, { error: 'Unsupported file type (PDF, DOCX, XLSX, CSV, TXT, MD)' }, 400);
+          }
+          const buffer = Buffer.from(data, 'base64');
+          if (buffer.length > MAX_UPLOAD_SIZE) return jsonResponse(res, { error: 'File too large (max 10MB)' }, 413);
+
+          const attachment = await ingestAttachment(name, typeof type === 'string' ? type : '', buffer, { remember: remember === true });
+          addActivity('📄', `Attachment: ${attachment.name} (${attachment.chunks.length} parts${attachment.memoryEntityId ? ', saved to memory' : ''})`);
+          const { chunks, ...summary } = attachment;
+          return jsonResponse(res, { data: { ...summary, parts: chunks.length } }, 201);
+        } catch (err: any) {
+          return jsonResponse(res, { error: err.message }, 422);
+        }
+      }, MAX_UPLOAD_BODY_SIZE);
+    }
+
     // ---- LLM API ----
     if (pathname === '/api/llm/status' && req.method === 'GET') {
       try {
@@ -292,13 +356,15 @@ export function startHealthServer(port: number): http.Server | null {
     if (pathname === '/api/llm/chat' && req.method === 'POST') {
       return readBody(req, async (body) => {
         try {
-          const { message, history } = JSON.parse(body);
-          const { llmRouter } = require('./llm');
+          const { message, history, stream, chatId, file, attachmentId } = JSON.parse(body);
           const { toolRegistry } = require('./tool-plugins');
-          const { sanitizeHistory, sanitizeToolOutput, validateToolCall, MAX_TOOL_CALLS_PER_TURN } = require('./llm/safety');
+          const { sanitizeHistory } = require('./llm/safety');
           const { buildPersonaPrompt } = require('./persona');
           const { getRelevantContext } = require('./memory');
 
+          // SSE when asked for explicitly or via Accept header; JSON otherwise
+          const streaming = stream === true || (req.headers.accept || '').includes('text/event-stream');
+
           // H6-FIX: Sanitize client history (only user/assistant, strip secrets)
           const safeHistory = sanitizeHistory(history);
 
@@ -312,68 +378,32 @@ export function startHealthServer(port: number): http.Server | null {
           const messages: any[] = [
             { role: 'system', content: systemPrompt + (memoryContext ? '\n\n' + memoryContext : '') },
             ...safeHistory,
-            { role: 'user', content: message },
+            { role: 'user', content: await buildUserContent(message, file, attachmentId) },
           ];
 
-          const result = await llmRouter.complete({
-            messages,
-            tools: tools.length > 0 ? tools : undefined,
-          });
-
-          // H3-FIX: Cap tool calls per turn
-          if (result.toolCalls.length > 0) {
-            const cappedCalls = result.toolCalls.slice(0, MAX_TOOL_CALLS_PER_TURN);
-            const toolResults: any[] = [];
-
-            for (const tc of cappedCalls) {
-              // H2-FIX: Validate tool name against provided schemas
-              if (!validateToolCall(tc.function.name, tools)) {
-                toolResults.push({
-                  tool_call_id: tc.id,
-                  role: 'tool',
-                  content: `Error: tool "${tc.function.name}" is not available.`,
-                });
-                continue;
-              }
-
-              let params: Record<string, any> = {};
-              try { params = JSON.parse(tc.function.arguments); } catch {}
-              const toolResult = await toolRegistry.executeByFullName(tc.function.name, params);
-
-              // H1-FIX: Sanitize tool output before LLM re-injection
-              toolResults.push({
-                tool_call_id: tc.id,
-                role: 'tool',
-                content: sanitizeToolOutput(toolResult.output),
-              });
-            }
-
-            const followUp = await llmRouter.complete({
-              messages: [
-                ...messages,
-                { role: 'assistant', content: result.content, tool_calls: cappedCalls },
-                ...toolResults,
-              ],
-            });
-
-            jsonResponse(res, {
-              content: followUp.content,
-              provider: followUp.provider,
-              model: followUp.model,
-              latencyMs: result.latencyMs + followUp.latencyMs,
-              toolsUsed: cappedCalls.map((tc: any) => tc.function.name),
-            });
-          } else {
-            jsonResponse(res, {
-              content: result.content,
-              provider: result.provider,
-              model: result.model,
-              latencyMs: result.latencyMs,
-              toolsUsed: [],
-            });
+          if (!streaming) {
+            const result = await runChatTurn(messages, tools, { onToken: () => {} });
+            const persisted = persistChatReply(chatId, result);
+            return jsonResponse(res, { ...result, persisted });
           }
+
+          res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+          });
+          const result = await runChatTurn(messages, tools, {
+            onToken: (token) => sseEvent(res, 'token', { token }),
+            onToolStart: (call) => sseEvent(res, 'tool.start', call),
+            onToolFinish: (call) => sseEvent(res, 'tool.finish', call),
+          });
+          const persisted = persistChatReply(chatId, result);
+          sseEvent(res, 'done', { ...result, persisted });
+          res.end();
         } catch (err: any) {
-          jsonResponse(res, { error: err.message, content: null }, 500);
+          if (!res.headersSent) return jsonResponse(res, { error: err.message, content: null }, 500);
+          sseEvent(res, 'error', { error: err.message });
+          res.end();
         }
       });
     }
@@ -395,6 +425,7 @@ export function startHealthServer(port: number): http.Server | null {
     if (pathname === '/api/providers' && req.method === 'GET') {
       try {
         const { loadConfig } = require('./config');
+        const { secretStore } = require('./secret-store');
         const config = loadConfig();
         const providers = ((config as any).llm?.providers || []).map((p: any) => ({
           name: p.name,
@@ -406,7 +437,7 @@ export function startHealthServer(port: number): http.Server | null {
           enabled: p.enabled !== false,
           authType: p.authType || 'bearer',
           customHeader: p.customHeader,
-          hasToken: !!(p.apiKey),
+          hasToken: secretStore.has('llm', p.name),
         }));
         const strategy = (config as any).llm?.strategy || 'local_first';
         return jsonResponse(res, { data: providers, strategy });
@@ -445,16 +476,13 @@ export function startHealthServer(port: number): http.Server | null {
             customHeader: input.customHeader,
           };
 
-          // Store API key if provided
+          // API keys live in the secret store, never in config — an update without a token keeps the stored one
+          const { secretStore } = require('./secret-store');
           if (input.token) {
-            provider.apiKey = input.token;
+            secretStore.set('llm', input.name, input.token);
           }
 
           if (existing >= 0) {
-            // Update existing — preserve apiKey if not provided
-            if (!input.token && (config as any).llm.providers[existing].apiKey) {
-              provider.apiKey = (config as any).llm.providers[existing].apiKey;
-            }
             (config as any).llm.providers[existing] = provider;
           } else {
             (config as any).llm.providers.push(provider);
@@ -466,7 +494,7 @@ export function startHealthServer(port: number): http.Server | null {
           // Reinitialize LLM router with new config
           import('./llm').then(({ initLLMRouter }) => initLLMRouter()).catch(() => {});
 
-          jsonResponse(res, { ok: true, provider: { ...provider, apiKey: undefined, hasToken: !!provider.apiKey } }, existing >= 0 ? 200 : 201);
+          jsonResponse(res, { ok: true, provider: { ...provider, hasToken: secretStore.has('llm', input.name) } }, existing >= 0 ? 200 : 201);
         } catch (err: any) {
           jsonResponse(res, { error: err.message }, 500);
         }
@@ -483,6 +511,8 @@ export function startHealthServer(port: number): http.Server | null {
         if (idx === -1) return jsonResponse(res, { error: 'Not found' }, 404);
         providers.splice(idx, 1);
         saveConfig(config);
+        const { secretStore } = require('./secret-store');
+        secretStore.delete('llm', name);
         addActivity('🗑️', `Provider removed: ${name}`);
         import('./llm').then(({ initLLMRouter }) => initLLMRouter()).catch(() => {});
         return jsonResponse(res, { ok: true });
@@ -979,8 +1009,13 @@ export function startHealthServer(port: number): http.Server | null {
           if (!query) return jsonResponse(res, { error: 'Missing q parameter' }, 400);
           const limit = Math.min(parseInt(params.get('limit') || '10'), 50);
           const minScore = parseFloat(params.get('min_score') || '0.3');
-          const results = await semanticSearch(query, { limit, minScore });
-          jsonResponse(res, { data: results, query });
+          const exact = params.get('exact') === '1' || params.get('exact') === 'true';
+          const mode = params.get('mode') || 'hybrid';
+          if (!['lexical', 'vector', 'hybrid'].includes(mode)) {
+            return jsonResponse(res, { error: 'mode must be lexical, vector or hybrid' }, 400);
+          }
+          const results = await semanticSearch(query, { limit, minScore, exact, mode });
+          jsonResponse(res, { data: results, query, mode });
         } catch (err: any) {
           jsonResponse(res, { error: err.message }, 500);
         }
@@ -997,7 +1032,11 @@ export function startHealthServer(port: number): http.Server | null {
           const query = params.get('q') || params.get('query') || '';
           if (!query) return jsonResponse(res, { error: 'Missing q parameter' }, 400);
           const limit = Math.min(parseInt(params.get('limit') || '5'), 20);
-          const result = await contextSearch(query, { limit });
+          const mode = params.get('mode') || 'hybrid';
+          if (!['lexical', 'vector', 'hybrid'].includes(mode)) {
+            return jsonResponse(res, { error: 'mode must be lexical, vector or hybrid' }, 400);
+          }
+          const result = await contextSearch(query, { limit, mode });
           jsonResponse(res, { data: result });
         } catch (err: any) {
           jsonResponse(res, { error: err.message }, 500);
@@ -1037,8 +1076,8 @@ export function startHealthServer(port: number): http.Server | null {
         try {
           const { createSchedule } = require('./scheduler');
           const input = JSON.parse(body);
-          if (!input.name || !input.cron || !input.action) {
-            return jsonResponse(res, { error: 'Missing name, cron, or action' }, 400);
+          if (!input.name || (!input.cron && !input.trigger) || !input.action) {
+            return jsonResponse(res, { error: 'Missing name, trigger (or cron), or action' }, 400);
           }
           if (input.name.length > 200) return jsonResponse(res, { error: 'Name too long (max 200)' }, 400);
           const schedule = createSchedule(input);
@@ -1050,6 +1089,21 @@ export function startHealthServer(port: number): http.Server | null {
       });
     }
 
+    if (pathname?.startsWith('/api/schedules/') && pathname.endsWith('/runs') && req.method === 'GET') {
+      try {
+        const id = decodeURIComponent(pathname.slice('/api/schedules/'.length, -'/runs'.length));
+        const { getSchedule, listScheduleRuns } = require('./scheduler');
+        if (!getSchedule(id)) return jsonResponse(res, { error: 'Not found' }, 404);
+        const params = new URL(req.url || '', 'http://localhost').searchParams;
+        const limit = parseInt(params.get('limit') || '50') || 50;
+        const offset = parseInt(params.get('offset') || '0') || 0;
+        const { runs, total } = listScheduleRuns(id, { result: params.get('result') || undefined, limit, offset });
+        return jsonResponse(res, { data: runs, total, limit, offset });
+      } catch (err: any) {
+        return jsonResponse(res, { error: err.message }, 500);
+      }
+    }
+
     if (pathname?.startsWith('/api/schedules/') && req.method === 'GET') {
       try {
         const id = pathname.slice('/api/schedules/'.length).split('/')[0];
@@ -1122,7 +1176,7 @@ export function startHealthServer(port: number): http.Server | null {
             return jsonResponse(res, { error: 'Missing goal' }, 400);
           }
           const { runAgent } = require('./agent');
-          const run = await runAgent(goal, config);
+          const run = await runAgent(goal, config, undefined, { source: 'api' });
           jsonResponse(res, run);
         } catch (err: any) {
           jsonResponse(res, { error: err.message }, 500);
@@ -1148,6 +1202,45 @@ export function startHealthServer(port: number): http.Server | null {
       return jsonResponse(res, { runs: getActiveRuns() });
     }
 
+    if (pathname === '/api/agent/spend' && req.method === 'GET') {
+      const { getAgentSpend } = require('./agent');
+      return jsonResponse(res, getAgentSpend());
+    }
+
+    if (pathname === '/api/agent/runs' && req.method === 'GET') {
+      const { listRuns } = require('./agent');
+      const params = new URL(req.url || '', 'http://localhost').searchParams;
+      const runs = listRuns({
+        status: params.get('status') || undefined,
+        source: params.get('source') || undefined,
+        sourceRef: params.get('ref') || undefined,
+        limit: parseInt(params.get('limit') || '50') || 50,
+        offset: parseInt(params.get('offset') || '0') || 0,
+      });
+      return jsonResponse(res, { data: runs });
+    }
+
+    if (pathname?.startsWith('/api/agent/runs/') && pathname.endsWith('/resume') && req.method === 'POST') {
+      const id = decodeURIComponent(pathname.slice('/api/agent/runs/'.length, -'/resume'.length));
+      return readBody(req, async () => {
+        try {
+          const { resumeAgent } = require('./agent');
+          const run = await resumeAgent(id);
+          jsonResponse(res, run);
+        } catch (err: any) {
+          const status = err.message === 'Run not found' ? 404 : 409;
+          jsonResponse(res, { error: err.message }, status);
+        }
+      });
+    }
+
+    if (pathname?.startsWith('/api/agent/runs/') && req.method === 'GET') {
+      const { getRun } = require('./agent');
+      const run = getRun(decodeURIComponent(pathname.slice('/api/agent/runs/'.length)));
+      if (!run) return jsonResponse(res, { error: 'Run not found' }, 404);
+      return jsonResponse(res, run);
+    }
+
     // ---- Tool Plugin API ----
     if (pathname === '/api/tool-plugins' && req.method === 'GET') {
       const { toolRegistry } = require('./tool-plugins');
@@ -1187,6 +1280,108 @@ export function startHealthServer(port: number): http.Server | null {
       return;
     }
 
+    // ---- Tool Approvals API ----
+    if (pathname === '/api/approvals' && req.method === 'GET') {
+      (async () => {
+        try {
+          const { listPendingApprovals, hasApprovalPin } = require('./tool-plugins');
+          jsonResponse(res, { data: listPendingApprovals(), pinSet: await hasApprovalPin() });
+        } catch (err: any) {
+          jsonResponse(res, { error: err.message }, 500);
+        }
+      })();
+      return;
+    }
+
+    if (pathname === '/api/approvals/pin' && req.method === 'POST') {
+      return readBody(req, async (body) => {
+        try {
+          const { pin, currentPin } = JSON.parse(body);
+          const { setApprovalPin } = require('./tool-plugins');
+          const result = await setApprovalPin(pin, currentPin);
+          jsonResponse(res, result, result.ok ? 200 : 400);
+        } catch (err: any) {
+          jsonResponse(res, { error: err.message }, 500);
+        }
+      });
+    }
+
+    if (pathname.startsWith('/api/approvals/') && req.method === 'POST') {
+      const id = decodeURIComponent(pathname.slice('/api/approvals/'.length));
+      return readBody(req, async (body) => {
+        try {
+          const { approved, pin } = JSON.parse(body);
+          const { respondToApproval } = require('./tool-plugins');
+          const result = await respondToApproval(id, approved === true, pin);
+          jsonResponse(res, result, result.ok ? 200 : 400);
+        } catch (err: any) {
+          jsonResponse(res, { error: err.message }, 500);
+        }
+      });
+    }
+
+    if (pathname.startsWith('/api/oauth/') && pathname.endsWith('/start') && req.method === 'POST') {
+      const toolName = decodeURIComponent(pathname.slice('/api/oauth/'.length, -'/start'.length));
+      return readBody(req, (body) => {
+        try {
+          const { client_id, client_secret } = body ? JSON.parse(body) : {} as any;
+          const { toolRegistry, startOAuthFlow } = require('./tool-plugins');
+          const plugin = toolRegistry.get(toolName);
+          if (!plugin) return jsonResponse(res, { error: 'Plugin not found' }, 404);
+          // Loopback redirect back to this server; the port must match where the browser can reach us
+          const redirectUri = `http://127.0.0.1:${port}/api/oauth/callback`;
+          const authUrl = startOAuthFlow(plugin, redirectUri, { clientId: client_id, clientSecret: client_secret });
+          jsonResponse(res, { url: authUrl, redirect_uri: redirectUri });
+        } catch (err: any) {
+          jsonResponse(res, { error: err.message }, 400);
+        }
+      });
+    }
+
+    // ---- MCP servers ----
+    if (pathname === '/api/mcp/servers' && req.method === 'GET') {
+      const { mcpServerStatus } = require('./tool-plugins/mcp-tool');
+      return jsonResponse(res, { servers: mcpServerStatus() });
+    }
+
+    if (pathname.startsWith('/api/mcp/servers/') && pathname.endsWith('/restart') && req.method === 'POST') {
+      const plugin = decodeURIComponent(pathname.slice('/api/mcp/servers/'.length, -'/restart'.length));
+      const { restartMcpServer } = require('./tool-plugins/mcp-tool');
+      return restartMcpServer(plugin).then((found: boolean) => {
+        if (!found) return jsonResponse(res, { error: 'Not found' }, 404);
+        addActivity('🔌', `MCP server restarted: ${plugin}`);
+        jsonResponse(res, { ok: true });
+      }).catch((err: any) => jsonResponse(res, { error: err.message }, 500));
+    }
+
+    // ---- MCP server mode (this node as an MCP server) ----
+    if (pathname === '/mcp' || pathname.startsWith('/mcp/')) {
+      const { loadConfig } = require('./config');
+      if (loadConfig().mcp?.serve === false) return jsonResponse(res, { error: 'MCP server mode is disabled' }, 404);
+      // Browsers may only reach this from the dashboard's own origin (DNS rebinding)
+      if (origin && origin !== `http://127.0.0.1:${port}` && origin !== `http://localhost:${port}`) {
+        return jsonResponse(res, { error: 'Forbidden origin' }, 403);
+      }
+      const mcp = require('./mcp/server');
+      if (pathname === '/mcp' && req.method === 'POST') {
+        return readBody(req, (body) => {
+          mcp.handleMcpPost(req, res, body).catch((err: any) => jsonResponse(res, { error: err.message }, 500));
+        });
+      }
+      if (pathname === '/mcp' && req.method === 'DELETE') return mcp.handleMcpDelete(req, res);
+      if (pathname === '/mcp/sse' && req.method === 'GET') return mcp.openMcpSseStream(req, res);
+      if (pathname === '/mcp/messages' && req.method === 'POST') {
+        return readBody(req, (body) => {
+          mcp.handleMcpSseMessage(res, url.searchParams.get('sessionId') || '', body)
+            .catch((err: any) => { if (!res.headersSent) jsonResponse(res, { error: err.message }, 500); });
+        });
+      }
+      // Streamable HTTP clients probe GET /mcp for a server-sent stream; we answer over POST only
+      res.writeHead(405, { Allow: 'POST, DELETE' });
+      res.end();
+      return;
+    }
+
     // ---- Credential Vault API ----
     if (pathname === '/api/credentials' && req.method === 'GET') {
       return handleCredentialsList(res);
@@ -1206,6 +1401,17 @@ export function startHealthServer(port: number): http.Server | null {
       return handleCredentialDelete(res, toolName);
     }
 
+    // Secret store read log — names and readers only, never values
+    if (pathname === '/api/secrets/audit' && req.method === 'GET') {
+      const { readSecretAudit, SECRET_NAMESPACES } = require('./secret-store');
+      const namespace = url.searchParams.get('namespace') || undefined;
+      if (namespace && !SECRET_NAMESPACES.includes(namespace)) {
+        return jsonResponse(res, { error: `Unknown namespace: ${namespace}` }, 400);
+      }
+      const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '100', 10) || 100, 1), 1000);
+      return jsonResponse(res, { entries: readSecretAudit(limit, namespace) });
+    }
+
     // 404
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ error: 'Not found' }));
@@ -1228,6 +1434,11 @@ export function startHealthServer(port: number): http.Server | null {
     dashClients.add(ws);
     // Send current status immediately
     ws.send(JSON.stringify({ type: 'status.update', ...getStatusPayload() }));
+    try {
+      const { listPendingApprovals } = require('./tool-plugins');
+      const approvals = listPendingApprovals();
+      if (approvals.length > 0) ws.send(JSON.stringify({ type: 'approval.pending', approvals }));
+    } catch {}
 
     ws.on('message', (raw) => {
       try {
@@ -1236,13 +1447,25 @@ export function startHealthServer(port: number): http.Server | null {
           if (chatHandler) {
             chatHandler(data.message, ws);
           } else {
-            handleWSChat(data.message, data.history || [], ws, data.file || null);
+            handleWSChat(data.message, data.history || [], ws, data.file || null, typeof data.chatId === 'string' ? data.chatId : undefined, typeof data.attachmentId === 'string' ? data.attachmentId : undefined);
           }
           addActivity('💬', `Chat: "${data.message.substring(0, 50)}"`);
         }
         if (data.type === 'agent.run' && data.goal) {
           handleWSAgentRun(data.goal, data.config || {}, ws);
         }
+        if (data.type === 'approval.list') {
+          const { listPendingApprovals } = require('./tool-plugins');
+          ws.send(JSON.stringify({ type: 'approval.pending', approvals: listPendingApprovals() }));
+        }
+        if (data.type === 'approval.respond' && data.id) {
+          const { respondToApproval } = require('./tool-plugins');
+          respondToApproval(data.id, data.approved === true, data.pin).then((result: any) => {
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(JSON.stringify({ type: 'approval.result', id: data.id, ...result }));
+            }
+          });
+        }
         if (data.type === 'agent.cancel' && data.runId) {
           const { cancelAgent } = require('./agent');
           cancelAgent(data.runId);
@@ -1279,6 +1502,21 @@ function jsonResponse(res: http.ServerResponse, data: any, status = 200): void {
   res.end(body);
 }
 
+/** Write one Server-Sent Event (no-op once the client has gone away) */
+function sseEvent(res: http.ServerResponse, event: string, data: any): void {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Minimal page shown in the browser tab that finished an OAuth sign-in */
+function oauthPage(res: http.ServerResponse, status: number, title: string, message: string): void {
+  const esc = (t: string) => t.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(`<!doctype html><html><head><meta charset="utf-8"><title>Buhdi — ${esc(title)}</title></head>`
+    + `<body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;text-align:center">`
+    + `<h2>${status === 200 ? '✅' : '❌'} ${esc(title)}</h2><p>${esc(message)}</p></body></html>`);
+}
+
 function serveFile(res: http.ServerResponse, filePath: string): void {
   // Prevent directory traversal
   const resolved = path.resolve(filePath);
@@ -1300,16 +1538,23 @@ function serveFile(res: http.ServerResponse, filePath: string): void {
 }
 
 // ---- WebSocket Chat → LLM ----
-async function handleWSChat(message: string, history: any[], ws: import('ws').WebSocket, file?: { name: string; type: string; data: string } | null): Promise<void> {
+async function handleWSChat(message: string, history: any[], ws: import('ws').WebSocket, file?: ChatAttachment | null, chatId?: string, attachmentId?: string): Promise<void> {
+  // F6-FIX: Safe send that checks readyState
+  const wsSend = (data: any) => {
+    if (ws.readyState === 1 /* OPEN */) {
+      ws.send(JSON.stringify(data));
+    }
+  };
+
   try {
     const { llmRouter } = require('./llm');
     if (!llmRouter.hasAvailableProvider()) {
-      ws.send(JSON.stringify({
+      wsSend({
         type: 'chat.message',
         role: 'assistant',
         content: 'No AI engine connected. Install [Ollama](https://ollama.com) and run `ollama pull llama3.1:8b`, or configure a cloud provider in Settings.',
         ts: new Date().toISOString(),
-      }));
+      });
       return;
     }
 
@@ -1328,162 +1573,210 @@ async function handleWSChat(message: string, history: any[], ws: import('ws').We
     // Pull relevant memory for this specific message
     const memoryContext = getRelevantContext(message, 1500);
 
-    // Build user content — multimodal if file attached
-    let userContent: any = message;
-    if (file && file.data) {
-      // Reject oversized files (max ~4MB decoded = ~5.3MB base64)
-      if (file.data.length > 5 * 1024 * 1024) {
-        userContent = `[File "${file.name}" too large for AI processing (max ~4MB). Please use a smaller file.]\n\n${message}`;
-      } else if (file.type.startsWith('image/')) {
-        // Multimodal: image + text (OpenAI vision format)
-        userContent = [
-          { type: 'text', text: message || 'Describe this image.' },
-          { type: 'image_url', image_url: { url: `data:${file.type};base64,${file.data}` } },
-        ];
-      } else {
-        // Text-based file: decode and prepend as context
-        try {
-          const fileText = Buffer.from(file.data, 'base64').toString('utf-8');
-          const truncated = fileText.length > 8000 ? fileText.slice(0, 8000) + '\n...[truncated]' : fileText;
-          userContent = `[Attached file: ${file.name}]\n\`\`\`\n${truncated}\n\`\`\`\n\n${message}`;
-        } catch {
-          userContent = `[Attached file: ${file.name} — could not read contents]\n\n${message}`;
-        }
-      }
-    }
-
     const messages = [
       { role: 'system', content: systemPrompt + (memoryContext ? '\n\n' + memoryContext : '') },
       ...safeHistory,
-      { role: 'user', content: userContent },
+      { role: 'user', content: await buildUserContent(message, file, attachmentId) },
     ];
 
-    // Stream response
-    let fullContent = '';
-    await llmRouter.stream(
-      { messages, tools: tools.length > 0 ? tools : undefined },
-      {
-        onToken: (token: string) => {
-          fullContent += token;
-          ws.send(JSON.stringify({ type: 'chat.stream', token }));
-        },
-        onToolCall: async (tc: any) => {
-          ws.send(JSON.stringify({
-            type: 'chat.tool_call',
-            tool: tc.function.name,
-            args: tc.function.arguments,
-          }));
-        },
-        onDone: (response: any) => {
-          if (response.toolCalls?.length > 0) {
-            // Execute tools and get final response
-            handleToolCallsAndRespond(messages, fullContent, response, ws);
-          } else {
-            ws.send(JSON.stringify({
-              type: 'chat.stream.end',
-              full_text: fullContent,
-              provider: response.provider,
-              model: response.model,
-            }));
-          }
-        },
-        onError: (err: Error) => {
-          ws.send(JSON.stringify({
-            type: 'chat.message',
-            role: 'assistant',
-            content: `AI error: ${err.message}`,
-            ts: new Date().toISOString(),
-          }));
-        },
-      }
-    );
+    const result = await runChatTurn(messages, tools, {
+      onToken: (token) => wsSend({ type: 'chat.stream', token }),
+      onToolStart: (call) => wsSend({ type: 'chat.tool_executing', ...call }),
+      onToolFinish: (call) => wsSend({ type: 'chat.tool_result', ...call, output: call.output.substring(0, 200) }),
+    });
+    const persisted = persistChatReply(chatId, result);
+
+    wsSend({
+      type: 'chat.stream.end',
+      full_text: result.content,
+      provider: result.provider,
+      model: result.model,
+      toolsUsed: result.toolsUsed,
+      persisted,
+    });
   } catch (err: any) {
-    ws.send(JSON.stringify({
+    const { VISION_UNAVAILABLE } = require('./llm/content');
+    wsSend({
       type: 'chat.message',
       role: 'assistant',
-      content: `Error: ${err.message}`,
+      content: err.message === VISION_UNAVAILABLE ? `⚠️ ${err.message}` : `AI error: ${err.message}`,
       ts: new Date().toISOString(),
-    }));
+    });
   }
 }
 
-async function handleToolCallsAndRespond(
-  messages: any[], assistantContent: string, response: any, ws: import('ws').WebSocket
-): Promise<void> {
+type ChatAttachment = { name: string; type: string; data: string };
+
+/**
+ * User message content for a chat turn. Images become multi-part content
+ * (the router then only offers vision providers); documents are extracted
+ * locally and prepended as context, fitted to the context window.
+ * `attachmentId` refers to a file already sent to /api/chat/upload.
+ */
+async function buildUserContent(
+  message: string,
+  file?: ChatAttachment | null,
+  attachmentId?: string,
+): Promise<string | import('./llm').ContentPart[]> {
+  const { SUPPORTED_IMAGE_TYPES } = require('./llm/content');
+  const { ingestAttachment, getAttachment, buildDocumentContext, formatDocumentContext, documentKindOf, legacyFormatError } = require('./documents');
+
+  if (attachmentId) {
+    const attachment = getAttachment(attachmentId);
+    const context = attachment && await buildDocumentContext(attachmentId, message);
+    if (!context) throw new Error('Attachment not found or expired — attach the file again');
+    return `${formatDocumentContext(attachment, context)}\n\n${message}`;
+  }
+
+  if (!file || typeof file.data !== 'string' || !file.data) return message;
+
+  // Reject oversized files (max ~4MB decoded = ~5.3MB base64)
+  if (file.data.length > 5 * 1024 * 1024) {
+    return `[File "${file.name}" too large for AI processing (max ~4MB). Please use a smaller file.]\n\n${message}`;
+  }
+  if (typeof file.type === 'string' && file.type.startsWith('image/')) {
+    if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+      return `[Attached image "${file.name}" is ${file.type} — only PNG, JPEG, GIF and WebP can be viewed]\n\n${message}`;
+    }
+    return [
+      { type: 'text', text: message || 'Describe this image.' },
+      { type: 'image', mimeType: file.type, data: file.data },
+    ];
+  }
+  const legacy = typeof file.name === 'string' && legacyFormatError(file.name);
+  if (legacy) return `[Attached file: ${file.name} — could not read contents: ${legacy}]\n\n${message}`;
+  if (typeof file.name === 'string' && documentKindOf(file.name)) {
+    try {
+      const attachment = await ingestAttachment(file.name, file.type || '', Buffer.from(file.data, 'base64'));
+      const context = await buildDocumentContext(attachment.id, message);
+      return `${formatDocumentContext(attachment, context)}\n\n${message}`;
+    } catch (err: any) {
+      return `[Attached file: ${file.name} — could not read contents: ${err.message}]\n\n${message}`;
+    }
+  }
+  // Anything else: decode as text and prepend as context
   try {
-    const { llmRouter } = require('./llm');
-    const { toolRegistry } = require('./tool-plugins');
-    const { sanitizeToolOutput, validateToolCall, MAX_TOOL_CALLS_PER_TURN } = require('./llm/safety');
+    const fileText = Buffer.from(file.data, 'base64').toString('utf-8');
+    const truncated = fileText.length > 8000 ? fileText.slice(0, 8000) + '\n...[truncated]' : fileText;
+    return `[Attached file: ${file.name}]\n\`\`\`\n${truncated}\n\`\`\`\n\n${message}`;
+  } catch {
+    return `[Attached file: ${file.name} — could not read contents]\n\n${message}`;
+  }
+}
 
-    // H3-FIX: Cap tool calls
-    const cappedCalls = response.toolCalls.slice(0, MAX_TOOL_CALLS_PER_TURN);
-    const tools = toolRegistry.getLLMToolSchemas();
+// ---- Chat Turn (shared by /api/llm/chat and WebSocket chat) ----
+
+interface ChatTurnSink {
+  onToken: (token: string) => void;
+  onToolStart?: (call: { id: string; tool: string; args: string }) => void;
+  onToolFinish?: (call: { id: string; tool: string; success: boolean; output: string }) => void;
+}
+
+interface ChatTurnResult {
+  content: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  toolsUsed: string[];
+  toolRounds: number;
+}
+
+/** Stream one completion through the router, resolving with the final response */
+function streamCompletion(request: any, onToken: (token: string) => void): Promise<any> {
+  const { llmRouter } = require('./llm');
+  return new Promise((resolve, reject) => {
+    llmRouter.stream(request, { onToken, onDone: resolve, onError: reject }).catch(reject);
+  });
+}
+
+/**
+ * Run one chat turn: stream the reply token-by-token and, while the model keeps
+ * asking for tools, execute them and feed results back. Bounded per turn by
+ * MAX_TOOL_ROUNDS_PER_TURN and MAX_TOOL_CALLS_PER_TURN — once spent, the model
+ * gets one last call without tools to answer from what it has.
+ */
+async function runChatTurn(messages: any[], tools: any[], sink: ChatTurnSink): Promise<ChatTurnResult> {
+  const { toolRegistry } = require('./tool-plugins');
+  const { sanitizeToolOutput, validateToolCall, MAX_TOOL_CALLS_PER_TURN, MAX_TOOL_ROUNDS_PER_TURN } = require('./llm/safety');
+
+  const conversation = [...messages];
+  const toolsUsed: string[] = [];
+  let rounds = 0;
+  let callsMade = 0;
+  let latencyMs = 0;
+
+  while (true) {
+    // H3-FIX: the per-turn call cap spans every round
+    const callsLeft = MAX_TOOL_CALLS_PER_TURN - callsMade;
+    const offerTools = tools.length > 0 && rounds < MAX_TOOL_ROUNDS_PER_TURN && callsLeft > 0;
+    const response = await streamCompletion(
+      { messages: conversation, tools: offerTools ? tools : undefined },
+      sink.onToken,
+    );
+    latencyMs += response.latencyMs || 0;
+
+    if (!offerTools || !response.toolCalls?.length) {
+      return {
+        content: response.content || (toolsUsed.length > 0 ? 'Tool executed but no response generated.' : ''),
+        provider: response.provider,
+        model: response.model,
+        latencyMs,
+        toolsUsed,
+        toolRounds: rounds,
+      };
+    }
 
+    rounds++;
+
+    const cappedCalls = response.toolCalls.slice(0, callsLeft);
+    callsMade += cappedCalls.length;
     const toolResults: any[] = [];
+
     for (const tc of cappedCalls) {
-      // H2-FIX: Validate tool name
+      // H2-FIX: Validate tool name against provided schemas
       if (!validateToolCall(tc.function.name, tools)) {
-        toolResults.push({
-          tool_call_id: tc.id,
-          role: 'tool',
-          content: `Error: tool "${tc.function.name}" is not available.`,
-        });
+        const output = `Error: tool "${tc.function.name}" is not available.`;
+        toolsUsed.push(`${tc.function.name} (failed)`);
+        toolResults.push({ tool_call_id: tc.id, role: 'tool', content: output });
+        sink.onToolFinish?.({ id: tc.id, tool: tc.function.name, success: false, output });
         continue;
       }
 
       let params: Record<string, any> = {};
       try { params = JSON.parse(tc.function.arguments); } catch {}
 
-      ws.send(JSON.stringify({
-        type: 'chat.tool_executing',
-        tool: tc.function.name,
-      }));
-
-      const result = await toolRegistry.executeByFullName(tc.function.name, params);
+      sink.onToolStart?.({ id: tc.id, tool: tc.function.name, args: tc.function.arguments });
+      const result = await toolRegistry.executeByFullName(tc.function.name, params, { source: 'chat' });
+      toolsUsed.push(result.success ? tc.function.name : `${tc.function.name} (failed)`);
 
-      // H1-FIX: Sanitize tool output
-      const sanitizedOutput = sanitizeToolOutput(result.output);
-      toolResults.push({
-        tool_call_id: tc.id,
-        role: 'tool',
-        content: sanitizedOutput,
-      });
-
-      ws.send(JSON.stringify({
-        type: 'chat.tool_result',
-        tool: tc.function.name,
-        success: result.success,
-        output: sanitizedOutput.substring(0, 200),
-      }));
+      // H1-FIX: Sanitize tool output before LLM re-injection
+      const output = sanitizeToolOutput(result.output);
+      toolResults.push({ tool_call_id: tc.id, role: 'tool', content: output });
+      sink.onToolFinish?.({ id: tc.id, tool: tc.function.name, success: result.success, output });
     }
 
-    const followUp = await llmRouter.complete({
-      messages: [
-        ...messages,
-        { role: 'assistant', content: assistantContent, tool_calls: cappedCalls },
-        ...toolResults,
-      ],
-    });
-
-    ws.send(JSON.stringify({
-      type: 'chat.message',
-      role: 'assistant',
-      content: followUp.content || 'Tool executed but no response generated.',
-      ts: new Date().toISOString(),
-      provider: followUp.provider,
-      model: followUp.model,
-      toolsUsed: cappedCalls.map((tc: any) => tc.function.name),
-    }));
-  } catch (err: any) {
-    ws.send(JSON.stringify({
-      type: 'chat.message',
-      role: 'assistant',
-      content: `Tool execution error: ${err.message}`,
-      ts: new Date().toISOString(),
-    }));
+    conversation.push(
+      { role: 'assistant', content: response.content, tool_calls: cappedCalls },
+      ...toolResults,
+    );
   }
 }
 
+/** Persist the assistant reply (with every tool call made) to the chat, if one was given */
+function persistChatReply(chatId: string | undefined, result: ChatTurnResult): boolean {
+  if (!chatId || !result.content) return false;
+  const { addMessage } = require('./chats');
+  return addMessage(chatId, {
+    role: 'assistant',
+    content: result.content,
+    ts: new Date().toISOString(),
+    toolsUsed: result.toolsUsed,
+    toolRounds: result.toolRounds,
+    provider: result.provider,
+    model: result.model,
+  });
+}
+
 // ---- WebSocket Agent Run ----
 async function handleWSAgentRun(goal: string, config: any, ws: import('ws').WebSocket): Promise<void> {
   // F6-FIX: Safe send that checks readyState
@@ -1530,9 +1823,11 @@ async function handleWSAgentRun(goal: string, config: any, ws: import('ws').WebS
           runId: run.id,
           status: run.status,
           result: run.result,
+          error: run.error,
           steps: run.steps.length,
           toolsUsed: run.toolsUsed,
           durationMs: run.totalDurationMs,
+          usage: run.usage,
         });
       },
       onError: (err: Error, run: any) => {
@@ -1542,7 +1837,7 @@ async function handleWSAgentRun(goal: string, config: any, ws: import('ws').WebS
           error: err.message,
         });
       },
-    });
+    }, { source: 'chat' });
   } catch (err: any) {
     wsSend({
       type: 'agent.error',
@@ -1552,13 +1847,16 @@ async function handleWSAgentRun(goal: string, config: any, ws: import('ws').WebS
 }
 
 const MAX_BODY_SIZE = 1024 * 1024; // L2-FIX: 1MB max request body
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // Chat attachments, decoded
+const MAX_SPEC_SIZE = 5 * 1024 * 1024; // Custom tools with an OpenAPI document
+const MAX_UPLOAD_BODY_SIZE = Math.ceil(MAX_UPLOAD_SIZE * 4 / 3) + 64 * 1024; // base64 + JSON envelope
 
-function readBody(req: http.IncomingMessage, cb: (body: string) => void): void {
+function readBody(req: http.IncomingMessage, cb: (body: string) => void, maxSize = MAX_BODY_SIZE): void {
   let body = '';
   let overflow = false;
   req.on('data', (chunk: Buffer) => {
     body += chunk.toString();
-    if (body.length > MAX_BODY_SIZE) { overflow = true; req.destroy(); }
+    if (body.length > maxSize) { overflow = true; req.destroy(); }
   });
   req.on('end', () => { if (!overflow) cb(body); });
 }
@@ -1569,111 +1867,32 @@ const EDITABLE_EXTENSIONS = ['.md', '.txt', '.json'];
 const MAX_FILE_SIZE = 100 * 1024; // 100KB
 
 // ---- Credential Vault (Local Only — Phase 1) ----
-const CRED_FILE = path.join(CONFIG_FILES_DIR, 'credentials.enc.json');
-
-interface CredentialMeta {
-  storageMode: string;
-  toolType: string;
-  addedAt: string;
-  lastUsedAt: string | null;
-}
-
-interface CredentialStore {
-  [tool: string]: {
-    encrypted: string; // AES-256-GCM encrypted credential (base64 JSON: {iv, tag, ct})
-    meta: CredentialMeta;
-  };
-}
-
-function loadCredentialStore(): CredentialStore {
-  try {
-    if (fs.existsSync(CRED_FILE)) {
-      return JSON.parse(fs.readFileSync(CRED_FILE, 'utf8'));
-    }
-  } catch {}
-  return {};
-}
-
-function saveCredentialStore(store: CredentialStore): void {
-  if (!fs.existsSync(CONFIG_FILES_DIR)) {
-    fs.mkdirSync(CONFIG_FILES_DIR, { recursive: true });
-  }
-  fs.writeFileSync(CRED_FILE, JSON.stringify(store, null, 2), { encoding: 'utf8', mode: 0o600 });
-}
-
-// Simple AES-256-GCM with machine-derived key
-function getMachineKey(): Buffer {
-  const os = require('os');
-  const crypto = require('crypto');
-  // M1-FIX: Always use machine-secret file; auto-generate if missing
-  const secretDir = path.join(os.homedir(), '.buhdi');
-  const secretPath = path.join(secretDir, 'machine-secret');
-  let secret: Buffer;
-  try {
-    secret = fs.readFileSync(secretPath);
-  } catch {
-    // Auto-generate a random 32-byte secret on first run
-    secret = crypto.randomBytes(32);
-    try {
-      if (!fs.existsSync(secretDir)) fs.mkdirSync(secretDir, { recursive: true });
-      fs.writeFileSync(secretPath, secret, { mode: 0o600 });
-      console.log('🔐 Generated machine secret for credential vault');
-    } catch (err: any) {
-      console.warn('⚠️  Could not persist machine secret:', err.message);
-    }
-  }
-  return crypto.pbkdf2Sync(secret, 'buhdi-cred-vault', 100_000, 32, 'sha256');
-}
-
-function encryptCredential(plaintext: string): string {
-  const crypto = require('crypto');
-  const key = getMachineKey();
-  const iv = crypto.randomBytes(12);
-  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
-  let ct = cipher.update(plaintext, 'utf8', 'base64');
-  ct += cipher.final('base64');
-  const tag = cipher.getAuthTag().toString('base64');
-  return JSON.stringify({ iv: iv.toString('base64'), tag, ct });
-}
-
-function decryptCredential(blob: string): string {
-  const crypto = require('crypto');
-  const key = getMachineKey();
-  const { iv, tag, ct } = JSON.parse(blob);
-  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
-  decipher.setAuthTag(Buffer.from(tag, 'base64'));
-  let pt = decipher.update(ct, 'base64', 'utf8');
-  pt += decipher.final('utf8');
-  return pt;
-}
-
 function handleCredentialsList(res: http.ServerResponse): void {
-  const store = loadCredentialStore();
-  const credentials: Record<string, CredentialMeta> = {};
-  for (const [tool, entry] of Object.entries(store)) {
-    credentials[tool] = entry.meta;
-  }
-  jsonResponse(res, { credentials });
+  const { listCredentials } = require('./tool-plugins/credentials');
+  const { credentialAlerts } = require('./tool-plugins/credential-health');
+  jsonResponse(res, { credentials: listCredentials(), alerts: credentialAlerts() });
 }
 
 function handleCredentialSave(res: http.ServerResponse, toolName: string, body: string): void {
   try {
-    const { credential, storageMode, toolType } = JSON.parse(body);
+    const { credential, storageMode, toolType, expiresAt } = JSON.parse(body);
     if (!credential || typeof credential !== 'string') {
       return jsonResponse(res, { error: 'Missing credential' }, 400);
     }
+    if (expiresAt != null && (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt)))) {
+      return jsonResponse(res, { error: 'expiresAt must be a date' }, 400);
+    }
 
-    const store = loadCredentialStore();
-    store[toolName] = {
-      encrypted: encryptCredential(credential),
-      meta: {
-        storageMode: storageMode || 'local_only',
-        toolType: toolType || 'api_key',
-        addedAt: new Date().toISOString(),
-        lastUsedAt: null,
-      },
-    };
-    saveCredentialStore(store);
+    const { setCredential, parseOAuthBundle } = require('./tool-plugins/credentials');
+    setCredential(toolName, credential, {
+      storageMode: storageMode || 'local_only',
+      toolType: toolType || (parseOAuthBundle(credential) ? 'oauth' : 'api_key'),
+      addedAt: new Date().toISOString(),
+      lastUsedAt: null,
+      refreshedAt: null,
+      // An OAuth bundle carries its own expiry; an explicit one wins
+      ...(expiresAt ? { expiresAt: new Date(expiresAt).toISOString() } : {}),
+    });
     addActivity('🔒', `Credential saved: ${toolName}`);
     jsonResponse(res, { ok: true, details: `${toolName} credential saved (${storageMode || 'local_only'})` });
   } catch (err: any) {
@@ -1682,32 +1901,31 @@ function handleCredentialSave(res: http.ServerResponse, toolName: string, body:
 }
 
 function handleCredentialTest(res: http.ServerResponse, toolName: string): void {
-  const store = loadCredentialStore();
-  const entry = store[toolName];
-  if (!entry) {
-    return jsonResponse(res, { error: 'No credential found for ' + toolName }, 404);
-  }
-
-  try {
-    // Verify we can decrypt it
-    const _plaintext = decryptCredential(entry.encrypted);
-    // In Phase 2, we'd actually test the API connection here
-    // For now, just confirm decryption works
-    entry.meta.lastUsedAt = new Date().toISOString();
-    saveCredentialStore(store);
-    jsonResponse(res, { ok: true, details: `Credential decrypted successfully. API test coming in Phase 2.` });
-  } catch (err: any) {
-    jsonResponse(res, { error: 'Decryption failed: ' + err.message }, 500);
-  }
+  (async () => {
+    try {
+      const { checkCredential } = require('./tool-plugins/credential-health');
+      const meta = await checkCredential(toolName);
+      if (!meta) return jsonResponse(res, { error: 'No credential found for ' + toolName }, 404);
+      const ok = meta.status !== 'failing' && meta.status !== 'expired';
+      jsonResponse(res, {
+        ok,
+        status: meta.status,
+        meta,
+        details: meta.error || (meta.status === 'unchecked'
+          ? 'Credential decrypted successfully (no plugin to test it against).'
+          : `Credential ${meta.status}.`),
+      });
+    } catch (err: any) {
+      jsonResponse(res, { error: 'Credential check failed: ' + err.message }, 500);
+    }
+  })();
 }
 
 function handleCredentialDelete(res: http.ServerResponse, toolName: string): void {
-  const store = loadCredentialStore();
-  if (!store[toolName]) {
+  const { deleteCredential } = require('./tool-plugins/credentials');
+  if (!deleteCredential(toolName)) {
     return jsonResponse(res, { error: 'Not found' }, 404);
   }
-  delete store[toolName];
-  saveCredentialStore(store);
   addActivity('🗑️', `Credential removed: ${toolName}`);
   jsonResponse(res, { ok: true });
 }
@@ -13,6 +13,10 @@ import { serviceAction } from './service/install';
 import { PluginManager } from './plugins/manager';
 import { TrustLevel, isValidTrustLevel, trustLevelLabel, TRUST_LEVELS } from './plugins/trust';
 import { listPluginSecrets } from './plugins/plugin-vault';
+import { setApprovalPin, hasApprovalPin } from './tool-plugins/approvals';
+import { initSecretStore } from './secret-store';
+import readline from 'readline';
+import { WebSocket } from 'ws';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
@@ -37,6 +41,10 @@ Usage:
   buhdi-node plugins              List installed plugins
   buhdi-node plugin <name>        Show plugin details
   buhdi-node secrets <plugin>     List secret names for a plugin
+  buhdi-node approvals            Approve/deny pending tool actions
+  buhdi-node pin                  Set the PIN for financial approvals
+  buhdi-node credentials [check]  Show tool credential health (check = test now)
+  buhdi-node mcp                  MCP server over stdio (relays to the running node)
 
 Service management:
   buhdi-node install              Install as system service
@@ -184,6 +192,9 @@ async function runConnect(apiKey: string, isDaemon = false): Promise<void> {
     console.log('');
   }
 
+  // Move secrets out of older stores (and config.json) before anything reads them
+  initSecretStore();
+
   const connection = new NodeConnection(apiKey);
 
   // Initialize plugin manager
@@ -223,8 +234,10 @@ async function runConnect(apiKey: string, isDaemon = false): Promise<void> {
     });
 
     // Initialize tool plugins
-    import('./tool-plugins').then(({ initToolPlugins }) => {
-      initToolPlugins().catch((err: any) => {
+    import('./tool-plugins').then(({ initToolPlugins, startCredentialSweep }) => {
+      initToolPlugins().then(() => {
+        startCredentialSweep(config.credentials);
+      }).catch((err: any) => {
         if (isDaemon) getLogger().warn('Tool plugin init error: ' + err.message);
         else console.warn('⚠️  Tool plugin init:', err.message);
       });
@@ -236,12 +249,22 @@ async function runConnect(apiKey: string, isDaemon = false): Promise<void> {
       initChats(configDir);
     }).catch(() => {});
 
+    // Initialize agent run history
+    import('./agent').then(({ initAgentStore }) => {
+      const configDir = process.env.BUHDI_NODE_CONFIG_DIR || path.join(os.homedir(), '.buhdi-node');
+      initAgentStore(configDir);
+    }).catch((err: any) => {
+      if (isDaemon) getLogger().warn('Agent store init error: ' + err.message);
+      else console.warn('⚠️  Agent store init:', err.message);
+    });
+
     // Initialize scheduler
     import('./scheduler').then(async ({ initScheduler }) => {
       const { addActivity } = await import('./health');
       const configDir = process.env.BUHDI_NODE_CONFIG_DIR || path.join(os.homedir(), '.buhdi-node');
       initScheduler(configDir, addActivity, {
         allowScripts: (config as any).scheduler?.allowScripts === true,
+        history: (config as any).scheduler?.history,
       });
     }).catch((err: any) => {
       if (isDaemon) getLogger().warn('Scheduler init error: ' + err.message);
@@ -292,6 +315,7 @@ async function runConnect(apiKey: string, isDaemon = false): Promise<void> {
   process.on('SIGINT', async () => {
     if (!isDaemon) console.log('\n👋 Disconnecting...');
     await pluginManager.stopAll();
+    await require('./tool-plugins/mcp-tool').stopMcpServers().catch(() => {});
     connection.stop();
     healthServer?.close();
     dashboardServer?.close();
@@ -301,6 +325,7 @@ async function runConnect(apiKey: string, isDaemon = false): Promise<void> {
   process.on('SIGTERM', async () => {
     getLogger().info('SIGTERM received, shutting down');
     await pluginManager.stopAll();
+    await require('./tool-plugins/mcp-tool').stopMcpServers().catch(() => {});
     connection.stop();
     healthServer?.close();
     dashboardServer?.close();
@@ -377,6 +402,79 @@ function showLogs(): void {
   console.log(lines.join('\n'));
 }
 
+/** Ask one question on the terminal */
+function ask(rl: readline.Interface, question: string): Promise<string> {
+  return new Promise(resolve => rl.question(question, answer => resolve(answer.trim())));
+}
+
+/** Connect to the running node and prompt for pending tool approvals */
+function watchApprovals(): void {
+  const config = loadConfig();
+  const port = config.healthPort ?? 9847;
+  const token = getDashboardToken();
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/ws${token ? `?token=${encodeURIComponent(token)}` : ''}`);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  const queue: any[] = [];
+  const seen = new Set<string>();
+  let prompting = false;
+
+  function enqueue(approval: any): void {
+    if (seen.has(approval.id)) return;
+    seen.add(approval.id);
+    queue.push(approval);
+  }
+
+  async function next(): Promise<void> {
+    if (prompting || queue.length === 0) return;
+    prompting = true;
+    const a = queue.shift();
+    console.log(`\n⏸️  ${a.tool}.${a.action} [${a.safety}] from ${a.source}${a.ref ? ` (${a.ref})` : ''}`);
+    console.log(`   Params: ${JSON.stringify(a.params)}`);
+    console.log(`   Expires: ${new Date(a.expiresAt).toLocaleTimeString()}`);
+    const answer = (await ask(rl, '   Approve? [y/N] ')).toLowerCase();
+    const approved = answer === 'y' || answer === 'yes';
+    const pin = approved && a.requiresPin ? await ask(rl, '   PIN: ') : undefined;
+    ws.send(JSON.stringify({ type: 'approval.respond', id: a.id, approved, pin }));
+    prompting = false;
+    next();
+  }
+
+  ws.on('open', () => {
+    console.log('🔐 Watching for tool approvals (Ctrl+C to quit)');
+    ws.send(JSON.stringify({ type: 'approval.list' }));
+  });
+
+  ws.on('message', (raw) => {
+    let msg: any;
+    try { msg = JSON.parse(raw.toString()); } catch { return; }
+    if (msg.type === 'approval.pending') {
+      if (msg.approvals.length === 0) console.log('No actions awaiting approval');
+      msg.approvals.forEach(enqueue);
+      next();
+    } else if (msg.type === 'approval.requested') {
+      enqueue(msg.approval);
+      next();
+    } else if (msg.type === 'approval.resolved') {
+      const idx = queue.findIndex(a => a.id === msg.id);
+      if (idx !== -1) queue.splice(idx, 1);
+      console.log(`   ${msg.id}: ${msg.reason}`);
+    } else if (msg.type === 'approval.result' && !msg.ok) {
+      console.log(`   ❌ ${msg.error}`);
+    }
+  });
+
+  ws.on('close', (code) => {
+    console.log(code === 4401 ? '❌ Unauthorized (dashboard token mismatch)' : '📡 Disconnected from node');
+    rl.close();
+    process.exit(code === 1000 ? 0 : 1);
+  });
+
+  ws.on('error', () => {
+    console.error(`❌ Could not reach the node on port ${port}. Is it running?`);
+  });
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
@@ -504,6 +602,71 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  if (cmd === 'approvals') {
+    watchApprovals();
+    return;
+  }
+
+  if (cmd === 'mcp') {
+    // stdout belongs to the protocol; the node itself must already be running
+    const { bridgeStdioToNode } = await import('./mcp/server');
+    bridgeStdioToNode(loadConfig().healthPort ?? 9847, getDashboardToken());
+    return;
+  }
+
+  if (cmd === 'credentials') {
+    const { listCredentials } = await import('./tool-plugins/credentials');
+    const { credentialAlerts, sweepCredentials } = await import('./tool-plugins/credential-health');
+    const warningDays = loadConfig().credentials?.expiryWarningDays;
+    if (args[1] === 'check') {
+      const { registerBuiltinPlugins } = await import('./tool-plugins');
+      registerBuiltinPlugins();
+      console.log('🔑 Testing stored credentials...\n');
+      await sweepCredentials();
+    }
+    const store = listCredentials();
+    const tools = Object.keys(store);
+    if (tools.length === 0) {
+      console.log('No tool credentials stored.');
+      process.exit(0);
+    }
+    console.log('🔑 Tool credentials:\n');
+    for (const tool of tools) {
+      const meta = store[tool];
+      const expires = meta.expiresAt
+        ? `expires ${new Date(meta.expiresAt).toLocaleString()}${meta.refreshable ? ' (auto-refresh)' : ''}`
+        : 'no expiry';
+      const checked = meta.checkedAt ? `checked ${new Date(meta.checkedAt).toLocaleString()}` : 'never checked';
+      console.log(`  • ${tool.padEnd(18)} ${(meta.status || 'unchecked').padEnd(10)} ${expires} · ${checked}`);
+    }
+    const alerts = credentialAlerts(warningDays);
+    if (alerts.length > 0) {
+      console.log('\n⚠️  Needs attention:');
+      for (const a of alerts) console.log(`  • ${a.message}`);
+      console.log('\nRe-enter credentials from the dashboard Tools tab.');
+    }
+    process.exit(alerts.length > 0 ? 1 : 0);
+  }
+
+  if (cmd === 'pin') {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const currentPin = (await hasApprovalPin()) ? await ask(rl, 'Current PIN: ') : undefined;
+    const pin = await ask(rl, 'New PIN (4-12 digits): ');
+    const confirmPin = await ask(rl, 'Repeat new PIN: ');
+    rl.close();
+    if (pin !== confirmPin) {
+      console.error('❌ PINs do not match');
+      process.exit(1);
+    }
+    const result = await setApprovalPin(pin, currentPin);
+    if (!result.ok) {
+      console.error(`❌ ${result.error}`);
+      process.exit(1);
+    }
+    console.log('✅ Approval PIN saved to vault');
+    process.exit(0);
+  }
+
   if (cmd === 'memory' && args[1]) {
     const memoryKey = args[1];
     console.log(`🐻 Buhdi Node v${VERSION}`);
@@ -0,0 +1,36 @@
+/**
+ * Message Content — helpers for plain-string and multi-part (text + image) content.
+ */
+
+import { ChatMessage, ContentPart } from './types';
+
+/** Image types every vision provider accepts */
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/** Rough prompt-token cost of one image, for routing and usage estimates */
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+export const VISION_UNAVAILABLE =
+  'Vision not available: no healthy AI provider lists the "vision" capability. ' +
+  'Pull a vision model (e.g. `ollama pull llava`) or configure a vision-capable provider in Settings → AI Engine.';
+
+/** The text of a message, with image parts dropped */
+export function contentText(content: ChatMessage['content'] | null | undefined): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .filter((p): p is Extract<ContentPart, { type: 'text' }> => p.type === 'text')
+    .map(p => p.text)
+    .join('\n');
+}
+
+/** The image parts of a message */
+export function imageParts(content: ChatMessage['content'] | null | undefined): Array<Extract<ContentPart, { type: 'image' }>> {
+  if (!Array.isArray(content)) return [];
+  return content.filter((p): p is Extract<ContentPart, { type: 'image' }> => p.type === 'image');
+}
+
+/** Whether any message carries an image (needs a 'vision' provider) */
+export function hasImages(messages: ChatMessage[]): boolean {
+  return messages.some(m => imageParts(m.content).length > 0);
+}
@@ -7,15 +7,18 @@
 
 export { LLMRouter, llmRouter } from './router';
 export { sanitizeToolOutput, validateToolCall, sanitizeHistory, buildSystemPrompt, MAX_TOOL_CALLS_PER_TURN } from './safety';
+export { contentText, imageParts, hasImages, SUPPORTED_IMAGE_TYPES, VISION_UNAVAILABLE } from './content';
 export {
-  ChatMessage, CompletionRequest, CompletionResponse,
+  ChatMessage, ContentPart, CompletionRequest, CompletionResponse,
   ToolCall, ToolDefinition, ProviderHealth,
   LLMRouterConfig, LLMProviderConfig, RoutingStrategy, StreamCallback,
+  ModelPricing, LLMUsage, RoutingDecision,
 } from './types';
 
 import { llmRouter } from './router';
 import { LLMRouterConfig, LLMProviderConfig } from './types';
 import { loadConfig } from '../config';
+import { secretStore } from '../secret-store';
 
 /**
  * Initialize the LLM router from buhdi-node config.
@@ -47,7 +50,11 @@ export function initLLMRouter(): void {
   } else {
     llmRouter.updateConfig({
       strategy: llmConfig.strategy || 'local_first',
-      providers: llmConfig.providers,
+      // API keys come from the secret store's `llm` namespace, by provider name
+      providers: llmConfig.providers.map(p => ({
+        ...p,
+        apiKey: p.apiKey ?? (secretStore.has('llm', p.name) ? secretStore.get('llm', p.name, 'llm-router') ?? undefined : undefined),
+      })),
       maxLatencyMs: llmConfig.maxLatencyMs || 30_000,
       retries: llmConfig.retries ?? 1,
     });
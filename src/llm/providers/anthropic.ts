@@ -10,6 +10,7 @@ import {
   LLMProviderConfig, ChatMessage, CompletionRequest, CompletionResponse,
   ToolCall, ProviderHealth, StreamCallback
 } from '../types';
+import { contentText } from '../content';
 
 export class AnthropicProvider {
   private config: LLMProviderConfig;
@@ -58,7 +59,7 @@ export class AnthropicProvider {
   /** Convert OpenAI-style messages to Anthropic format */
   private convertMessages(messages: ChatMessage[]): { system: string; messages: any[] } {
     const systemMsgs = messages.filter(m => m.role === 'system');
-    const system = systemMsgs.map(m => m.content).join('\n\n');
+    const system = systemMsgs.map(m => contentText(m.content)).join('\n\n');
     
     const chatMessages: any[] = [];
     for (const m of messages) {
@@ -67,7 +68,8 @@ export class AnthropicProvider {
       if (m.role === 'assistant' && m.tool_calls?.length) {
         // Convert tool calls to Anthropic format
         const content: any[] = [];
-        if (m.content) content.push({ type: 'text', text: m.content });
+        const text = contentText(m.content);
+        if (text) content.push({ type: 'text', text });
         for (const tc of m.tool_calls) {
           let input: any = {};
           try { input = JSON.parse(tc.function.arguments); } catch {}
@@ -85,11 +87,18 @@ export class AnthropicProvider {
           content: [{
             type: 'tool_result',
             tool_use_id: m.tool_call_id,
-            content: m.content,
+            content: contentText(m.content),
           }],
         });
-      } else {
+      } else if (typeof m.content === 'string') {
         chatMessages.push({ role: m.role, content: m.content });
+      } else {
+        chatMessages.push({
+          role: m.role,
+          content: m.content.map(p => p.type === 'image'
+            ? { type: 'image', source: { type: 'base64', media_type: p.mimeType, data: p.data } }
+            : { type: 'text', text: p.text }),
+        });
       }
     }
 
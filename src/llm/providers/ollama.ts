@@ -9,6 +9,7 @@ import {
   LLMProviderConfig, ChatMessage, CompletionRequest, CompletionResponse,
   ToolCall, ProviderHealth, StreamCallback
 } from '../types';
+import { contentText, imageParts } from '../content';
 
 export class OllamaProvider {
   private config: LLMProviderConfig;
@@ -231,9 +232,11 @@ export class OllamaProvider {
     }
   }
 
-  /** Convert our message format to Ollama format */
+  /** Convert our message format to Ollama format (images travel as a base64 list) */
   private toOllamaMessage(msg: ChatMessage): any {
-    const out: any = { role: msg.role, content: msg.content };
+    const out: any = { role: msg.role, content: contentText(msg.content) };
+    const images = imageParts(msg.content);
+    if (images.length) out.images = images.map(p => p.data);
     if (msg.tool_calls) out.tool_calls = msg.tool_calls;
     if (msg.tool_call_id) {
       // Ollama expects tool results as role: 'tool'
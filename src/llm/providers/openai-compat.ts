@@ -138,7 +138,7 @@ export class OpenAICompatProvider {
 
     const body: any = {
       model: this.config.model,
-      messages: request.messages,
+      messages: request.messages.map(m => this.toOpenAIMessage(m)),
       temperature: request.temperature ?? 0.7,
       max_tokens: request.maxTokens ?? 2048,
       stream: false,
@@ -209,7 +209,7 @@ export class OpenAICompatProvider {
 
     const body: any = {
       model: this.config.model,
-      messages: request.messages,
+      messages: request.messages.map(m => this.toOpenAIMessage(m)),
       temperature: request.temperature ?? 0.7,
       max_tokens: request.maxTokens ?? 2048,
       stream: true,
@@ -308,5 +308,16 @@ export class OpenAICompatProvider {
       callbacks.onError(err);
     }
   }
+
+  /** Convert our message format to OpenAI format (images become data: URLs) */
+  private toOpenAIMessage(msg: ChatMessage): any {
+    if (typeof msg.content === 'string') return msg;
+    return {
+      ...msg,
+      content: msg.content.map(p => p.type === 'image'
+        ? { type: 'image_url', image_url: { url: `data:${p.mimeType};base64,${p.data}` } }
+        : { type: 'text', text: p.text }),
+    };
+  }
 }
 
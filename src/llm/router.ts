@@ -8,15 +8,32 @@
 import {
   LLMRouterConfig, LLMProviderConfig, RoutingStrategy,
   CompletionRequest, CompletionResponse, ProviderHealth,
-  StreamCallback
+  StreamCallback, LLMUsage, RoutingDecision,
 } from './types';
 import { OllamaProvider } from './providers/ollama';
 import { OpenAICompatProvider } from './providers/openai-compat';
 import { AnthropicProvider } from './providers/anthropic';
+import { contentText, imageParts, hasImages, IMAGE_TOKEN_ESTIMATE, VISION_UNAVAILABLE } from './content';
 import { addActivity, broadcastToDashboard } from '../health';
+import { emitNodeEvent } from '../events';
 
 type Provider = OllamaProvider | OpenAICompatProvider | AnthropicProvider;
 
+/** Routing decisions kept for stats */
+const MAX_ROUTING_HISTORY = 50;
+
+/** Rough token count for routing and usage estimates (~4 chars per token) */
+function estimateTokens(text: number | string): number {
+  return Math.ceil((typeof text === 'number' ? text : text.length) / 4);
+}
+
+function promptChars(request: CompletionRequest): number {
+  let chars = request.messages.reduce((n, m) =>
+    n + contentText(m.content).length + imageParts(m.content).length * IMAGE_TOKEN_ESTIMATE * 4, 0);
+  if (request.tools?.length) chars += JSON.stringify(request.tools).length;
+  return chars;
+}
+
 /** Default config when none specified */
 const DEFAULT_CONFIG: LLMRouterConfig = {
   strategy: 'local_first',
@@ -29,11 +46,14 @@ export class LLMRouter {
   private config: LLMRouterConfig;
   private providers: Provider[] = [];
   private healthCheckInterval: ReturnType<typeof setInterval> | null = null;
+  private lastAvailable = new Map<string, boolean>(); // provider → availability at the last check
   private stats = {
     totalRequests: 0,
     totalFallbacks: 0,
     totalErrors: 0,
     byProvider: new Map<string, { requests: number; errors: number; totalLatency: number }>(),
+    routing: [] as RoutingDecision[],
+    routingReasons: new Map<string, number>(),
   };
 
   constructor(config?: Partial<LLMRouterConfig>) {
@@ -101,6 +121,14 @@ export class LLMRouter {
   /** Run health checks on all providers */
   async runHealthChecks(): Promise<void> {
     await Promise.all(this.providers.map(p => p.healthCheck()));
+
+    for (const p of this.providers) {
+      const { name, available, error } = p.getHealth();
+      const before = this.lastAvailable.get(name);
+      this.lastAvailable.set(name, available);
+      if (before === undefined || before === available) continue;
+      emitNodeEvent(available ? 'llm.provider.up' : 'llm.provider.down', { provider: name, error: error ?? null });
+    }
     
     // Broadcast health to dashboard
     broadcastToDashboard({
@@ -124,9 +152,44 @@ export class LLMRouter {
       strategy: this.config.strategy,
       providerCount: this.providers.length,
       byProvider: Object.fromEntries(this.stats.byProvider),
+      routing: {
+        recent: this.stats.routing.slice(-10).reverse(),
+        byReason: Object.fromEntries(this.stats.routingReasons),
+      },
     };
   }
 
+  /** Whether the provider a request would go to first declares a capability (e.g. 'tool_calling') */
+  preferredProviderHas(capability: string, request?: CompletionRequest): boolean {
+    const first = this.orderFor(request ?? { messages: [] }).providers[0];
+    return !!first && !!this.configOf(first)?.capabilities?.includes(capability);
+  }
+
+  /** Context window (tokens) of the provider a request would go to first */
+  contextWindow(request?: CompletionRequest): number {
+    const first = this.orderFor(request ?? { messages: [] }).providers[0];
+    return (first && this.configOf(first)?.maxContext) || 4096;
+  }
+
+  /**
+   * Tokens and dollar cost of a completion, priced from the answering
+   * provider's `pricing` table. Providers that don't report usage get a
+   * rough chars/4 estimate so budgets still bite.
+   */
+  usageOf(request: CompletionRequest, response: CompletionResponse): LLMUsage {
+    const promptTokens = response.tokensUsed?.prompt ?? estimateTokens(promptChars(request));
+    const completionTokens = response.tokensUsed?.completion
+      ?? estimateTokens((response.content?.length || 0)
+        + response.toolCalls.reduce((n, tc) => n + tc.function.arguments.length, 0));
+
+    const pc = this.config.providers.find(p => p.name === response.provider);
+    const price = pc?.pricing?.[response.model] ?? pc?.pricing?.['*'];
+    const costUsd = price
+      ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+      : 0;
+    return { promptTokens, completionTokens, costUsd };
+  }
+
   /** Check if any provider is available */
   hasAvailableProvider(): boolean {
     return this.providers.some(p => p.getHealth().available);
@@ -138,7 +201,19 @@ export class LLMRouter {
    */
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
     this.stats.totalRequests++;
-    const ordered = this.getProviderOrder();
+    const ordered = this.route(request);
+
+    if (this.visionUnavailable(request, ordered)) {
+      this.stats.totalErrors++;
+      return {
+        content: VISION_UNAVAILABLE,
+        toolCalls: [],
+        finishReason: 'error',
+        provider: 'none',
+        model: 'none',
+        latencyMs: 0,
+      };
+    }
 
     if (ordered.length === 0) {
       return {
@@ -206,82 +281,252 @@ export class LLMRouter {
 
   /**
    * Stream a completion with fallback.
+   * Providers report failures through onError rather than throwing, so each
+   * attempt is wrapped: if a provider fails before emitting its first token
+   * or tool call, the next provider is tried. Once output has reached the
+   * caller there is no mid-stream fallback — the error is passed through.
    */
   async stream(request: CompletionRequest, callbacks: StreamCallback): Promise<void> {
     this.stats.totalRequests++;
-    const ordered = this.getProviderOrder();
+    const ordered = this.route(request);
+
+    if (this.visionUnavailable(request, ordered)) {
+      this.stats.totalErrors++;
+      callbacks.onError(new Error(VISION_UNAVAILABLE));
+      return;
+    }
 
     if (ordered.length === 0) {
       callbacks.onError(new Error('No LLM providers available'));
       return;
     }
 
-    // Try first available provider (no mid-stream fallback)
-    for (const provider of ordered) {
+    let lastError = '';
+    for (let i = 0; i < ordered.length; i++) {
+      const provider = ordered[i];
       const health = provider.getHealth();
-      if (!health.available) continue;
 
+      if (!health.available && i < ordered.length - 1) {
+        // Skip unavailable unless it's our last resort
+        continue;
+      }
+
+      const attempt = { started: false, done: false, error: null as Error | null };
       try {
-        await provider.stream(request, callbacks);
-        const stats = this.stats.byProvider.get(health.name);
-        if (stats) stats.requests++;
-        return;
+        await provider.stream(request, {
+          onToken: (token) => {
+            attempt.started = true;
+            callbacks.onToken(token);
+          },
+          onToolCall: (toolCall) => {
+            attempt.started = true;
+            callbacks.onToolCall?.(toolCall);
+          },
+          onDone: (response) => {
+            attempt.done = true;
+            const stats = this.stats.byProvider.get(health.name);
+            if (stats) {
+              stats.requests++;
+              stats.totalLatency += response.latencyMs;
+            }
+            if (i > 0) {
+              this.stats.totalFallbacks++;
+              addActivity('🔄', `LLM fallback: ${ordered[0].getHealth().name} → ${health.name}`);
+            }
+            callbacks.onDone(response);
+          },
+          onError: (err) => {
+            attempt.error = err;
+          },
+        });
       } catch (err: any) {
-        const stats = this.stats.byProvider.get(health.name);
-        if (stats) stats.errors++;
-        // Try next provider
+        attempt.error = err instanceof Error ? err : new Error(String(err));
       }
+
+      if (attempt.done) return;
+
+      const stats = this.stats.byProvider.get(health.name);
+      if (stats) stats.errors++;
+      lastError = attempt.error?.message || `${health.name} ended stream without a response`;
+
+      if (attempt.started) {
+        // Output already reached the caller — can't switch providers mid-answer
+        this.stats.totalErrors++;
+        callbacks.onError(attempt.error || new Error(lastError));
+        return;
+      }
+      // Nothing emitted yet — try next provider
     }
 
-    callbacks.onError(new Error('All LLM providers failed'));
+    this.stats.totalErrors++;
+    callbacks.onError(new Error(`All LLM providers failed. Last error: ${lastError}`));
+  }
+
+  /** Order providers for a request and record why, for stats */
+  private route(request: CompletionRequest): Provider[] {
+    const { providers, reason, excluded } = this.orderFor(request);
+    const decision: RoutingDecision = {
+      at: new Date().toISOString(),
+      strategy: this.config.strategy,
+      order: providers.map(p => p.getHealth().name),
+      reason,
+      excluded,
+    };
+    this.stats.routing.push(decision);
+    if (this.stats.routing.length > MAX_ROUTING_HISTORY) this.stats.routing.shift();
+    const key = reason.split(':')[0];
+    this.stats.routingReasons.set(key, (this.stats.routingReasons.get(key) || 0) + 1);
+    return providers;
   }
 
-  /** Order providers based on routing strategy */
-  private getProviderOrder(): Provider[] {
-    const available = this.providers.filter(p => p.getHealth().available);
-    const unavailable = this.providers.filter(p => !p.getHealth().available);
+  /** Requests with images go to vision providers only — true if none of those is healthy */
+  private visionUnavailable(request: CompletionRequest, ordered: Provider[]): boolean {
+    return hasImages(request.messages) && !ordered.some(p => p.getHealth().available);
+  }
+
+  /**
+   * Order providers for a request. Requests carrying images are limited to
+   * providers that list 'vision' before the strategy is applied.
+   */
+  private orderFor(request: CompletionRequest): { providers: Provider[]; reason: string; excluded: RoutingDecision['excluded'] } {
+    if (!hasImages(request.messages)) return this.orderByStrategy(request, this.providers);
+
+    const vision = this.providers.filter(p => this.configOf(p)?.capabilities?.includes('vision'));
+    const ordered = this.orderByStrategy(request, vision);
+    return {
+      ...ordered,
+      reason: ordered.providers.length ? `${ordered.reason} (vision only)` : 'vision_unavailable: no vision-capable provider',
+      excluded: [
+        ...this.providers.filter(p => !vision.includes(p)).map(p => ({ provider: p.getHealth().name, why: 'lacks vision' })),
+        ...ordered.excluded,
+      ],
+    };
+  }
+
+  /** Order a set of providers based on routing strategy */
+  private orderByStrategy(request: CompletionRequest, candidates: Provider[]): { providers: Provider[]; reason: string; excluded: RoutingDecision['excluded'] } {
+    const available = candidates.filter(p => p.getHealth().available);
+    const unavailable = candidates.filter(p => !p.getHealth().available);
 
     switch (this.config.strategy) {
       case 'local_only':
         // Only local providers (Ollama, LM Studio), skip cloud entirely
-        return available.filter(p => {
-          const h = p.getHealth();
-          return h.name === 'ollama' || h.name === 'lm_studio' || h.name === 'openai_compat';
-        });
+        return {
+          providers: available.filter(p => this.isLocal(p)),
+          reason: 'local_only: available local providers',
+          excluded: [],
+        };
 
       case 'cloud_only':
         // Only cloud providers
-        return available.filter(p => {
-          const h = p.getHealth();
-          return h.name === 'mybuhdi_cloud' || h.name === 'openai' || h.name === 'openrouter';
-        });
+        return {
+          providers: available.filter(p => {
+            const h = p.getHealth();
+            return h.name === 'mybuhdi_cloud' || h.name === 'openai' || h.name === 'openrouter';
+          }),
+          reason: 'cloud_only: available cloud providers',
+          excluded: [],
+        };
 
       case 'local_first':
         // Sort: local available first, then cloud available, then unavailable as last resort
-        return [
-          ...available.filter(p => this.isLocal(p)),
-          ...available.filter(p => !this.isLocal(p)),
-          ...unavailable.slice(0, 1), // One fallback attempt
-        ];
+        return {
+          providers: [
+            ...available.filter(p => this.isLocal(p)),
+            ...available.filter(p => !this.isLocal(p)),
+            ...unavailable.slice(0, 1), // One fallback attempt
+          ],
+          reason: 'local_first: local before cloud',
+          excluded: [],
+        };
 
       case 'cloud_first':
-        return [
-          ...available.filter(p => !this.isLocal(p)),
-          ...available.filter(p => this.isLocal(p)),
-          ...unavailable.slice(0, 1),
-        ];
+        return {
+          providers: [
+            ...available.filter(p => !this.isLocal(p)),
+            ...available.filter(p => this.isLocal(p)),
+            ...unavailable.slice(0, 1),
+          ],
+          reason: 'cloud_first: cloud before local',
+          excluded: [],
+        };
 
       case 'cost_optimized':
-        // Local is free, cloud costs money — prefer local for simple tasks
-        // (For now, same as local_first. Could add token estimation later.)
-        return [
-          ...available.filter(p => this.isLocal(p)),
-          ...available.filter(p => !this.isLocal(p)),
-        ];
+        return this.costOptimizedOrder(request, available, unavailable);
 
       default:
-        return [...available, ...unavailable.slice(0, 1)];
+        return {
+          providers: [...available, ...unavailable.slice(0, 1)],
+          reason: 'default: configured order',
+          excluded: [],
+        };
+    }
+  }
+
+  /**
+   * Cheapest provider that can actually serve the request: it must declare
+   * every capability the request needs (tool_calling, vision) and its context
+   * window must hold the prompt plus the reply. Ties go to local, then priority.
+   * If nothing fits, every available provider is tried, cheapest first.
+   */
+  private costOptimizedOrder(
+    request: CompletionRequest,
+    available: Provider[],
+    unavailable: Provider[],
+  ): { providers: Provider[]; reason: string; excluded: RoutingDecision['excluded'] } {
+    const promptTokens = estimateTokens(promptChars(request));
+    const replyTokens = request.maxTokens ?? 2048;
+    const needs: string[] = [];
+    if (request.tools?.length) needs.push('tool_calling');
+    if (hasImages(request.messages)) needs.push('vision');
+
+    const excluded: RoutingDecision['excluded'] = [];
+    const fits = (p: Provider): boolean => {
+      const pc = this.configOf(p);
+      const name = p.getHealth().name;
+      const missing = needs.filter(c => !pc?.capabilities?.includes(c));
+      if (missing.length) {
+        excluded.push({ provider: name, why: `lacks ${missing.join(', ')}` });
+        return false;
+      }
+      if (pc?.maxContext && promptTokens + replyTokens > pc.maxContext) {
+        excluded.push({ provider: name, why: `context ${pc.maxContext} < ~${promptTokens + replyTokens} tokens` });
+        return false;
+      }
+      return true;
+    };
+    const cost = (p: Provider): number => {
+      const pc = this.configOf(p);
+      const price = pc?.pricing?.[pc.model] ?? pc?.pricing?.['*'];
+      return price ? (promptTokens * price.input + replyTokens * price.output) / 1_000_000 : 0;
+    };
+    const cheapestFirst = (list: Provider[]) => [...list].sort((a, b) =>
+      cost(a) - cost(b)
+      || Number(this.isLocal(b)) - Number(this.isLocal(a))
+      || (this.configOf(a)?.priority ?? 0) - (this.configOf(b)?.priority ?? 0));
+
+    const need = `~${promptTokens} prompt tokens${needs.length ? `, needs ${needs.join('+')}` : ''}`;
+    const fitting = cheapestFirst(available.filter(fits));
+    if (fitting.length === 0) {
+      return {
+        providers: cheapestFirst(available),
+        reason: `cost_optimized_no_fit: no provider fits (${need}); trying cheapest available`,
+        excluded,
+      };
     }
+
+    const first = fitting[0];
+    const firstCost = cost(first);
+    return {
+      providers: [...fitting, ...unavailable.filter(fits).slice(0, 1)],
+      reason: `cost_optimized: ${first.getHealth().name} is cheapest fit (${need}, est. ${firstCost > 0 ? '$' + firstCost.toFixed(4) : 'free'})`,
+      excluded,
+    };
+  }
+
+  private configOf(provider: Provider): LLMProviderConfig | undefined {
+    const name = provider.getHealth().name;
+    return this.config.providers.find(p => p.name === name);
   }
 
   private isLocal(provider: Provider): boolean {
@@ -8,6 +8,9 @@
 /** Max tool calls the LLM can make per turn */
 export const MAX_TOOL_CALLS_PER_TURN = 5;
 
+/** Max tool-calling rounds (call → result → call again) within one chat turn */
+export const MAX_TOOL_ROUNDS_PER_TURN = 4;
+
 /** Max size of tool output sent back to LLM (bytes) */
 export const MAX_TOOL_OUTPUT_SIZE = 4096;
 
@@ -16,6 +16,20 @@ export interface LLMProviderConfig {
   capabilities: string[];      // ['tool_calling', 'vision', 'long_context']
   maxContext: number;           // Token limit
   enabled: boolean;
+  pricing?: Record<string, ModelPricing>; // Keyed by model name; '*' applies to any model. Unpriced = free
+}
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/** Tokens and estimated spend for one or more completions */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
 }
 
 export interface LLMRouterConfig {
@@ -25,10 +39,15 @@ export interface LLMRouterConfig {
   retries: number;             // Per-provider retry count
 }
 
+/** One part of a multi-part message */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }; // data = base64, no data: prefix
+
 /** OpenAI-compatible message format */
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: string | ContentPart[]; // Parts for user messages with images; providers convert to their own format
   name?: string;               // For tool messages
   tool_call_id?: string;       // For tool result messages
   tool_calls?: ToolCall[];     // For assistant tool-calling responses
@@ -71,6 +90,15 @@ export interface CompletionResponse {
   tokensUsed?: { prompt: number; completion: number };
 }
 
+/** Why the router ordered providers the way it did for one request */
+export interface RoutingDecision {
+  at: string;
+  strategy: RoutingStrategy;
+  order: string[];             // Provider names, in the order they'll be tried
+  reason: string;              // '<kind>: <detail>' — stats count by kind
+  excluded: Array<{ provider: string; why: string }>;
+}
+
 export interface ProviderHealth {
   name: string;
   endpoint: string;
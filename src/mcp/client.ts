@@ -0,0 +1,239 @@
+/**
+ * MCP Client — talks to one Model Context Protocol server over stdio.
+ *
+ * The server is a child process; messages are JSON-RPC 2.0, one per line, on
+ * its stdin/stdout. Only the parts a tool host needs are implemented: the
+ * initialize handshake, tools/list (with pagination), tools/call, ping, and
+ * the tools/list_changed notification. The client doesn't restart anything
+ * itself; it emits 'exit' and leaves that to its owner.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+const INIT_TIMEOUT_MS = 30_000;
+const DEFAULT_CALL_TIMEOUT_MS = 60_000;
+const MAX_STDERR_LINES = 20;
+const MAX_LINE_CHARS = 10 * 1024 * 1024;
+/** tools/list pages followed before giving up on a server that keeps paging */
+const MAX_TOOL_PAGES = 50;
+
+/** Environment passed through to servers; anything else must be configured */
+const INHERITED_ENV = ['PATH', 'HOME', 'USER', 'USERNAME', 'LANG', 'LC_ALL', 'TMPDIR', 'TEMP', 'TMP', 'SHELL',
+  'SystemRoot', 'APPDATA', 'LOCALAPPDATA', 'USERPROFILE', 'PROGRAMFILES', 'HOMEDRIVE', 'HOMEPATH', 'ComSpec', 'PATHEXT'];
+
+export interface McpServerSpec {
+  name: string;
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/** A tool as listed by the server */
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: { type: 'object'; properties?: Record<string, any>; required?: string[] };
+  annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean; title?: string };
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string; mimeType?: string };
+  [key: string]: unknown;
+}
+
+export interface McpCallResult {
+  content: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class McpClient extends EventEmitter {
+  private child: ChildProcess | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private buffer = '';
+  private stderr: string[] = [];
+  private stopping = false;
+  serverInfo: { name?: string; version?: string } = {};
+
+  constructor(readonly spec: McpServerSpec) {
+    super();
+  }
+
+  get running(): boolean {
+    return !!this.child && this.child.exitCode === null && !this.child.killed;
+  }
+
+  /** Spawn the server and complete the initialize handshake */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.stopping = false;
+    this.buffer = '';
+    this.stderr = [];
+
+    const env: Record<string, string> = {};
+    for (const key of INHERITED_ENV) {
+      if (process.env[key]) env[key] = process.env[key]!;
+    }
+    Object.assign(env, this.spec.env);
+
+    const child = spawn(this.spec.command, this.spec.args || [], {
+      cwd: this.spec.cwd,
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      windowsHide: true,
+      // Windows needs a shell to find npx.cmd and friends
+      shell: process.platform === 'win32',
+    });
+    this.child = child;
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => this.onData(chunk));
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => {
+      for (const line of chunk.split('\n')) {
+        if (!line.trim()) continue;
+        this.stderr.push(line);
+        if (this.stderr.length > MAX_STDERR_LINES) this.stderr.shift();
+      }
+    });
+    child.stdin!.on('error', () => { /* surfaces as exit */ });
+    child.on('error', (err) => this.onExit(child, null, err.message));
+    child.on('exit', (code, signal) => this.onExit(child, code, signal ? `signal ${signal}` : undefined));
+
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'buhdi-node', version: '1' },
+    }, INIT_TIMEOUT_MS);
+    this.serverInfo = result?.serverInfo || {};
+    this.notify('notifications/initialized');
+  }
+
+  /** Every tool the server offers, across pages */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      if (++pages > MAX_TOOL_PAGES) throw new Error(`tools/list returned more than ${MAX_TOOL_PAGES} pages`);
+      const page = await this.request('tools/list', cursor ? { cursor } : {}, INIT_TIMEOUT_MS);
+      tools.push(...(page?.tools || []));
+      cursor = page?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, any>, timeoutMs = DEFAULT_CALL_TIMEOUT_MS): Promise<McpCallResult> {
+    const result = await this.request('tools/call', { name, arguments: args }, timeoutMs);
+    return { content: Array.isArray(result?.content) ? result.content : [], structuredContent: result?.structuredContent, isError: !!result?.isError };
+  }
+
+  /** Stop the server: close stdin, then SIGTERM, then SIGKILL */
+  async stop(): Promise<void> {
+    const child = this.child;
+    if (!child || !this.running) return;
+    this.stopping = true;
+    await new Promise<void>((resolve) => {
+      const kill = setTimeout(() => child.kill('SIGTERM'), 2000);
+      const force = setTimeout(() => { child.kill('SIGKILL'); resolve(); }, 5000);
+      child.once('exit', () => { clearTimeout(kill); clearTimeout(force); resolve(); });
+      child.stdin!.end();
+    });
+  }
+
+  /** The server's recent stderr, for error reports */
+  recentStderr(): string {
+    return this.stderr.join('\n');
+  }
+
+  // ---- JSON-RPC ----
+
+  private request(method: string, params: unknown, timeoutMs: number): Promise<any> {
+    if (!this.running) return Promise.reject(new Error(`MCP server ${this.spec.name} is not running`));
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: 'timeout' });
+        reject(new Error(`MCP server ${this.spec.name} did not answer ${method} within ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: unknown): void {
+    if (this.running) this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  private send(message: object): void {
+    this.child?.stdin?.write(JSON.stringify(message) + '\n');
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line) continue;
+      try {
+        this.onMessage(JSON.parse(line));
+      } catch {
+        // Servers sometimes log to stdout; keep it with stderr
+        this.stderr.push(line.slice(0, 500));
+      }
+    }
+    if (this.buffer.length > MAX_LINE_CHARS) {
+      this.buffer = '';
+      this.stderr.push('stdout message over size limit; stopping server');
+      this.child?.kill('SIGKILL');
+    }
+  }
+
+  private onMessage(msg: any): void {
+    // Response to one of ours
+    if (msg.id !== undefined && msg.method === undefined) {
+      const pending = this.pending.get(msg.id);
+      if (!pending) return;
+      this.pending.delete(msg.id);
+      clearTimeout(pending.timer);
+      if (msg.error) pending.reject(new Error(`MCP error ${msg.error.code}: ${msg.error.message}`));
+      else pending.resolve(msg.result);
+      return;
+    }
+    // Request from the server — we offer no capabilities beyond ping
+    if (msg.id !== undefined) {
+      if (msg.method === 'ping') this.send({ jsonrpc: '2.0', id: msg.id, result: {} });
+      else this.send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not supported: ${msg.method}` } });
+      return;
+    }
+    if (msg.method === 'notifications/tools/list_changed') this.emit('toolsChanged');
+  }
+
+  private onExit(child: ChildProcess, code: number | null, reason?: string): void {
+    // 'error' and 'exit' can both fire; a restarted client has a new child
+    if (this.child !== child) return;
+    this.child = null;
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`MCP server ${this.spec.name} exited (${reason || `exit code ${code}`})`));
+      this.pending.delete(id);
+    }
+    this.emit('exit', { code, reason, expected: this.stopping });
+  }
+}
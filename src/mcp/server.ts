@@ -0,0 +1,517 @@
+/**
+ * MCP Server — the node's tools, memory and agent for other MCP clients.
+ *
+ * Editors and agents on this machine connect over the health server:
+ * Streamable HTTP at POST /mcp, or the older HTTP+SSE transport at
+ * GET /mcp/sse + POST /mcp/messages. `buhdi-node mcp` bridges stdio to the
+ * same endpoint, so every call runs inside the node and approvals show up
+ * in the dashboard as usual.
+ *
+ * Published tools: every ready tool plugin action (toolRegistry), memory
+ * search/context and entity CRUD, and agent_run. Each carries a safety tier;
+ * DELETE and FINANCIAL calls wait for approval like any other caller's.
+ * Memory entities are also published as memory://entities/<id> resources.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { SafetyTier, ParameterSchema } from '../tool-plugins/types';
+import { toolRegistry } from '../tool-plugins/registry';
+import { requiresApproval, requestApproval } from '../tool-plugins/approvals';
+import { addActivity } from '../health';
+import { MCP_PROTOCOL_VERSION } from './client';
+
+const SUPPORTED_VERSIONS = [MCP_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+const SERVER_INFO = { name: 'buhdi-node', version: '0.3.0' };
+const MAX_SESSIONS = 50;
+const SESSION_IDLE_MS = 60 * 60_000;
+const SSE_KEEPALIVE_MS = 25_000;
+const MAX_RESOURCES = 100;
+/** Memory is stored under the local owner, as in the dashboard API */
+const OWNER = 'local';
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const RESOURCE_NOT_FOUND = -32002;
+
+interface RpcError extends Error {
+  code: number;
+}
+
+interface ServerTool {
+  name: string;
+  description: string;
+  inputSchema: ParameterSchema;
+  safety: SafetyTier;
+  run(args: Record<string, any>, session: McpSession): Promise<{ text: string; isError?: boolean }>;
+}
+
+// ---- Session ----
+
+/** One connected client: its negotiated version and name */
+export class McpSession {
+  readonly id = crypto.randomUUID();
+  client: { name?: string; version?: string } = {};
+  lastSeen = Date.now();
+  /** Set for HTTP+SSE sessions: where responses are written */
+  stream: http.ServerResponse | null = null;
+
+  /** Handle one JSON-RPC message; null for notifications and responses */
+  async handle(msg: any): Promise<object | null> {
+    this.lastSeen = Date.now();
+    if (!msg || typeof msg !== 'object' || msg.jsonrpc !== '2.0') {
+      return errorResponse(msg?.id ?? null, INVALID_REQUEST, 'Invalid JSON-RPC message');
+    }
+    // Notifications and responses to requests we never send
+    if (msg.id === undefined || msg.method === undefined) return null;
+    try {
+      return { jsonrpc: '2.0', id: msg.id, result: await this.dispatch(msg.method, msg.params || {}) };
+    } catch (err: any) {
+      return errorResponse(msg.id, typeof err.code === 'number' ? err.code : -32603, err.message);
+    }
+  }
+
+  private async dispatch(method: string, params: any): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        this.client = params.clientInfo || {};
+        const requested = String(params.protocolVersion || '');
+        return {
+          protocolVersion: SUPPORTED_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: false }, resources: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions: 'Tools, memory and agent of the local Buhdi node. Destructive and financial tools wait for the user to approve them in the Buhdi dashboard.',
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: listTools().map(t => ({
+            name: t.name,
+            description: t.description,
+            inputSchema: t.inputSchema,
+            annotations: {
+              readOnlyHint: t.safety === SafetyTier.READ,
+              destructiveHint: t.safety !== SafetyTier.READ && t.safety !== SafetyTier.WRITE,
+            },
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(String(params.name || ''), params.arguments || {});
+      case 'resources/list':
+        return { resources: listEntityResources() };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: [{
+            uriTemplate: 'memory://entities/{id}',
+            name: 'Memory entity',
+            description: 'An entity from the knowledge graph, with its facts and relationships',
+            mimeType: 'application/json',
+          }],
+        };
+      case 'resources/read':
+        return { contents: [readEntityResource(String(params.uri || ''))] };
+      default:
+        throw rpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(name: string, args: Record<string, any>): Promise<object> {
+    const tool = listTools().find(t => t.name === name);
+    if (!tool) throw rpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    if (typeof args !== 'object' || Array.isArray(args)) throw rpcError(INVALID_PARAMS, 'arguments must be an object');
+    for (const param of tool.inputSchema.required || []) {
+      if (args[param] === undefined || args[param] === null || args[param] === '') {
+        return { content: [{ type: 'text', text: `Missing required argument: ${param}` }], isError: true };
+      }
+    }
+    try {
+      const result = await tool.run(args, this);
+      return { content: [{ type: 'text', text: result.text }], isError: !!result.isError };
+    } catch (err: any) {
+      return { content: [{ type: 'text', text: err.message }], isError: true };
+    }
+  }
+
+  /** Approval context for calls made through this session */
+  context(): { source: string; ref?: string } {
+    return { source: 'mcp', ref: this.client.name };
+  }
+}
+
+// ---- Tools ----
+
+function listTools(): ServerTool[] {
+  const tools: ServerTool[] = [...memoryTools(), agentTool];
+  const taken = new Set(tools.map(t => t.name));
+
+  for (const schema of toolRegistry.getLLMToolSchemas()) {
+    const name = schema.function.name;
+    const found = toolRegistry.findAction(name);
+    if (!found || taken.has(name)) continue;
+    tools.push({
+      name,
+      description: schema.function.description,
+      inputSchema: schema.function.parameters,
+      safety: found.action.safety,
+      // The registry applies safety tiers, approvals and rate limits
+      run: async (args, session) => {
+        const result = await toolRegistry.execute(found.plugin.name, found.action.name, args, session.context());
+        return { text: result.output, isError: !result.success };
+      },
+    });
+  }
+  return tools;
+}
+
+/** Ask for approval the way the registry does, for tools that aren't plugin actions */
+async function approve(tool: string, safety: SafetyTier, args: Record<string, any>, session: McpSession): Promise<void> {
+  if (!requiresApproval(safety)) return;
+  const [group, ...rest] = tool.split('_');
+  const decision = await requestApproval(group, rest.join('_'), args, safety, session.context());
+  if (!decision.approved) {
+    throw new Error(decision.reason === 'timeout' ? `${tool} was not approved in time and did not run` : `${tool} was denied by the user and did not run`);
+  }
+}
+
+function memory(): any {
+  const mem = require('../memory');
+  if (!mem.isMemoryInitialized()) throw new Error('Memory is not initialized on this node');
+  return mem;
+}
+
+const str = (description: string) => ({ type: 'string', description });
+const num = (description: string) => ({ type: 'number', description });
+const searchMode = { type: 'string', description: 'Search mode', enum: ['lexical', 'vector', 'hybrid'], default: 'hybrid' };
+
+function memoryTools(): ServerTool[] {
+  const tool = (def: Omit<ServerTool, 'run'>, run: (args: Record<string, any>) => Promise<any>): ServerTool => ({
+    ...def,
+    run: async (args, session) => {
+      await approve(def.name, def.safety, args, session);
+      const result = await run(args);
+      return { text: typeof result === 'string' ? result : JSON.stringify(result, null, 2) };
+    },
+  });
+
+  return [
+    tool({
+      name: 'memory_search',
+      description: 'Search the knowledge graph (entities, facts, insights) by meaning and keywords',
+      inputSchema: { type: 'object', properties: { query: str('What to look for'), limit: num('Max results (default 10, max 50)'), mode: searchMode }, required: ['query'] },
+      safety: SafetyTier.READ,
+    }, async (a) => memory().semanticSearch(String(a.query), { limit: clamp(a.limit, 10, 50), mode: mode(a.mode) })),
+
+    tool({
+      name: 'memory_context',
+      description: 'Get the entities and insights most relevant to a topic, for use as context',
+      inputSchema: { type: 'object', properties: { query: str('Topic'), limit: num('Max entities (default 5, max 20)'), mode: searchMode }, required: ['query'] },
+      safety: SafetyTier.READ,
+    }, async (a) => memory().contextSearch(String(a.query), { limit: clamp(a.limit, 5, 20), mode: mode(a.mode) })),
+
+    tool({
+      name: 'memory_list_entities',
+      description: 'List entities in the knowledge graph, optionally filtered by name',
+      inputSchema: { type: 'object', properties: { query: str('Name filter'), limit: num('Max results (default 50, max 200)') } },
+      safety: SafetyTier.READ,
+    }, async (a) => memory().listEntities(OWNER, a.query ? String(a.query) : undefined, clamp(a.limit, 50, 200), 0)),
+
+    tool({
+      name: 'memory_get_entity',
+      description: 'Get an entity with its facts and relationships',
+      inputSchema: { type: 'object', properties: { id: str('Entity id') }, required: ['id'] },
+      safety: SafetyTier.READ,
+    }, async (a) => {
+      const entity = memory().getEntity(String(a.id));
+      if (!entity) throw new Error(`No entity ${a.id}`);
+      return entity;
+    }),
+
+    tool({
+      name: 'memory_create_entity',
+      description: 'Add an entity (person, project, place, ...) to the knowledge graph',
+      inputSchema: { type: 'object', properties: { name: str('Name'), type: str('Kind of entity'), description: str('Description') }, required: ['name'] },
+      safety: SafetyTier.WRITE,
+    }, async (a) => {
+      checkLength(a.name, 'name', 500);
+      checkLength(a.description, 'description', 5000);
+      const mem = memory();
+      const entity = mem.createEntity(OWNER, { name: String(a.name), type: a.type ? String(a.type) : undefined, description: a.description ? String(a.description) : undefined });
+      mem.embedEntity(entity.id).catch(() => {});
+      addActivity('🧠', `Memory (MCP): stored entity "${entity.name}"`);
+      return entity;
+    }),
+
+    tool({
+      name: 'memory_update_entity',
+      description: "Change an entity's name, type or description",
+      inputSchema: { type: 'object', properties: { id: str('Entity id'), name: str('New name'), type: str('New type'), description: str('New description') }, required: ['id'] },
+      safety: SafetyTier.WRITE,
+    }, async (a) => {
+      checkLength(a.name, 'name', 500);
+      checkLength(a.description, 'description', 5000);
+      const mem = memory();
+      const input: Record<string, string> = {};
+      for (const key of ['name', 'type', 'description']) if (a[key] !== undefined) input[key] = String(a[key]);
+      const entity = mem.updateEntity(String(a.id), input);
+      if (!entity) throw new Error(`No entity ${a.id}`);
+      mem.embedEntity(entity.id).catch(() => {});
+      return entity;
+    }),
+
+    tool({
+      name: 'memory_delete_entity',
+      description: 'Delete an entity and its facts and relationships',
+      inputSchema: { type: 'object', properties: { id: str('Entity id') }, required: ['id'] },
+      safety: SafetyTier.DELETE,
+    }, async (a) => {
+      if (!memory().deleteEntity(String(a.id))) throw new Error(`No entity ${a.id}`);
+      addActivity('🧠', `Memory (MCP): deleted entity ${a.id}`);
+      return `Deleted entity ${a.id}`;
+    }),
+
+    tool({
+      name: 'memory_add_fact',
+      description: 'Record a fact (key = value) about an entity',
+      inputSchema: { type: 'object', properties: { entity_id: str('Entity id'), key: str('What the fact is about'), value: str('The fact') }, required: ['entity_id', 'key', 'value'] },
+      safety: SafetyTier.WRITE,
+    }, async (a) => {
+      checkLength(a.key, 'key', 500);
+      checkLength(a.value, 'value', 10000);
+      const mem = memory();
+      const entity = mem.getEntity(String(a.entity_id));
+      if (!entity) throw new Error(`No entity ${a.entity_id}`);
+      const fact = mem.createFact(OWNER, { entity_id: entity.id, key: String(a.key), value: String(a.value), source: 'mcp' });
+      mem.storeEmbedding('facts', fact.id, `${entity.name}: ${fact.key} = ${fact.value}`).catch(() => {});
+      return fact;
+    }),
+  ];
+}
+
+const agentTool: ServerTool = {
+  name: 'agent_run',
+  description: "Give Buhdi's agent a goal to work on with its own tools and memory; returns its final answer",
+  inputSchema: {
+    type: 'object',
+    properties: { goal: str('What the agent should do'), max_steps: num('Step limit (default from config)') },
+    required: ['goal'],
+  },
+  safety: SafetyTier.WRITE,
+  run: async (args, session) => {
+    const { runAgent } = require('../agent');
+    const config = args.max_steps ? { maxSteps: Number(args.max_steps) } : undefined;
+    // The agent's own tool calls go through the registry's approval rules
+    const run = await runAgent(String(args.goal), config, undefined, session.context());
+    if (run.status === 'completed') return { text: run.result || '(no answer)' };
+    return { text: `Agent run ${run.id} ended ${run.status}${run.error ? `: ${run.error}` : ''}${run.result ? `\n\n${run.result}` : ''}`, isError: true };
+  },
+};
+
+// ---- Resources ----
+
+function listEntityResources(): object[] {
+  const mem = require('../memory');
+  if (!mem.isMemoryInitialized()) return [];
+  return mem.listEntities(OWNER, undefined, MAX_RESOURCES, 0).map((e: any) => ({
+    uri: `memory://entities/${e.id}`,
+    name: e.name,
+    description: e.description || e.type || undefined,
+    mimeType: 'application/json',
+  }));
+}
+
+function readEntityResource(uri: string): object {
+  const match = /^memory:\/\/entities\/([^/?#]+)$/.exec(uri);
+  const entity = match && require('../memory').isMemoryInitialized() ? memory().getEntity(decodeURIComponent(match[1])) : null;
+  if (!entity) throw rpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  return { uri, mimeType: 'application/json', text: JSON.stringify(entity, null, 2) };
+}
+
+// ---- HTTP transports ----
+
+const sessions = new Map<string, McpSession>();
+
+function newSession(): McpSession {
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  for (const [id, session] of sessions) {
+    if (session.lastSeen < cutoff && !session.stream) sessions.delete(id);
+  }
+  if (sessions.size >= MAX_SESSIONS) {
+    // Drop the longest-idle session without an open stream
+    const idle = Array.from(sessions.values()).filter(s => !s.stream).sort((a, b) => a.lastSeen - b.lastSeen)[0];
+    if (idle) sessions.delete(idle.id);
+  }
+  const session = new McpSession();
+  sessions.set(session.id, session);
+  return session;
+}
+
+/**
+ * Streamable HTTP: one JSON-RPC message (or batch) per POST, answered with
+ * JSON. The session id is handed out on initialize as Mcp-Session-Id.
+ */
+export async function handleMcpPost(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+  let msg: any;
+  try {
+    msg = JSON.parse(body);
+  } catch {
+    return sendJson(res, 400, errorResponse(null, PARSE_ERROR, 'Parse error'));
+  }
+
+  const header = req.headers['mcp-session-id'];
+  let session = typeof header === 'string' ? sessions.get(header) : undefined;
+  const messages = Array.isArray(msg) ? msg : [msg];
+  if (!session) {
+    if (typeof header === 'string') return sendJson(res, 404, errorResponse(null, INVALID_REQUEST, 'Unknown session; initialize again'));
+    if (!messages.some(m => m?.method === 'initialize')) return sendJson(res, 400, errorResponse(null, INVALID_REQUEST, 'Missing Mcp-Session-Id header'));
+    session = newSession();
+  }
+
+  const responses = (await Promise.all(messages.map(m => session!.handle(m)))).filter(Boolean);
+  res.setHeader('Mcp-Session-Id', session.id);
+  if (responses.length === 0) {
+    res.writeHead(202);
+    res.end();
+    return;
+  }
+  sendJson(res, 200, Array.isArray(msg) ? responses : responses[0]);
+}
+
+/** Streamable HTTP: the client ends its session */
+export function handleMcpDelete(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const header = req.headers['mcp-session-id'];
+  const found = typeof header === 'string' && sessions.delete(header);
+  res.writeHead(found ? 204 : 404);
+  res.end();
+}
+
+/**
+ * HTTP+SSE (2024-11-05 transport): GET opens the event stream and names the
+ * endpoint to POST messages to; responses come back as 'message' events.
+ */
+export function openMcpSseStream(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const session = newSession();
+  session.stream = res;
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  res.write(`event: endpoint\ndata: /mcp/messages?sessionId=${session.id}\n\n`);
+
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepalive);
+    sessions.delete(session.id);
+  });
+}
+
+export async function handleMcpSseMessage(res: http.ServerResponse, sessionId: string, body: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session?.stream) return sendJson(res, 404, { error: 'Unknown session' });
+  let msg: any;
+  try {
+    msg = JSON.parse(body);
+  } catch {
+    return sendJson(res, 400, { error: 'Parse error' });
+  }
+  res.writeHead(202);
+  res.end();
+  const response = await session.handle(msg);
+  if (response && !session.stream.writableEnded) session.stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+}
+
+// ---- stdio bridge ----
+
+/**
+ * `buhdi-node mcp`: relay MCP over stdio to the running node's /mcp
+ * endpoint. stdout carries protocol messages only; notes go to stderr.
+ */
+export function bridgeStdioToNode(port: number, token?: string): void {
+  const endpoint = `http://127.0.0.1:${port}/mcp`;
+  let sessionId: string | null = null;
+  let buffer = '';
+  let inFlight = 0;
+  let ended = false;
+  const write = (message: object) => process.stdout.write(JSON.stringify(message) + '\n');
+
+  const relay = async (line: string) => {
+    let msg: any;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      return write(errorResponse(null, PARSE_ERROR, 'Parse error'));
+    }
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+        },
+        body: line,
+      });
+      sessionId = res.headers.get('mcp-session-id') || sessionId;
+      if (res.status === 202) return;
+      const text = await res.text();
+      if (res.status === 401) throw new Error('Unauthorized (dashboard token mismatch)');
+      if (text) write(JSON.parse(text));
+    } catch (err: any) {
+      const reason = err.cause?.code === 'ECONNREFUSED' ? `Buhdi node is not running on port ${port}` : err.message;
+      process.stderr.write(`buhdi-node mcp: ${reason}\n`);
+      if (msg?.id !== undefined) write(errorResponse(msg.id, -32000, reason));
+    }
+  };
+
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      // Calls run side by side, so a slow agent run doesn't hold up a ping
+      if (!line) continue;
+      inFlight++;
+      relay(line).finally(() => {
+        if (--inFlight === 0 && ended) process.exit(0);
+      });
+    }
+  });
+  // Answer what's in flight before leaving
+  process.stdin.on('end', () => {
+    ended = true;
+    if (inFlight === 0) process.exit(0);
+  });
+  process.stderr.write(`buhdi-node mcp: relaying to ${endpoint}\n`);
+}
+
+// ---- Helpers ----
+
+function rpcError(code: number, message: string): RpcError {
+  return Object.assign(new Error(message), { code });
+}
+
+function errorResponse(id: unknown, code: number, message: string): object {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+function clamp(value: any, fallback: number, max: number): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+function mode(value: any): 'lexical' | 'vector' | 'hybrid' {
+  return ['lexical', 'vector', 'hybrid'].includes(value) ? value : 'hybrid';
+}
+
+function checkLength(value: any, what: string, max: number): void {
+  if (value !== undefined && String(value).length > max) throw new Error(`${what} too long (max ${max})`);
+}
@@ -0,0 +1,349 @@
+/**
+ * ANN Index — Approximate nearest-neighbour search over memory embeddings.
+ *
+ * IVF (inverted file) layout: embeddings are clustered with spherical k-means
+ * and each cluster keeps the ids of its members. A query only scores rows in
+ * the few clusters closest to it, fetching their vectors from SQLite — so the
+ * index itself holds just centroids + id lists, never the vectors.
+ *
+ * Persisted as JSON next to memory.db. Small memories (< ANN_MIN_ROWS) skip
+ * the index entirely; exact brute-force search is fast enough there. A saved
+ * index that no longer matches the table (e.g. rows added inside the save
+ * debounce before a crash) is dropped on load and rebuilt.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDb } from './database';
+import { AnnIndexStatus } from './types';
+
+/** Below this many embeddings, exact scan wins — no index is built */
+export const ANN_MIN_ROWS = 5000;
+
+const INDEX_VERSION = 1;
+const KMEANS_ITERATIONS = 8;
+const TRAIN_SAMPLES_PER_LIST = 40;
+const YIELD_EVERY = 500;         // Rows per page / between event-loop yields during builds
+const SAVE_DEBOUNCE_MS = 2000;
+const REBUILD_GROWTH_FACTOR = 4; // Retrain once the index outgrows its training set this much
+
+interface IndexState {
+  dimensions: number;
+  centroids: Float32Array[];
+  lists: string[][];
+  trainedCount: number;
+  builtAt: string;
+}
+
+let index: IndexState | null = null;
+let listOf = new Map<string, number>(); // embedding id → list number
+let indexPath = '';
+let building = false;
+const addedDuringBuild = new Map<string, Float32Array>(); // replayed once a build swaps in
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ---- Vector helpers ----
+
+function normalize(v: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm);
+  const out = new Float32Array(v.length);
+  if (norm === 0) return out;
+  for (let i = 0; i < v.length; i++) out[i] = v[i] / norm;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+function nearestList(v: Float32Array, centroids: Float32Array[]): number {
+  let best = 0, bestScore = -Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const score = dot(v, centroids[c]);
+    if (score > bestScore) { bestScore = score; best = c; }
+  }
+  return best;
+}
+
+function blobToVector(blob: Buffer): Float32Array {
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+const tick = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * Walk the embeddings table in rowid-keyed pages, yielding to the event loop
+ * between pages. (An open better-sqlite3 iterator would lock the connection.)
+ */
+async function* embeddingPages(): AsyncGenerator<Array<{ rowid: number; id: string; embedding: Buffer }>> {
+  const stmt = getDb().prepare('SELECT rowid, id, embedding FROM embeddings WHERE rowid > ? ORDER BY rowid LIMIT ?');
+  let after = 0;
+  while (true) {
+    const page = stmt.all(after, YIELD_EVERY) as Array<{ rowid: number; id: string; embedding: Buffer }>;
+    if (page.length === 0) return;
+    yield page;
+    after = page[page.length - 1].rowid;
+    await tick();
+  }
+}
+
+// ---- Persistence ----
+
+/** Load the index stored next to the database (if any) */
+export function loadAnnIndex(dbPath: string): void {
+  indexPath = path.join(path.dirname(dbPath), path.basename(dbPath, path.extname(dbPath)) + '.ann.json');
+  index = null;
+  listOf = new Map();
+
+  try {
+    if (!fs.existsSync(indexPath)) return;
+    const raw = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    if (raw.version !== INDEX_VERSION) return;
+
+    const flat = new Float32Array(new Uint8Array(Buffer.from(raw.centroids, 'base64')).buffer);
+    const centroids: Float32Array[] = [];
+    for (let c = 0; c < raw.lists.length; c++) {
+      centroids.push(flat.slice(c * raw.dimensions, (c + 1) * raw.dimensions));
+    }
+    index = {
+      dimensions: raw.dimensions,
+      centroids,
+      lists: raw.lists,
+      trainedCount: raw.trainedCount,
+      builtAt: raw.builtAt,
+    };
+    index.lists.forEach((ids, n) => ids.forEach(id => listOf.set(id, n)));
+
+    const rows = (getDb().prepare('SELECT COUNT(*) as c FROM embeddings WHERE dimensions = ?')
+      .get(index.dimensions) as { c: number }).c;
+    if (rows !== listOf.size) {
+      console.warn(`[memory] ANN index is stale (${listOf.size} indexed, ${rows} stored), rebuilding`);
+      index = null;
+      listOf = new Map();
+      return;
+    }
+    console.log(`[memory] ANN index loaded: ${listOf.size} vectors in ${centroids.length} lists`);
+  } catch (err) {
+    console.warn('[memory] ANN index unreadable, falling back to exact search:', (err as Error).message);
+    index = null;
+    listOf = new Map();
+  }
+}
+
+function writeIndex(): void {
+  if (!indexPath) return;
+  try {
+    if (!index) {
+      if (fs.existsSync(indexPath)) fs.unlinkSync(indexPath);
+      return;
+    }
+    const flat = new Float32Array(index.centroids.length * index.dimensions);
+    index.centroids.forEach((c, n) => flat.set(c, n * index!.dimensions));
+    const data = {
+      version: INDEX_VERSION,
+      dimensions: index.dimensions,
+      trainedCount: index.trainedCount,
+      builtAt: index.builtAt,
+      centroids: Buffer.from(flat.buffer).toString('base64'),
+      lists: index.lists,
+    };
+    const tmp = indexPath + '.tmp';
+    fs.writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+    fs.renameSync(tmp, indexPath);
+  } catch (err) {
+    console.error('[memory] Failed to save ANN index:', (err as Error).message);
+  }
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => { saveTimer = null; writeIndex(); }, SAVE_DEBOUNCE_MS);
+}
+
+/** Write any pending index changes to disk now */
+export function flushAnnIndex(): void {
+  if (saveTimer) { clearTimeout(saveTimer); saveTimer = null; }
+  writeIndex();
+}
+
+// ---- Build ----
+
+/**
+ * (Re)build the index from every row in the embeddings table.
+ * Trains centroids on a reservoir sample, then assigns all rows. Yields to
+ * the event loop while working so the node stays responsive on big memories.
+ */
+export async function buildAnnIndex(): Promise<AnnIndexStatus> {
+  if (building) return getAnnStatus();
+  building = true;
+  try {
+    await trainAndAssign();
+  } finally {
+    building = false;
+    addedDuringBuild.clear();
+  }
+  return getAnnStatus();
+}
+
+/** Train centroids on a sample, then assign every row (callers hold the building flag) */
+async function trainAndAssign(): Promise<void> {
+  const d = getDb();
+  const total = (d.prepare('SELECT COUNT(*) as c FROM embeddings').get() as { c: number }).c;
+
+  if (total < ANN_MIN_ROWS) {
+    index = null;
+    listOf = new Map();
+    flushAnnIndex();
+    return;
+  }
+
+  // Most common dimensionality wins — rows from an older embedding model are skipped
+  const dimRow = d.prepare(
+    'SELECT dimensions, COUNT(*) as c FROM embeddings GROUP BY dimensions ORDER BY c DESC LIMIT 1'
+  ).get() as { dimensions: number };
+  const nlist = Math.min(1024, Math.max(16, Math.round(Math.sqrt(total))));
+  const sampleSize = Math.min(total, nlist * TRAIN_SAMPLES_PER_LIST);
+
+  // Reservoir-sample training vectors
+  const sample: Float32Array[] = [];
+  let seen = 0;
+  for await (const page of embeddingPages()) {
+    for (const row of page) {
+      const v = blobToVector(row.embedding);
+      if (v.length !== dimRow.dimensions) continue;
+      seen++;
+      if (sample.length < sampleSize) {
+        sample.push(normalize(v));
+      } else {
+        const j = Math.floor(Math.random() * seen);
+        if (j < sampleSize) sample[j] = normalize(v);
+      }
+    }
+  }
+
+  // Spherical k-means on the sample
+  let centroids: Float32Array[] = sample.slice(0, nlist).map(v => v.slice());
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = centroids.map(() => new Float32Array(dimRow.dimensions));
+    const counts = new Array(centroids.length).fill(0);
+    for (let i = 0; i < sample.length; i++) {
+      const c = nearestList(sample[i], centroids);
+      const s = sums[c];
+      for (let k = 0; k < s.length; k++) s[k] += sample[i][k];
+      counts[c]++;
+      if (i % YIELD_EVERY === 0) await tick();
+    }
+    centroids = sums.map((s, c) => counts[c] > 0 ? normalize(s) : centroids[c]);
+  }
+
+  // Assign every row
+  const lists: string[][] = centroids.map(() => []);
+  const nextListOf = new Map<string, number>();
+  let assigned = 0;
+  for await (const page of embeddingPages()) {
+    for (const row of page) {
+      const v = blobToVector(row.embedding);
+      if (v.length !== dimRow.dimensions) continue;
+      const c = nearestList(normalize(v), centroids);
+      lists[c].push(row.id);
+      nextListOf.set(row.id, c);
+      assigned++;
+    }
+  }
+
+  index = {
+    dimensions: dimRow.dimensions,
+    centroids,
+    lists,
+    trainedCount: assigned,
+    builtAt: new Date().toISOString(),
+  };
+  listOf = nextListOf;
+  for (const [id, vector] of addedDuringBuild) addToIndex(id, vector);
+  addedDuringBuild.clear();
+  flushAnnIndex();
+  console.log(`[memory] ANN index built: ${assigned} vectors in ${centroids.length} lists`);
+}
+
+// ---- Incremental updates ----
+
+function addToIndex(id: string, vector: Float32Array): void {
+  if (!index || vector.length !== index.dimensions) return;
+  annRemove([id]);
+  const c = nearestList(normalize(vector), index.centroids);
+  index.lists[c].push(id);
+  listOf.set(id, c);
+  scheduleSave();
+}
+
+/** Add (or move) one embedding in the index, building it once the table reaches ANN_MIN_ROWS */
+export function annAdd(id: string, vector: Float32Array): void {
+  if (building) addedDuringBuild.set(id, vector);
+  addToIndex(id, vector);
+  if (!index) {
+    // Below the threshold the table is small, so counting it is cheap
+    if (!building && (getDb().prepare('SELECT COUNT(*) as c FROM embeddings').get() as { c: number }).c >= ANN_MIN_ROWS) {
+      buildAnnIndex().catch(err => console.error('[memory] ANN index build failed:', err.message));
+    }
+    return;
+  }
+
+  if (!building && listOf.size > index.trainedCount * REBUILD_GROWTH_FACTOR) {
+    buildAnnIndex().catch(err => console.error('[memory] ANN rebuild failed:', err.message));
+  }
+}
+
+/** Drop embeddings from the index */
+export function annRemove(ids: string[]): void {
+  for (const id of ids) addedDuringBuild.delete(id);
+  if (!index) return;
+  let changed = false;
+  for (const id of ids) {
+    const c = listOf.get(id);
+    if (c === undefined) continue;
+    const list = index.lists[c];
+    const pos = list.indexOf(id);
+    if (pos !== -1) list.splice(pos, 1);
+    listOf.delete(id);
+    changed = true;
+  }
+  if (changed) scheduleSave();
+}
+
+// ---- Query ----
+
+/**
+ * Candidate embedding ids for a query, from the nprobe closest lists.
+ * Returns null when the index can't answer (not built, or dimensions differ) —
+ * callers should then do an exact scan.
+ */
+export function annCandidates(query: Float32Array, nprobe?: number): string[] | null {
+  if (!index || query.length !== index.dimensions) return null;
+
+  const q = normalize(query);
+  const probes = Math.min(index.centroids.length, nprobe ?? Math.max(4, Math.ceil(index.centroids.length * 0.05)));
+  const ranked = index.centroids
+    .map((c, n) => ({ n, score: dot(q, c) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, probes);
+
+  const ids: string[] = [];
+  for (const { n } of ranked) ids.push(...index.lists[n]);
+  return ids;
+}
+
+export function getAnnStatus(): AnnIndexStatus {
+  return {
+    enabled: !!index,
+    building,
+    vectors: listOf.size,
+    lists: index?.centroids.length ?? 0,
+    dimensions: index?.dimensions ?? 0,
+    built_at: index?.builtAt ?? null,
+    path: indexPath || null,
+  };
+}
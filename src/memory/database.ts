@@ -14,6 +14,7 @@ import {
   EntityCreateInput, EntityUpdateInput, FactCreateInput,
   RelationshipCreateInput, InsightCreateInput, WriteJournalEntry,
 } from './types';
+import { emitNodeEvent } from '../events';
 
 let db: Database.Database | null = null;
 
@@ -37,6 +38,7 @@ export function initDatabase(dbPath: string): Database.Database {
   db.pragma('synchronous = NORMAL');
 
   createSchema(db);
+  createFtsSchema(db);
   return db;
 }
 
@@ -138,6 +140,47 @@ function createSchema(d: Database.Database): void {
   `);
 }
 
+/** Full-text columns indexed per source table (FTS5 external-content tables) */
+const FTS_SOURCES: Record<string, string[]> = {
+  entities: ['name', 'type', 'description'],
+  facts: ['key', 'value'],
+  insights: ['content'],
+};
+
+/**
+ * FTS5 indexes over entities, facts and insights. Triggers keep them in step
+ * with every insert/update/delete — including cascaded fact deletes — so the
+ * CRUD functions below don't need to touch them. Pre-existing rows are
+ * indexed once when the tables are first created.
+ */
+function createFtsSchema(d: Database.Database): void {
+  for (const [table, cols] of Object.entries(FTS_SOURCES)) {
+    const fts = `${table}_fts`;
+    const exists = d.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(fts);
+    const colList = cols.join(', ');
+    const newVals = cols.map(c => `new.${c}`).join(', ');
+    const oldVals = cols.map(c => `old.${c}`).join(', ');
+
+    d.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(
+        ${colList}, content='${table}', tokenize='unicode61 remove_diacritics 2'
+      );
+      CREATE TRIGGER IF NOT EXISTS ${fts}_ai AFTER INSERT ON ${table} BEGIN
+        INSERT INTO ${fts}(rowid, ${colList}) VALUES (new.rowid, ${newVals});
+      END;
+      CREATE TRIGGER IF NOT EXISTS ${fts}_ad AFTER DELETE ON ${table} BEGIN
+        INSERT INTO ${fts}(${fts}, rowid, ${colList}) VALUES ('delete', old.rowid, ${oldVals});
+      END;
+      CREATE TRIGGER IF NOT EXISTS ${fts}_au AFTER UPDATE ON ${table} BEGIN
+        INSERT INTO ${fts}(${fts}, rowid, ${colList}) VALUES ('delete', old.rowid, ${oldVals});
+        INSERT INTO ${fts}(rowid, ${colList}) VALUES (new.rowid, ${newVals});
+      END;
+    `);
+
+    if (!exists) d.exec(`INSERT INTO ${fts}(${fts}) VALUES ('rebuild')`);
+  }
+}
+
 // ---- Entity CRUD ----
 
 export function createEntity(ownerId: string, input: EntityCreateInput): MemoryEntity {
@@ -165,6 +208,7 @@ export function createEntity(ownerId: string, input: EntityCreateInput): MemoryE
     return d.prepare('SELECT * FROM entities WHERE id = ?').get(id) as MemoryEntity;
   })();
 
+  emitNodeEvent('memory.entity.created', { id, name: entity.name, type: entity.type });
   return entity;
 }
 
@@ -252,6 +296,7 @@ export function createFact(ownerId: string, input: FactCreateInput): MemoryFact
   d.prepare('UPDATE entities SET updated_at = ?, is_dirty = 1 WHERE id = ?').run(ts, input.entity_id);
   journalWrite(d, 'INSERT', 'facts', id, null, input);
 
+  emitNodeEvent('memory.fact.created', { id, entity_id: input.entity_id, key: input.key });
   return d.prepare('SELECT * FROM facts WHERE id = ?').get(id) as MemoryFact;
 }
 
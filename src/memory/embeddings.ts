@@ -3,11 +3,15 @@
  * 
  * Strategy: Use Ollama for embeddings (nomic-embed-text) when available.
  * Embeddings stored as BLOBs in SQLite. Cosine similarity computed in JS.
- * For personal memory volumes (<100K records), this is plenty fast.
+ * Large memories narrow candidates through the IVF index (ann-index.ts);
+ * the exact full scan remains available and is used whenever the index can't answer.
+ * Hybrid search fuses vector hits with FTS5/BM25 keyword hits (lexical.ts).
  */
 
 import { getDb } from './database';
-import { EmbeddingRecord, MemorySearchResult } from './types';
+import { annAdd, annRemove, annCandidates, buildAnnIndex } from './ann-index';
+import { lexicalSearch } from './lexical';
+import { EmbeddingRecord, MemorySearchResult, MemorySearchMode } from './types';
 import * as crypto from 'crypto';
 
 // ---- Configuration ----
@@ -186,11 +190,16 @@ export async function storeEmbedding(
   const id = crypto.randomBytes(16).toString('hex');
 
   // Upsert: delete old embedding for this source, insert new
+  const old = d.prepare('SELECT id FROM embeddings WHERE source_table = ? AND source_id = ?').all(sourceTable, sourceId) as { id: string }[];
   d.prepare('DELETE FROM embeddings WHERE source_table = ? AND source_id = ?').run(sourceTable, sourceId);
   d.prepare(`
     INSERT INTO embeddings (id, source_table, source_id, text, embedding, dimensions, created_at)
     VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(id, sourceTable, sourceId, text, Buffer.from(embedding.buffer), embeddingDimensions, new Date().toISOString());
+  `).run(id, sourceTable, sourceId, text, Buffer.from(embedding.buffer), embedding.length, new Date().toISOString());
+
+  // Keep the ANN index in step
+  annRemove(old.map(r => r.id));
+  annAdd(id, embedding);
 
   return true;
 }
@@ -240,22 +249,92 @@ function cosineSimilarity(a: Float32Array, b: Float32Array): number {
   return denom === 0 ? 0 : dot / denom;
 }
 
+/** Rows for the given embedding ids (chunked to stay under SQLite's variable limit) */
+function fetchEmbeddingRows(d: any, ids: string[], tables?: string[]): any[] {
+  const rows: any[] = [];
+  const tableFilter = tables?.length ? ` AND source_table IN (${tables.map(() => '?').join(',')})` : '';
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    rows.push(...d.prepare(
+      `SELECT * FROM embeddings WHERE id IN (${chunk.map(() => '?').join(',')})${tableFilter}`
+    ).all(...chunk, ...(tables || [])));
+  }
+  return rows;
+}
+
+/** Reciprocal rank fusion constant — damps the weight of top ranks */
+const RRF_K = 60;
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion. Scores are rescaled
+ * so an item ranked first in every list scores 1.
+ */
+function fuseRankings(lists: MemorySearchResult[][], limit: number): MemorySearchResult[] {
+  const fused = new Map<string, { result: MemorySearchResult; score: number }>();
+  for (const list of lists) {
+    list.forEach((result, rank) => {
+      const key = `${result.type}:${result.id}`;
+      const entry = fused.get(key) || { result, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(key, entry);
+    });
+  }
+  const best = lists.length / (RRF_K + 1);
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(e => ({ ...e.result, score: e.score / best }));
+}
+
+/**
+ * Search memory. Modes:
+ * - vector: cosine similarity over embeddings (ANN-narrowed unless exact)
+ * - lexical: FTS5 BM25 keyword match
+ * - hybrid (default): both, merged with reciprocal rank fusion
+ * Without an embedding engine every mode degrades to lexical.
+ */
 export async function semanticSearch(
   query: string,
-  options: { limit?: number; minScore?: number; tables?: string[] } = {}
+  options: { limit?: number; minScore?: number; tables?: string[]; exact?: boolean; mode?: MemorySearchMode } = {}
 ): Promise<MemorySearchResult[]> {
-  const { limit = 10, minScore = 0.3, tables } = options;
+  const { limit = 10, minScore = 0.3, tables, exact = false, mode = 'hybrid' } = options;
+
+  if (mode === 'lexical') return lexicalSearch(query, { limit, tables });
 
   const queryEmbedding = await generateEmbedding(query);
   if (!queryEmbedding) {
-    // Fallback to text search if embeddings unavailable
-    return textFallbackSearch(query, limit);
+    // Fallback to keyword search if embeddings unavailable
+    return lexicalSearch(query, { limit, tables });
   }
 
+  if (mode === 'vector') {
+    return vectorSearch(queryEmbedding, { limit, minScore, tables, exact });
+  }
+
+  // Hybrid: oversample both sides so fusion has something to work with
+  const vector = vectorSearch(queryEmbedding, { limit: limit * 2, minScore, tables, exact });
+  const lexical = lexicalSearch(query, { limit: limit * 2, tables });
+  return fuseRankings([vector, lexical], limit);
+}
+
+function vectorSearch(
+  queryEmbedding: Float32Array,
+  options: { limit: number; minScore: number; tables?: string[]; exact: boolean }
+): MemorySearchResult[] {
+  const { limit, minScore, tables, exact } = options;
   const d = getDb();
   let rows: any[];
 
-  if (tables?.length) {
+  // ANN: only score rows from the nearest IVF lists; exact mode (or no index) scans everything
+  const candidates = exact ? null : annCandidates(queryEmbedding);
+  if (candidates && candidates.length > 0) {
+    rows = fetchEmbeddingRows(d, candidates, tables);
+    if (!tables?.length && rows.length < candidates.length) {
+      // Rows deleted behind the index's back (entity/fact deletes) — drop them
+      const found = new Set(rows.map(r => r.id));
+      annRemove(candidates.filter(id => !found.has(id)));
+    }
+  } else if (tables?.length) {
     const placeholders = tables.map(() => '?').join(',');
     rows = d.prepare(`SELECT * FROM embeddings WHERE source_table IN (${placeholders})`).all(...tables);
   } else {
@@ -289,7 +368,7 @@ export async function semanticSearch(
 
 export async function contextSearch(
   query: string,
-  options: { limit?: number; minScore?: number } = {}
+  options: { limit?: number; minScore?: number; exact?: boolean; mode?: MemorySearchMode } = {}
 ): Promise<{ entities: any[]; insights: any[]; query: string }> {
   const searchResults = await semanticSearch(query, { ...options, limit: 20 });
   const d = getDb();
@@ -330,50 +409,6 @@ export async function contextSearch(
   return { entities, insights, query };
 }
 
-// ---- Text Fallback (when embeddings unavailable) ----
-
-function textFallbackSearch(query: string, limit: number): MemorySearchResult[] {
-  const d = getDb();
-  const pattern = `%${query}%`;
-
-  const entities = d.prepare(`
-    SELECT id, name, type, description FROM entities
-    WHERE name LIKE ? OR description LIKE ?
-    LIMIT ?
-  `).all(pattern, pattern, limit) as any[];
-
-  const facts = d.prepare(`
-    SELECT f.id, f.key, f.value, e.name as entity_name
-    FROM facts f JOIN entities e ON f.entity_id = e.id
-    WHERE f.key LIKE ? OR f.value LIKE ?
-    LIMIT ?
-  `).all(pattern, pattern, limit) as any[];
-
-  const results: MemorySearchResult[] = [];
-
-  for (const e of entities) {
-    results.push({
-      id: e.id,
-      type: 'entity',
-      text: [e.name, e.type, e.description].filter(Boolean).join(' — '),
-      score: 0.5, // Fixed score for text match
-      entity_name: e.name,
-    });
-  }
-
-  for (const f of facts) {
-    results.push({
-      id: f.id,
-      type: 'fact',
-      text: `${f.entity_name}: ${f.key} = ${f.value}`,
-      score: 0.5,
-      entity_name: f.entity_name,
-    });
-  }
-
-  return results.slice(0, limit);
-}
-
 // ---- Helpers ----
 
 function getEntityName(d: any, sourceTable: string, sourceId: string): string | undefined {
@@ -410,5 +445,8 @@ export async function reindexAll(): Promise<{ total: number; embedded: number; e
     } catch { errors++; }
   }
 
+  // Retrain the ANN index on the fresh embeddings
+  await buildAnnIndex();
+
   return { total: entities.length + insights.length, embedded, errors };
 }
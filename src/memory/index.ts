@@ -9,6 +9,7 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import { initDatabase, closeDatabase, getStats, createEntity, createFact, createInsight, listEntities, getDb } from './database';
 import { configureEmbeddings, checkEmbeddingHealth, isEmbeddingAvailable, getEmbeddingProvider } from './embeddings';
+import { loadAnnIndex, buildAnnIndex, flushAnnIndex, getAnnStatus, ANN_MIN_ROWS } from './ann-index';
 import { MemoryConfig, MemoryStatus } from './types';
 
 let initialized = false;
@@ -35,6 +36,12 @@ export async function initMemory(config?: Partial<MemoryConfig>): Promise<void>
   initDatabase(memoryConfig.db_path);
   console.log(`[memory] Database initialized at ${memoryConfig.db_path}`);
 
+  // ANN index lives next to memory.db; build it in the background if memory is big enough but has none
+  loadAnnIndex(memoryConfig.db_path);
+  if (!getAnnStatus().enabled && getStats().embeddings >= ANN_MIN_ROWS) {
+    buildAnnIndex().catch(err => console.error('[memory] ANN index build failed:', err.message));
+  }
+
   // Configure embeddings — supports any provider (Ollama, LM Studio, LocalAI, vLLM, etc.)
   const embConfig = memoryConfig.embedding || {};
   configureEmbeddings({
@@ -87,10 +94,12 @@ export function getMemoryStatus(): MemoryStatus {
     db_size_bytes: dbSize,
     last_mirror_sync: null, // TODO: read from sync_state
     embedding_provider: isEmbeddingAvailable() ? getEmbeddingProvider() : 'none',
+    ann_index: getAnnStatus(),
   };
 }
 
 export function shutdownMemory(): void {
+  flushAnnIndex();
   closeDatabase();
   initialized = false;
 }
@@ -338,4 +347,6 @@ export async function pushToCloud(apiUrl: string, nodeKey: string): Promise<{ sy
 // Re-export everything for clean imports
 export * from './database';
 export * from './embeddings';
+export * from './lexical';
+export { buildAnnIndex, getAnnStatus, ANN_MIN_ROWS } from './ann-index';
 export * from './types';
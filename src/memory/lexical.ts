@@ -0,0 +1,95 @@
+/**
+ * Lexical Search — BM25 keyword matching over the FTS5 memory indexes.
+ *
+ * Catches exact names, emails and identifiers that embeddings blur over,
+ * and is the whole search story when no embedding engine is running.
+ */
+
+import { getDb } from './database';
+import { MemorySearchResult } from './types';
+
+const MAX_TERMS = 32;
+
+/**
+ * Turn free text into a safe FTS5 MATCH expression: every term quoted (so
+ * user input can't inject FTS syntax), OR-ed together, prefix match on the last.
+ */
+export function toFtsQuery(query: string): string | null {
+  const terms = (query.match(/[\p{L}\p{N}_]+/gu) || []).slice(0, MAX_TERMS);
+  if (terms.length === 0) return null;
+  return terms
+    .map((t, i) => `"${t}"${i === terms.length - 1 ? '*' : ''}`)
+    .join(' OR ');
+}
+
+/**
+ * Search entities, facts and insights by keyword. Each hit's score is its
+ * BM25 rank relative to the best hit, so the top result scores 1.
+ */
+export function lexicalSearch(
+  query: string,
+  options: { limit?: number; tables?: string[] } = {}
+): MemorySearchResult[] {
+  const { limit = 10, tables } = options;
+  const match = toFtsQuery(query);
+  if (!match) return [];
+
+  const d = getDb();
+  const want = (t: string) => !tables?.length || tables.includes(t);
+  const hits: Array<MemorySearchResult & { rank: number }> = [];
+
+  if (want('entities')) {
+    // Column weights: name matters most, then type, then description
+    const rows = d.prepare(`
+      SELECT e.id, e.name, e.type, e.description, bm25(entities_fts, 10.0, 2.0, 1.0) AS rank
+      FROM entities_fts JOIN entities e ON e.rowid = entities_fts.rowid
+      WHERE entities_fts MATCH ? ORDER BY rank LIMIT ?
+    `).all(match, limit) as any[];
+    for (const r of rows) {
+      hits.push({
+        id: r.id,
+        type: 'entity',
+        text: [r.name, r.type, r.description].filter(Boolean).join(' — '),
+        score: 0,
+        entity_name: r.name,
+        rank: r.rank,
+      });
+    }
+  }
+
+  if (want('facts')) {
+    const rows = d.prepare(`
+      SELECT f.id, f.key, f.value, e.name AS entity_name, bm25(facts_fts, 2.0, 1.0) AS rank
+      FROM facts_fts
+      JOIN facts f ON f.rowid = facts_fts.rowid
+      JOIN entities e ON e.id = f.entity_id
+      WHERE facts_fts MATCH ? ORDER BY rank LIMIT ?
+    `).all(match, limit) as any[];
+    for (const r of rows) {
+      hits.push({
+        id: r.id,
+        type: 'fact',
+        text: `${r.entity_name}: ${r.key} = ${r.value}`,
+        score: 0,
+        entity_name: r.entity_name,
+        rank: r.rank,
+      });
+    }
+  }
+
+  if (want('insights')) {
+    const rows = d.prepare(`
+      SELECT i.id, i.content, bm25(insights_fts) AS rank
+      FROM insights_fts JOIN insights i ON i.rowid = insights_fts.rowid
+      WHERE insights_fts MATCH ? ORDER BY rank LIMIT ?
+    `).all(match, limit) as any[];
+    for (const r of rows) {
+      hits.push({ id: r.id, type: 'insight', text: r.content, score: 0, rank: r.rank });
+    }
+  }
+
+  // BM25 rank is negative (lower = better) and unbounded; score relative to the best hit
+  hits.sort((a, b) => a.rank - b.rank);
+  const best = Math.min(hits[0]?.rank ?? 0, -1e-9);
+  return hits.slice(0, limit).map(({ rank, ...result }) => ({ ...result, score: Math.min(1, rank / best) }));
+}
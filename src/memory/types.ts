@@ -103,6 +103,9 @@ export interface InsightCreateInput {
   source_refs?: string[];
 }
 
+/** How memory search ranks results — see semanticSearch() */
+export type MemorySearchMode = 'lexical' | 'vector' | 'hybrid';
+
 export interface MemorySearchResult {
   id: string;
   type: 'entity' | 'fact' | 'insight';
@@ -143,6 +146,17 @@ export interface MemoryStatus {
   db_size_bytes: number;
   last_mirror_sync: string | null;
   embedding_provider: string;  // 'ollama' | 'local' | 'none'
+  ann_index?: AnnIndexStatus;
+}
+
+export interface AnnIndexStatus {
+  enabled: boolean;            // false → searches use the exact scan
+  building: boolean;
+  vectors: number;
+  lists: number;
+  dimensions: number;
+  built_at: string | null;
+  path: string | null;
 }
 
 export interface MemoryConfig {
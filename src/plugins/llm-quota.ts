@@ -0,0 +1,76 @@
+/**
+ * Plugin LLM quota — tokens each plugin may spend through buhdi.llm per day
+ *
+ * Usage is kept in the plugin's directory (outside its writable data/), so
+ * restarting the plugin or the node doesn't reset it. The day is local time.
+ * Calls in flight hold a reservation in memory until they settle, so
+ * concurrent calls can't each pass the check against the same balance.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const USAGE_FILE = 'llm-usage.json';
+
+interface DailyUsage {
+  day: string;
+  tokens: number;
+}
+
+export interface LlmReservation {
+  /** Release the hold and record what the call actually spent; later calls are ignored */
+  settle(tokens: number): void;
+}
+
+/** Tokens held by calls in flight, per plugin directory */
+const reserved = new Map<string, number>();
+
+function today(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function usageFile(pluginDir: string): string {
+  return path.join(pluginDir, USAGE_FILE);
+}
+
+/** Tokens spent today */
+export function getLlmUsage(pluginDir: string): number {
+  try {
+    const usage = JSON.parse(fs.readFileSync(usageFile(pluginDir), 'utf8')) as DailyUsage;
+    return usage.day === today() && typeof usage.tokens === 'number' ? usage.tokens : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function recordLlmUsage(pluginDir: string, tokens: number): void {
+  const usage: DailyUsage = { day: today(), tokens: getLlmUsage(pluginDir) + Math.max(0, Math.round(tokens)) };
+  try {
+    fs.writeFileSync(usageFile(pluginDir), JSON.stringify(usage));
+  } catch (err: any) {
+    console.warn(`[plugin-llm] Failed to record usage in ${pluginDir}: ${err.message}`);
+  }
+}
+
+/** Tokens held by this plugin's calls that haven't settled yet */
+export function getReservedLlmTokens(pluginDir: string): number {
+  return reserved.get(pluginDir) || 0;
+}
+
+/** Hold tokens for a call before it's sent; settle it once the call ends, however it ends */
+export function reserveLlmTokens(pluginDir: string, tokens: number): LlmReservation {
+  const held = Math.max(0, Math.round(tokens));
+  reserved.set(pluginDir, getReservedLlmTokens(pluginDir) + held);
+  let settled = false;
+  return {
+    settle(spent: number) {
+      if (settled) return;
+      settled = true;
+      const left = getReservedLlmTokens(pluginDir) - held;
+      if (left > 0) reserved.set(pluginDir, left);
+      else reserved.delete(pluginDir);
+      recordLlmUsage(pluginDir, spent);
+    },
+  };
+}
@@ -16,6 +16,7 @@ import { deletePluginVault } from './plugin-vault';
 import { loadConfig } from '../config';
 import { registerDashboardPlugin, unregisterDashboardPlugin } from '../dashboard';
 import { RunLogger } from './run-logger';
+import { mountSandboxTools } from '../tool-plugins/sandbox-tool';
 
 const PLUGINS_DIR = path.join(os.homedir(), '.buhdi-node', 'plugins');
 const MAX_PLUGINS = 10;
@@ -223,6 +224,8 @@ export class PluginManager {
     const pending = this.pendingPlugins.get(name);
     if (!pending) throw new Error(`No pending plugin: ${name}`);
 
+    // An approved update replaces the running version
+    if (this.sandboxes.has(name)) await this.stopPlugin(name);
     await this.writePluginToDisk(pending.manifest, pending.codeBundle);
     this.pendingPlugins.delete(name);
 
@@ -287,6 +290,11 @@ export class PluginManager {
       info.status = 'running';
       info.error = undefined;
 
+      // Declared actions become tools; calls count toward run logging and self-heal
+      mountSandboxTools(info.manifest, sandbox, (result) => {
+        this.logPluginRun(name, result).catch(() => {});
+      });
+
       // Post-deploy health check: verify plugin survives 5 seconds
       await this.postDeployHealthCheck(name, sandbox);
 
@@ -442,12 +450,11 @@ export class PluginManager {
     logAudit({ action: 'uninstall', toolId: name, version, initiatedBy: 'system' });
   }
 
-  async updatePlugin(name: string, manifest: PluginManifest, codeBundle: string, deployOpts?: DeployOptions): Promise<void> {
+  async updatePlugin(name: string, manifest: PluginManifest, codeBundle: string, deployOpts?: DeployOptions): Promise<DeployResult> {
     const info = this.plugins.get(name);
     if (!info) {
       // Fresh install
-      await this.installPlugin(manifest, codeBundle, deployOpts);
-      return;
+      return this.installPlugin(manifest, codeBundle, deployOpts);
     }
 
     // R2-I1: Defense-in-depth — verify signature on updates when deployOpts provided
@@ -487,6 +494,23 @@ export class PluginManager {
       throw new Error('Update rejected: code must be signed or include a verified hash');
     }
 
+    // New permissions (network hosts, llm, memory, a bigger LLM quota, ...) need approval per trust level
+    const validated = validateManifest(manifest);
+    if (!validated.valid) throw new Error(`Invalid manifest: ${validated.errors.join(', ')}`);
+    const permChanges = detectPermissionChanges(info.manifest, validated.manifest);
+    const trustLevel = this.getTrustLevel();
+    if (!shouldAutoApprove(trustLevel, false, permChanges.hasEscalation)) {
+      this.pendingPlugins.set(name, { manifest: validated.manifest, codeBundle, deployOpts });
+      logAudit({
+        action: 'update',
+        toolId: name,
+        version: validated.manifest.version,
+        initiatedBy: 'cloud',
+        reason: `Pending approval (trust: ${trustLevel}, added: ${permChanges.added.join(', ') || 'none'})`,
+      });
+      return { status: 'pending', message: `Awaiting approval (trust level: ${trustLevel})` };
+    }
+
     const oldVersion = info.version;
     const pluginDir = path.join(PLUGINS_DIR, name);
     const versionsDir = path.join(pluginDir, 'versions');
@@ -514,16 +538,14 @@ export class PluginManager {
     }
 
     // Install new version
-    const result = validateManifest(manifest);
-    if (!result.valid) throw new Error(`Invalid manifest: ${result.errors.join(', ')}`);
+    const newManifest = validated.manifest;
+    await fs.writeFile(path.join(pluginDir, 'manifest.json'), JSON.stringify(newManifest, null, 2));
+    await fs.writeFile(path.join(pluginDir, newManifest.entry), codeBundle);
 
-    await fs.writeFile(path.join(pluginDir, 'manifest.json'), JSON.stringify(result.manifest, null, 2));
-    await fs.writeFile(path.join(pluginDir, result.manifest.entry), codeBundle);
+    info.manifest = newManifest;
+    info.version = newManifest.version;
 
-    info.manifest = result.manifest;
-    info.version = result.manifest.version;
-
-    logAudit({ action: 'update', toolId: name, version: result.manifest.version, initiatedBy: 'cloud' });
+    logAudit({ action: 'update', toolId: name, version: newManifest.version, initiatedBy: 'cloud' });
 
     // Restart if was running
     if (wasRunning) {
@@ -553,6 +575,7 @@ export class PluginManager {
         }
       }
     }
+    return { status: 'installed' };
   }
 
   listPlugins(): PluginInfo[] {
@@ -652,8 +675,21 @@ export class PluginManager {
       // Apply non-redeploy fixes automatically
       for (const fix of diagnosis.fixes ?? []) {
         if (!fix.requiresRedeploy && fix.patchedManifest) {
+          const validated = validateManifest(fix.patchedManifest);
+          if (!validated.valid || validated.manifest.name !== toolName) {
+            logAudit({
+              action: 'error',
+              toolId: toolName,
+              version: info.version,
+              initiatedBy: 'system',
+              reason: `Auto-fix rejected: invalid manifest (${validated.valid ? 'name changed' : validated.errors.join('; ')})`,
+            });
+            continue;
+          }
+          const patchedManifest = validated.manifest;
+
           // F-08: Validate patched manifest doesn't escalate permissions
-          const permChanges = detectPermissionChanges(info.manifest, fix.patchedManifest);
+          const permChanges = detectPermissionChanges(info.manifest, patchedManifest);
           if (permChanges.hasEscalation) {
             logAudit({
               action: 'error',
@@ -669,9 +705,9 @@ export class PluginManager {
           const pluginDir = path.join(PLUGINS_DIR, toolName);
           await fs.writeFile(
             path.join(pluginDir, 'manifest.json'),
-            JSON.stringify(fix.patchedManifest, null, 2)
+            JSON.stringify(patchedManifest, null, 2)
           );
-          info.manifest = fix.patchedManifest;
+          info.manifest = patchedManifest;
 
           logAudit({
             action: 'update',
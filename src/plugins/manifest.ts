@@ -2,6 +2,8 @@
  * Plugin manifest schema, parser, and validator
  */
 
+import { ParameterSchema, SafetyTier } from '../tool-plugins/types';
+
 export interface PluginPermissions {
   network?: string[];         // allowed hostnames/URLs
   filesystem?: string[];      // scoped paths (always restricted to data/)
@@ -10,6 +12,8 @@ export interface PluginPermissions {
   system?: string[];          // system capabilities (e.g. 'notifications')
   schedule?: string[];        // cron expressions or intervals
   read?: string[];            // cross-plugin data read: ["read:other-plugin-name"]
+  llm?: string[];             // buhdi.llm: "complete"
+  memory?: string[];          // buhdi.memory: "read" (search, getEntity), "write" (createFact)
   resources?: PluginResources;
 }
 
@@ -18,6 +22,17 @@ export interface PluginResources {
   maxCpuPercent?: number;     // default 25
   timeoutMs?: number;         // default 30000
   maxDiskMb?: number;         // default 50
+  llmTokensPerDay?: number;   // buhdi.llm quota, default 20000
+}
+
+/** A function the plugin exports on buhdi.actions, callable by the agent and chat */
+export interface PluginActionDef {
+  name: string;               // handler name, e.g. "lookup"
+  description: string;        // what the LLM is told the action does
+  parameters?: ParameterSchema;
+  safety: SafetyTier;         // read | write | delete | financial | admin
+  timeoutMs?: number;         // per call, default resources.timeoutMs
+  rateLimit?: number;         // max calls per minute
 }
 
 export interface PluginManifest {
@@ -32,6 +47,7 @@ export interface PluginManifest {
   description?: string;
   author?: string;
   config?: Record<string, unknown>;
+  actions?: PluginActionDef[];
   codeHash?: string;             // sha256 of code bundle (for verification)
   signature?: string;            // Ed25519 signature (hex)
 }
@@ -47,9 +63,17 @@ export interface PluginInfo {
 
 const REQUIRED_FIELDS: (keyof PluginManifest)[] = ['name', 'version', 'runtime', 'entry', 'permissions'];
 
-const VALID_PERMISSION_CATEGORIES = ['network', 'filesystem', 'vault', 'env', 'system', 'schedule', 'resources', 'read'];
+const VALID_PERMISSION_CATEGORIES = ['network', 'filesystem', 'vault', 'env', 'system', 'schedule', 'resources', 'read', 'llm', 'memory'];
+
+/** Allowed values for the categories that gate node APIs */
+const PERMISSION_VALUES: Record<string, string[]> = {
+  llm: ['complete'],
+  memory: ['read', 'write'],
+};
 
 const NAME_REGEX = /^[a-z0-9][a-z0-9\-_.]{0,63}$/;
+const ACTION_NAME_REGEX = /^[a-z][a-z0-9_]{0,63}$/;
+const MAX_ACTIONS = 32;
 const VERSION_REGEX = /^\d+\.\d+\.\d+/;
 
 export const DEFAULT_RESOURCES: Required<PluginResources> = {
@@ -57,6 +81,7 @@ export const DEFAULT_RESOURCES: Required<PluginResources> = {
   maxCpuPercent: 25,
   timeoutMs: 30000,
   maxDiskMb: 50,
+  llmTokensPerDay: 20000,
 };
 
 export function validateManifest(raw: any): { valid: true; manifest: PluginManifest } | { valid: false; errors: string[] } {
@@ -102,6 +127,13 @@ export function validateManifest(raw: any): { valid: true; manifest: PluginManif
         errors.push(`Unknown permission category: ${key}`);
       }
     }
+    for (const [key, allowed] of Object.entries(PERMISSION_VALUES)) {
+      const values = raw.permissions[key];
+      if (values === undefined) continue;
+      if (!Array.isArray(values) || values.some((v: unknown) => typeof v !== 'string' || !allowed.includes(v))) {
+        errors.push(`permissions.${key} must be a list of: ${allowed.join(', ')}`);
+      }
+    }
   }
 
   if (raw.resources) {
@@ -121,9 +153,16 @@ export function validateManifest(raw: any): { valid: true; manifest: PluginManif
       if (r.maxDiskMb !== undefined && (typeof r.maxDiskMb !== 'number' || r.maxDiskMb < 1 || r.maxDiskMb > 500)) {
         errors.push('resources.maxDiskMb must be 1-500');
       }
+      if (r.llmTokensPerDay !== undefined && (typeof r.llmTokensPerDay !== 'number' || r.llmTokensPerDay < 0 || r.llmTokensPerDay > 1000000)) {
+        errors.push('resources.llmTokensPerDay must be 0-1000000');
+      }
     }
   }
 
+  if (raw.actions !== undefined) {
+    errors.push(...validateActions(raw.actions));
+  }
+
   if (errors.length > 0) return { valid: false, errors };
 
   const manifest: PluginManifest = {
@@ -138,11 +177,52 @@ export function validateManifest(raw: any): { valid: true; manifest: PluginManif
     description: raw.description,
     author: raw.author,
     config: raw.config,
+    actions: raw.actions,
   };
 
   return { valid: true, manifest };
 }
 
+function validateActions(actions: any): string[] {
+  if (!Array.isArray(actions)) return ['actions must be an array'];
+  if (actions.length > MAX_ACTIONS) return [`At most ${MAX_ACTIONS} actions`];
+
+  const errors: string[] = [];
+  const tiers = Object.values(SafetyTier) as string[];
+  const seen = new Set<string>();
+  actions.forEach((a: any, i: number) => {
+    const label = `actions[${i}]`;
+    if (!a || typeof a !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof a.name !== 'string' || !ACTION_NAME_REGEX.test(a.name)) {
+      errors.push(`${label}.name must match ${ACTION_NAME_REGEX}`);
+    } else if (seen.has(a.name)) {
+      errors.push(`Duplicate action: ${a.name}`);
+    } else {
+      seen.add(a.name);
+    }
+    if (typeof a.description !== 'string' || !a.description.trim() || a.description.length > 1000) {
+      errors.push(`${label}.description must be 1-1000 characters`);
+    }
+    if (!tiers.includes(a.safety)) {
+      errors.push(`${label}.safety must be one of: ${tiers.join(', ')}`);
+    }
+    if (a.parameters !== undefined && (typeof a.parameters !== 'object' || a.parameters?.type !== 'object'
+      || typeof a.parameters.properties !== 'object' || Array.isArray(a.parameters.properties))) {
+      errors.push(`${label}.parameters must be a JSON schema with type "object" and properties`);
+    }
+    if (a.timeoutMs !== undefined && (typeof a.timeoutMs !== 'number' || a.timeoutMs < 1000 || a.timeoutMs > 300000)) {
+      errors.push(`${label}.timeoutMs must be 1000-300000`);
+    }
+    if (a.rateLimit !== undefined && (typeof a.rateLimit !== 'number' || a.rateLimit < 0)) {
+      errors.push(`${label}.rateLimit must be a non-negative number`);
+    }
+  });
+  return errors;
+}
+
 export function resolveResources(manifest: PluginManifest): Required<PluginResources> {
   return { ...DEFAULT_RESOURCES, ...manifest.resources };
 }
@@ -1,19 +1,12 @@
 /**
- * Plugin Vault — encrypted-at-rest secret storage for plugins
+ * Plugin Vault — per-plugin secrets, kept in the secret store's `plugin` namespace
  *
- * Each plugin gets an isolated vault at ~/.buhdi-node/plugins/<name>/vault.enc
- * Encryption: AES-256-GCM with PBKDF2-derived key from machine-secret
+ * Each plugin sees only its own secrets, stored as "<plugin>/<key>".
+ * Reads are audited by the secret store under the reader "plugin:<name>".
  * Secrets NEVER appear in logs, errors, or audit trails.
  */
 
-import crypto from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
-
-const PLUGINS_DIR = path.join(os.homedir(), '.buhdi-node', 'plugins');
-const SECRET_FILE = path.join(os.homedir(), '.buhdi', 'machine-secret');
-const PBKDF2_ITERATIONS = 600_000;
+import { secretStore } from '../secret-store';
 
 // C3-M1 fix: Validate plugin names to prevent path traversal
 const SAFE_NAME_RE = /^[a-zA-Z0-9_-]+$/;
@@ -23,64 +16,8 @@ function validatePluginName(name: string): void {
   }
 }
 
-interface EncryptedEntry {
-  iv: string;       // base64
-  authTag: string;  // base64
-  ciphertext: string; // base64
-}
-
-interface VaultData {
-  [key: string]: EncryptedEntry;
-}
-
-/** Get or create the machine secret (same as vault.ts) */
-async function getMachineSecret(): Promise<Buffer> {
-  try {
-    return await fs.readFile(SECRET_FILE);
-  } catch {
-    const secret = crypto.randomBytes(32);
-    await fs.mkdir(path.dirname(SECRET_FILE), { recursive: true });
-    await fs.writeFile(SECRET_FILE, secret, { mode: 0o600 });
-    return secret;
-  }
-}
-
-/** Get or create per-plugin salt */
-async function getPluginSalt(pluginName: string): Promise<Buffer> {
-  const saltFile = path.join(PLUGINS_DIR, pluginName, 'vault.salt');
-  try {
-    return await fs.readFile(saltFile);
-  } catch {
-    const salt = crypto.randomBytes(32);
-    await fs.mkdir(path.dirname(saltFile), { recursive: true });
-    await fs.writeFile(saltFile, salt, { mode: 0o600 });
-    return salt;
-  }
-}
-
-/** Derive encryption key for a plugin's vault */
-async function derivePluginKey(pluginName: string): Promise<Buffer> {
-  const [secret, salt] = await Promise.all([getMachineSecret(), getPluginSalt(pluginName)]);
-  return crypto.pbkdf2Sync(secret, salt, PBKDF2_ITERATIONS, 32, 'sha256');
-}
-
-function vaultPath(pluginName: string): string {
-  return path.join(PLUGINS_DIR, pluginName, 'vault.enc');
-}
-
-async function readVault(pluginName: string): Promise<VaultData> {
-  try {
-    const raw = await fs.readFile(vaultPath(pluginName), 'utf8');
-    return JSON.parse(raw);
-  } catch {
-    return {};
-  }
-}
-
-async function writeVault(pluginName: string, data: VaultData): Promise<void> {
-  const fp = vaultPath(pluginName);
-  await fs.mkdir(path.dirname(fp), { recursive: true });
-  await fs.writeFile(fp, JSON.stringify(data), { mode: 0o600 });
+function entryName(pluginName: string, key: string): string {
+  return `${pluginName}/${key}`;
 }
 
 /**
@@ -96,28 +33,7 @@ export async function getPluginSecret(
   if (!permissions.includes(key) && !permissions.includes('*')) {
     return null;
   }
-
-  const vault = await readVault(pluginName);
-  const entry = vault[key];
-  if (!entry) return null;
-
-  try {
-    const derivedKey = await derivePluginKey(pluginName);
-    const decipher = crypto.createDecipheriv(
-      'aes-256-gcm',
-      derivedKey,
-      Buffer.from(entry.iv, 'base64')
-    );
-    decipher.setAuthTag(Buffer.from(entry.authTag, 'base64'));
-    const decrypted = Buffer.concat([
-      decipher.update(Buffer.from(entry.ciphertext, 'base64')),
-      decipher.final(),
-    ]);
-    return decrypted.toString('utf8');
-  } catch {
-    // NEVER leak secret data in error messages
-    return null;
-  }
+  return secretStore.get('plugin', entryName(pluginName, key), `plugin:${pluginName}`);
 }
 
 /**
@@ -129,19 +45,7 @@ export async function setPluginSecret(
   value: string
 ): Promise<void> {
   validatePluginName(pluginName);
-  const derivedKey = await derivePluginKey(pluginName);
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv('aes-256-gcm', derivedKey, iv);
-  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
-  const authTag = cipher.getAuthTag();
-
-  const vault = await readVault(pluginName);
-  vault[key] = {
-    iv: iv.toString('base64'),
-    authTag: authTag.toString('base64'),
-    ciphertext: encrypted.toString('base64'),
-  };
-  await writeVault(pluginName, vault);
+  secretStore.set('plugin', entryName(pluginName, key), value);
 }
 
 /**
@@ -149,9 +53,7 @@ export async function setPluginSecret(
  */
 export async function deletePluginSecret(pluginName: string, key: string): Promise<void> {
   validatePluginName(pluginName);
-  const vault = await readVault(pluginName);
-  delete vault[key];
-  await writeVault(pluginName, vault);
+  secretStore.delete('plugin', entryName(pluginName, key));
 }
 
 /**
@@ -159,8 +61,8 @@ export async function deletePluginSecret(pluginName: string, key: string): Promi
  */
 export async function listPluginSecrets(pluginName: string): Promise<string[]> {
   validatePluginName(pluginName);
-  const vault = await readVault(pluginName);
-  return Object.keys(vault);
+  const prefix = `${pluginName}/`;
+  return secretStore.list('plugin', prefix).map(name => name.slice(prefix.length));
 }
 
 /**
@@ -168,10 +70,7 @@ export async function listPluginSecrets(pluginName: string): Promise<string[]> {
  */
 export async function deletePluginVault(pluginName: string): Promise<void> {
   validatePluginName(pluginName);
-  try {
-    await fs.unlink(vaultPath(pluginName));
-  } catch { /* may not exist */ }
-  try {
-    await fs.unlink(path.join(PLUGINS_DIR, pluginName, 'vault.salt'));
-  } catch { /* may not exist */ }
+  for (const name of secretStore.list('plugin', `${pluginName}/`)) {
+    secretStore.delete('plugin', name);
+  }
 }
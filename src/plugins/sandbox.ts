@@ -13,6 +13,9 @@ import os from 'os';
 import { PluginManifest, PluginPermissions, resolveResources } from './manifest';
 import { logAudit } from './audit';
 import { getPluginSecret, setPluginSecret } from './plugin-vault';
+import { getLlmUsage, getReservedLlmTokens, reserveLlmTokens } from './llm-quota';
+import type { ChatMessage, CompletionRequest } from '../llm/types';
+import { SafetyTier } from '../tool-plugins/types';
 import { setDashboardData, getDashboardData, emitDashboardEvent } from '../dashboard';
 
 // ---- Permission Diff Detection ----
@@ -37,6 +40,26 @@ export function detectPermissionChanges(
   const added = newPerms.filter(p => !oldPerms.includes(p));
   const removed = oldPerms.filter(p => !newPerms.includes(p));
 
+  // A bigger LLM quota lets the plugin spend more, so it needs approval like a new permission
+  const oldQuota = resolveResources(oldManifest).llmTokensPerDay;
+  const newQuota = resolveResources(newManifest).llmTokensPerDay;
+  if (newManifest.permissions.llm?.length && newQuota > oldQuota) {
+    added.push(`llm:tokens_per_day:${newQuota}`);
+  }
+
+  // New actions and lowered safety tiers let the plugin do more with less confirmation
+  const tiers = Object.values(SafetyTier) as string[];
+  const oldActions = new Map((oldManifest.actions ?? []).map(a => [a.name, a.safety]));
+  const newActions = new Map((newManifest.actions ?? []).map(a => [a.name, a.safety]));
+  for (const [name, safety] of newActions) {
+    const was = oldActions.get(name);
+    if (was === undefined) added.push(`action:${name}:${safety}`);
+    else if (tiers.indexOf(safety) < tiers.indexOf(was)) added.push(`action:${name}:${was}→${safety}`);
+  }
+  for (const [name, safety] of oldActions) {
+    if (!newActions.has(name)) removed.push(`action:${name}:${safety}`);
+  }
+
   return {
     added,
     removed,
@@ -53,12 +76,20 @@ function flattenPermissions(perms: PluginPermissions): string[] {
   if (perms.system) flat.push(...perms.system.map(s => `system:${s}`));
   if (perms.schedule) flat.push(...perms.schedule.map(s => `schedule:${s}`));
   if (perms.read) flat.push(...perms.read.map(r => `read:${r}`));
+  if (perms.llm) flat.push(...perms.llm.map(l => `llm:${l}`));
+  if (perms.memory) flat.push(...perms.memory.map(m => `memory:${m}`));
   return flat;
 }
 
 // Max timeout guardrail: 5 minutes (non-negotiable, all trust levels)
 export const MAX_PLUGIN_TIMEOUT_MS = 300000;
 
+// buhdi.llm / buhdi.memory limits
+const MAX_LLM_PROMPT_CHARS = 100_000;
+const MAX_LLM_COMPLETION_TOKENS = 4096;
+const MAX_MEMORY_RESULTS = 50;
+const MEMORY_OWNER = 'local';
+
 export interface SandboxOptions {
   manifest: PluginManifest;
   dataDir: string;           // absolute path to plugin's data/ directory
@@ -78,6 +109,9 @@ export class PluginSandbox {
   private running = false;
   private timeoutHandle: ReturnType<typeof setTimeout> | null = null;
   private exitCallbacks: Array<() => void> = [];
+  /** Calls a buhdi.actions handler; kept outside the plugin's reach */
+  private invoker: ivm.Reference<(name: string, paramsJson: string) => Promise<string>> | null = null;
+  private handlerLister: ivm.Reference<() => string> | null = null;
 
   constructor(opts: SandboxOptions) {
     this.manifest = opts.manifest;
@@ -168,6 +202,8 @@ export class PluginSandbox {
     } catch { /* already disposed */ }
     this.isolate = null;
     this.context = null;
+    this.invoker = null;
+    this.handlerLister = null;
     if (wasRunning) {
       for (const cb of this.exitCallbacks) {
         try { cb(); } catch { /* ignore */ }
@@ -176,8 +212,72 @@ export class PluginSandbox {
     this.exitCallbacks = [];
   }
 
+  // ---- Actions ----
+
+  /** Names of the functions the plugin exported on buhdi.actions */
+  exportedActions(): string[] {
+    if (!this.running || !this.handlerLister) return [];
+    return JSON.parse(this.handlerLister.applySync(undefined, [], { timeout: 1000 }));
+  }
+
+  /**
+   * Run one action handler. The isolate stops the handler's own code after
+   * timeoutMs of execution; time spent waiting on fetch and other bridged
+   * calls counts toward the same limit here.
+   */
+  async callAction(name: string, params: Record<string, unknown>, timeoutMs: number): Promise<unknown> {
+    if (!this.running || !this.invoker) throw new Error(`Plugin ${this.manifest.name} is not running`);
+    const limit = Math.min(timeoutMs, MAX_PLUGIN_TIMEOUT_MS);
+    const timeoutError = new Error(`Action ${name} timed out after ${Math.round(limit / 1000)}s`);
+
+    const call = this.invoker.apply(undefined, [name, JSON.stringify(params ?? {})], {
+      timeout: limit,
+      result: { promise: true, copy: true },
+    });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(timeoutError), limit);
+    });
+    // The call may still settle after the deadline
+    call.catch(() => {});
+
+    try {
+      return JSON.parse(await Promise.race([call, deadline]));
+    } catch (err: any) {
+      const timedOut = err === timeoutError || /timed out/i.test(err?.message || '');
+      if (timedOut) {
+        logAudit({
+          action: 'error',
+          toolId: this.manifest.name,
+          version: this.manifest.version,
+          initiatedBy: 'system',
+          reason: timeoutError.message,
+        });
+        throw timeoutError;
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   // ---- API Bridge ----
 
+  /**
+   * Expose an async host function to the isolate as global `name`. Callbacks
+   * can't hand a Promise across, so it goes through a Reference and settles
+   * to { value } or { error }; __hostCall turns the error back into a throw.
+   */
+  private async bridgeAsync(
+    jail: ivm.Reference<Record<string, any>>,
+    name: string,
+    fn: (...args: any[]) => Promise<unknown>,
+  ): Promise<void> {
+    const ref = new ivm.Reference((...args: any[]) =>
+      fn(...args).then(value => ({ value }), (err: any) => ({ error: err?.message || String(err) })));
+    await jail.set(name, ref);
+  }
+
   private async bridgeApi(jail: ivm.Reference<Record<string, any>>): Promise<void> {
     const ctx = this.context!;
 
@@ -189,9 +289,37 @@ export class PluginSandbox {
         fs: {},
         vault: {},
         dashboard: {},
+        llm: {},
+        memory: {},
+        actions: {},
+      };
+      global.__hostCall = async function(ref, args) {
+        const r = await ref.apply(undefined, args, { arguments: { copy: true }, result: { promise: true, copy: true } });
+        if (r.error !== undefined) throw new Error(r.error);
+        return r.value;
       };
     `);
 
+    // buhdi.actions — handlers the node calls as tools. The invoker closes over
+    // this buhdi object, so replacing global.buhdi can't redirect it.
+    await ctx.eval(`
+      (function(api) {
+        global.__invoke = async function(name, paramsJson) {
+          const handler = api.actions && api.actions[name];
+          if (typeof handler !== 'function') throw new Error('Plugin has no handler for action ' + name);
+          const result = await handler(JSON.parse(paramsJson));
+          return JSON.stringify(result === undefined ? null : result);
+        };
+        global.__listHandlers = function() {
+          const actions = api.actions || {};
+          return JSON.stringify(Object.keys(actions).filter(k => typeof actions[k] === 'function'));
+        };
+      })(buhdi);
+    `);
+    this.invoker = await jail.get('__invoke', { reference: true });
+    this.handlerLister = await jail.get('__listHandlers', { reference: true });
+    await ctx.eval(`delete global.__invoke; delete global.__listHandlers;`);
+
     // buhdi.config — read-only config from manifest (passed safely via reference, not eval)
     const configObj = new ivm.ExternalCopy(this.manifest.config || {}).copyInto();
     await jail.set('__config_raw', configObj);
@@ -224,38 +352,26 @@ export class PluginSandbox {
     await ctx.eval(`buhdi.report = function(data) { __report(JSON.stringify(data)); };`);
 
     // buhdi.fetch(url, opts) — network allowlist enforced
-    const fetchCb = new ivm.Callback((url: string, optsJson: string) => {
-      return this.bridgedFetch(url, optsJson);
-    }, { async: true });
-    await jail.set('__fetch', fetchCb);
-    await ctx.eval(`buhdi.fetch = async function(url, opts) { return __fetch(url, JSON.stringify(opts || {})); };`);
+    await this.bridgeAsync(jail, '__fetch', (url: string, optsJson: string) => this.bridgedFetch(url, optsJson));
+    await ctx.eval(`buhdi.fetch = async function(url, opts) { return __hostCall(__fetch, [url, JSON.stringify(opts || {})]); };`);
 
     // buhdi.fs.read/write/list/delete — scoped to data dir
     for (const op of ['read', 'write', 'list', 'delete'] as const) {
-      const cb = new ivm.Callback((...args: string[]) => {
-        return this.bridgedFs(op, args);
-      }, { async: true });
-      await jail.set(`__fs_${op}`, cb);
+      await this.bridgeAsync(jail, `__fs_${op}`, (...args: string[]) => this.bridgedFs(op, args));
     }
     await ctx.eval(`
-      buhdi.fs.read = async function(p) { return __fs_read(p); };
-      buhdi.fs.write = async function(p, data) { return __fs_write(p, data); };
-      buhdi.fs.list = async function(p) { return __fs_list(p || '.'); };
-      buhdi.fs.delete = async function(p) { return __fs_delete(p); };
+      buhdi.fs.read = async function(p) { return __hostCall(__fs_read, [p]); };
+      buhdi.fs.write = async function(p, data) { return __hostCall(__fs_write, [p, data]); };
+      buhdi.fs.list = async function(p) { return __hostCall(__fs_list, [p || '.']); };
+      buhdi.fs.delete = async function(p) { return __hostCall(__fs_delete, [p]); };
     `);
 
     // buhdi.vault.get/set — delegated to node vault
-    const vaultGetCb = new ivm.Callback((key: string) => {
-      return this.bridgedVaultGet(key);
-    }, { async: true });
-    const vaultSetCb = new ivm.Callback((key: string, value: string) => {
-      return this.bridgedVaultSet(key, value);
-    }, { async: true });
-    await jail.set('__vault_get', vaultGetCb);
-    await jail.set('__vault_set', vaultSetCb);
+    await this.bridgeAsync(jail, '__vault_get', (key: string) => this.bridgedVaultGet(key));
+    await this.bridgeAsync(jail, '__vault_set', (key: string, value: string) => this.bridgedVaultSet(key, value));
     await ctx.eval(`
-      buhdi.vault.get = async function(key) { return __vault_get(key); };
-      buhdi.vault.set = async function(key, value) { return __vault_set(key, value); };
+      buhdi.vault.get = async function(key) { return __hostCall(__vault_get, [key]); };
+      buhdi.vault.set = async function(key, value) { return __hostCall(__vault_set, [key, value]); };
     `);
 
     // buhdi.dashboard.setData/getData/emit
@@ -278,6 +394,23 @@ export class PluginSandbox {
       buhdi.dashboard.getData = function(pluginName, key) { return JSON.parse(__dash_get(pluginName, key)); };
       buhdi.dashboard.emit = function(event, data) { __dash_emit(event, JSON.stringify(data)); };
     `);
+
+    // buhdi.llm.complete(prompt, { system, maxTokens, temperature }) — the node's
+    // LLM router, within the plugin's daily token quota
+    await this.bridgeAsync(jail, '__llm_complete', (inputJson: string) => this.bridgedLlmComplete(inputJson));
+    await ctx.eval(`
+      buhdi.llm.complete = async function(prompt, opts) {
+        return __hostCall(__llm_complete, [JSON.stringify({ prompt: prompt, opts: opts || {} })]);
+      };
+    `);
+
+    // buhdi.memory.search/getEntity/createFact — the local knowledge graph
+    await this.bridgeAsync(jail, '__memory', (op: string, argsJson: string) => this.bridgedMemory(op, JSON.parse(argsJson)));
+    await ctx.eval(`
+      buhdi.memory.search = async function(query, opts) { return __hostCall(__memory, ['search', JSON.stringify([query, opts || {}])]); };
+      buhdi.memory.getEntity = async function(id) { return __hostCall(__memory, ['getEntity', JSON.stringify([id])]); };
+      buhdi.memory.createFact = async function(entityId, key, value) { return __hostCall(__memory, ['createFact', JSON.stringify([entityId, key, value])]); };
+    `);
   }
 
   // ---- Bridged Operations ----
@@ -392,6 +525,101 @@ export class PluginSandbox {
     return 'ok';
   }
 
+  private async bridgedLlmComplete(inputJson: string): Promise<object> {
+    if (!(this.manifest.permissions.llm || []).includes('complete')) {
+      throw new Error('LLM access denied');
+    }
+    const { prompt, opts } = JSON.parse(inputJson);
+
+    let messages: ChatMessage[];
+    if (typeof prompt === 'string') {
+      messages = [{ role: 'user', content: prompt }];
+    } else if (Array.isArray(prompt)) {
+      messages = prompt.map((m: any) => {
+        if (!m || !['system', 'user', 'assistant'].includes(m.role) || typeof m.content !== 'string') {
+          throw new Error('Messages must be { role: system|user|assistant, content: string }');
+        }
+        return { role: m.role, content: m.content };
+      });
+    } else {
+      throw new Error('Prompt must be a string or a list of messages');
+    }
+    if (typeof opts.system === 'string' && opts.system) messages.unshift({ role: 'system', content: opts.system });
+
+    const chars = messages.reduce((n, m) => n + (m.content as string).length, 0);
+    if (chars === 0) throw new Error('Prompt is empty');
+    if (chars > MAX_LLM_PROMPT_CHARS) throw new Error(`Prompt too long (max ${MAX_LLM_PROMPT_CHARS} characters)`);
+
+    // The prompt and the longest possible answer must both fit in what's left
+    // today, counting what calls still in flight have reserved
+    const pluginDir = path.dirname(this.dataDir);
+    const quota = resolveResources(this.manifest).llmTokensPerDay;
+    const used = getLlmUsage(pluginDir) + getReservedLlmTokens(pluginDir);
+    const promptTokens = Math.ceil(chars / 4);
+    const remaining = quota - used - promptTokens;
+    if (remaining <= 0) throw new Error(`LLM token quota exhausted (${used}/${quota} today)`);
+    const requested = typeof opts.maxTokens === 'number' && opts.maxTokens > 0 ? Math.floor(opts.maxTokens) : MAX_LLM_COMPLETION_TOKENS;
+    const maxTokens = Math.min(requested, MAX_LLM_COMPLETION_TOKENS, remaining);
+
+    const request: CompletionRequest = {
+      messages,
+      maxTokens,
+      temperature: typeof opts.temperature === 'number' ? opts.temperature : undefined,
+    };
+    const reservation = reserveLlmTokens(pluginDir, promptTokens + maxTokens);
+    // A failed call is charged its prompt, which may have reached a provider
+    let spent = promptTokens;
+    try {
+      const { llmRouter } = require('../llm');
+      const response = await llmRouter.complete(request);
+      if (response.finishReason === 'error') throw new Error(response.content || 'LLM request failed');
+
+      const usage = llmRouter.usageOf(request, response);
+      spent = usage.promptTokens + usage.completionTokens;
+      return {
+        text: response.content || '',
+        provider: response.provider,
+        model: response.model,
+        usage: { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens },
+      };
+    } finally {
+      reservation.settle(spent);
+    }
+  }
+
+  private async bridgedMemory(op: string, args: any[]): Promise<unknown> {
+    const granted = this.manifest.permissions.memory || [];
+    const needed = op === 'createFact' ? 'write' : 'read';
+    if (!granted.includes(needed)) throw new Error(`Memory ${needed} access denied`);
+
+    const mem = require('../memory');
+    if (!mem.isMemoryInitialized()) throw new Error('Memory is not initialized on this node');
+
+    switch (op) {
+      case 'search': {
+        const [query, opts] = args;
+        if (typeof query !== 'string' || !query.trim()) throw new Error('Search query must be a non-empty string');
+        const limit = Math.min(Math.max(Math.floor(Number(opts?.limit)) || 10, 1), MAX_MEMORY_RESULTS);
+        const mode = ['lexical', 'vector', 'hybrid'].includes(opts?.mode) ? opts.mode : 'hybrid';
+        return plain(await mem.semanticSearch(query, { limit, mode }));
+      }
+      case 'getEntity':
+        return plain(mem.getEntity(String(args[0])));
+      case 'createFact': {
+        const [entityId, key, value] = args;
+        if (typeof key !== 'string' || !key || key.length > 500) throw new Error('Fact key must be 1-500 characters');
+        if (typeof value !== 'string' || !value || value.length > 10000) throw new Error('Fact value must be 1-10000 characters');
+        const entity = mem.getEntity(String(entityId));
+        if (!entity) throw new Error(`No entity ${entityId}`);
+        const fact = mem.createFact(MEMORY_OWNER, { entity_id: entity.id, key, value, source: `plugin:${this.manifest.name}` });
+        mem.storeEmbedding('facts', fact.id, `${entity.name}: ${fact.key} = ${fact.value}`).catch(() => {});
+        return plain(fact);
+      }
+      default:
+        throw new Error(`Unknown memory operation: ${op}`);
+    }
+  }
+
   private async reportToCloud(dataJson: string): Promise<void> {
     if (!this.apiKey || !this.nodeId) return;
     try {
@@ -403,3 +631,8 @@ export class PluginSandbox {
     } catch { /* fire and forget */ }
   }
 }
+
+/** Memory rows as plain JSON, safe to copy into the isolate */
+function plain<T>(value: T): T {
+  return value === undefined ? (null as T) : JSON.parse(JSON.stringify(value));
+}
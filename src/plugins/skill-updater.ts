@@ -123,12 +123,16 @@ export class SkillUpdater {
         };
 
         try {
-          await this.pluginManager.updatePlugin(
+          const result = await this.pluginManager.updatePlugin(
             update.name,
             update.manifest,
             update.code,
             deployOpts
           );
+          if (result.status === 'pending') {
+            console.log(`[skill-updater] ${update.name} ${update.version} asks for new permissions — awaiting approval`);
+            continue;
+          }
 
           logAudit({
             action: 'update',
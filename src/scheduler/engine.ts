@@ -1,22 +1,35 @@
 /**
- * Scheduler Engine — Local cron-based task execution.
+ * Scheduler Engine — Local task execution on cron, timer, file, webhook and event triggers.
  * 
- * Uses node-cron for scheduling. Schedules persisted to SQLite.
+ * Triggers are armed by triggers.ts. Schedules persisted to schedules.json, run history to SQLite.
  * Actions: run agent goals, execute tools, call webhooks, run scripts.
+ * Per schedule: time zone, jitter, overlap policy and catch-up of runs missed while down.
  */
 
-import * as cron from 'node-cron';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { exec as execCb } from 'child_process';
 import {
-  Schedule, ScheduleCreateInput, ScheduleAction,
-  ScheduleRunResult, SchedulerStatus,
+  Schedule, ScheduleCreateInput, ScheduleAction, ScheduleTrigger, StepAction,
+  ScheduleRunResult, SchedulerStatus, ScheduleHistoryRetention, TriggerContext, WorkflowStep,
+  OverlapPolicy, CatchUpPolicy,
 } from './types';
+import {
+  validateTrigger, validateTimezone, armTrigger, disarmTrigger, disarmAll, armedCount,
+  nextRunOf, newWebhookSecret, verifyWebhookSecret, missedRuns,
+} from './triggers';
+import { validateWorkflow, runWorkflow, StepOutcome } from './workflow';
+import { validateNotifications, sendNotifications } from './notify';
+import { initRunHistory, closeRunHistory, recordRun, deleteRunHistory, getRetention } from './history';
 
 // ---- State ----
-const activeTasks = new Map<string, cron.ScheduledTask>();
+interface InFlightRun {
+  controller: AbortController;
+  done: Promise<ScheduleRunResult>;
+}
+const inFlight = new Map<string, InFlightRun>();          // Schedules with a run in progress
+const queued = new Map<string, TriggerContext[]>();      // Firings waiting behind it (overlap: 'queue')
 let schedules: Schedule[] = [];
 let schedulesFile = '';
 let running = false;
@@ -27,26 +40,42 @@ let onActivity: ((emoji: string, msg: string) => void) | null = null;
 
 // Limits
 const MAX_SCHEDULES = 50;
-const MIN_CRON_INTERVAL_FIELDS = true; // Reject second-level crons
+const MAX_TRIGGER_DATA_CHARS = 2000; // Trigger payload shown to agent goals
+const MAX_JITTER_MS = 3_600_000;
+const MAX_QUEUED_RUNS = 5;           // Per schedule, overlap: 'queue'
+const MAX_CATCH_UP_RUNS = 20;        // Per schedule, catch_up: 'all'
+const OVERLAP_POLICIES: OverlapPolicy[] = ['skip', 'queue', 'cancel_previous'];
+const CATCH_UP_POLICIES: CatchUpPolicy[] = ['none', 'last', 'all'];
+// Agent run endings that are final — retrying would spend the budget again
+const FINAL_AGENT_FAILURES = ['budget_exceeded', 'max_steps', 'cancelled'];
 let allowScripts = false; // Must be explicitly enabled in config
 
 // ---- Init ----
 
-export function initScheduler(configDir: string, activityCb?: (emoji: string, msg: string) => void, opts?: { allowScripts?: boolean }): void {
+export function initScheduler(
+  configDir: string,
+  activityCb?: (emoji: string, msg: string) => void,
+  opts?: { allowScripts?: boolean; history?: Partial<ScheduleHistoryRetention> },
+): void {
   schedulesFile = path.join(configDir, 'schedules.json');
   onActivity = activityCb || null;
   allowScripts = opts?.allowScripts === true;
+  try {
+    initRunHistory(configDir, opts?.history);
+  } catch (err) {
+    console.error('[scheduler] Run history unavailable:', (err as Error).message);
+  }
   loadSchedules();
   startAll();
   running = true;
   console.log(`[scheduler] Initialized with ${schedules.length} schedules (${schedules.filter(s => s.enabled).length} active)`);
+  catchUpAll();
 }
 
 export function shutdownScheduler(): void {
-  for (const [id, task] of activeTasks) {
-    task.stop();
-  }
-  activeTasks.clear();
+  disarmAll();
+  queued.clear();
+  closeRunHistory();
   running = false;
 }
 
@@ -56,6 +85,12 @@ function loadSchedules(): void {
   try {
     if (fs.existsSync(schedulesFile)) {
       schedules = JSON.parse(fs.readFileSync(schedulesFile, 'utf-8'));
+      // Schedules saved before triggers existed are cron schedules
+      for (const s of schedules) {
+        if (!s.trigger) s.trigger = { type: 'cron', expression: s.cron };
+        s.overlap ??= 'skip';
+        s.catch_up ??= 'none';
+      }
     }
   } catch (err) {
     console.error('[scheduler] Failed to load schedules:', (err as Error).message);
@@ -75,39 +110,80 @@ function saveSchedules(): void {
 
 // ---- CRUD ----
 
-export function createSchedule(input: ScheduleCreateInput): Schedule {
+/** Trigger from create/update input: an explicit trigger, or the cron shorthand */
+function triggerFromInput(input: Partial<ScheduleCreateInput>): ScheduleTrigger | null {
+  if (input.trigger) return validateTrigger(input.trigger);
+  if (input.cron !== undefined) return validateTrigger({ type: 'cron', expression: input.cron });
+  return null;
+}
+
+/**
+ * Give a webhook trigger a secret. The plain secret is returned to the caller
+ * once; only its hash is stored. An existing secret is kept unless rotated.
+ */
+function withWebhookSecret(trigger: ScheduleTrigger, existing?: ScheduleTrigger, rotate = false): { trigger: ScheduleTrigger; secret?: string } {
+  if (trigger.type !== 'webhook') return { trigger };
+  if (!rotate && existing?.type === 'webhook' && existing.secret_hash) {
+    return { trigger: { type: 'webhook', secret_hash: existing.secret_hash } };
+  }
+  const { secret, hash } = newWebhookSecret();
+  return { trigger: { type: 'webhook', secret_hash: hash }, secret };
+}
+
+/** Check timezone, jitter, overlap and catch-up input; only fields present in the input are returned */
+function runOptionsFromInput(input: Partial<ScheduleCreateInput>): Partial<Pick<Schedule, 'timezone' | 'jitter_ms' | 'overlap' | 'catch_up'>> {
+  const out: Partial<Pick<Schedule, 'timezone' | 'jitter_ms' | 'overlap' | 'catch_up'>> = {};
+  if (input.timezone !== undefined) out.timezone = input.timezone ? validateTimezone(input.timezone) : undefined;
+  if (input.jitter_ms !== undefined) {
+    const jitter = Number(input.jitter_ms);
+    if (!Number.isFinite(jitter) || jitter < 0) throw new Error('jitter_ms must be a positive number');
+    out.jitter_ms = Math.min(Math.floor(jitter), MAX_JITTER_MS);
+  }
+  if (input.overlap !== undefined) {
+    if (!OVERLAP_POLICIES.includes(input.overlap)) throw new Error(`overlap must be one of: ${OVERLAP_POLICIES.join(', ')}`);
+    out.overlap = input.overlap;
+  }
+  if (input.catch_up !== undefined) {
+    if (!CATCH_UP_POLICIES.includes(input.catch_up)) throw new Error(`catch_up must be one of: ${CATCH_UP_POLICIES.join(', ')}`);
+    out.catch_up = input.catch_up;
+  }
+  return out;
+}
+
+export function createSchedule(input: ScheduleCreateInput): Schedule & { webhook_secret?: string } {
   // H2-FIX: Max schedule count
   if (schedules.length >= MAX_SCHEDULES) {
     throw new Error(`Maximum ${MAX_SCHEDULES} schedules allowed`);
   }
-  // Validate cron expression
-  if (!cron.validate(input.cron)) {
-    throw new Error(`Invalid cron expression: "${input.cron}"`);
-  }
-  // H2-FIX: Reject second-level crons (6 fields = fires every second)
-  const fields = input.cron.trim().split(/\s+/);
-  if (fields.length > 5) {
-    throw new Error('Second-level cron expressions not allowed (max 5 fields, minimum interval 1 minute)');
-  }
+  const validated = triggerFromInput(input);
+  if (!validated) throw new Error('Schedule needs a trigger (or a cron expression)');
+  const { trigger, secret } = withWebhookSecret(validated);
   // Validate action type
-  validateAction(input.action);
+  const action = validateAction(input.action);
+  const options = runOptionsFromInput(input);
 
   const now = new Date().toISOString();
   const schedule: Schedule = {
     id: crypto.randomBytes(8).toString('hex'),
     name: input.name.substring(0, 200),
-    cron: input.cron,
-    action: input.action,
+    trigger,
+    cron: trigger.type === 'cron' ? trigger.expression : '',
+    action,
+    overlap: 'skip',
+    catch_up: 'none',
+    ...options,
     enabled: input.enabled !== false,
     created_at: now,
     updated_at: now,
     last_run_at: null,
     last_result: null,
     last_error: null,
+    last_agent_run_id: null,
     run_count: 0,
     max_retries: Math.min(input.max_retries ?? 0, 5),
     timeout_ms: Math.min(input.timeout_ms ?? 30000, 300000), // Max 5 min
     notify: input.notify !== false,
+    notifications: input.notifications ? validateNotifications(input.notifications) : undefined,
   };
 
   schedules.push(schedule);
@@ -117,7 +193,7 @@ export function createSchedule(input: ScheduleCreateInput): Schedule {
     startOne(schedule);
   }
 
-  return schedule;
+  return secret ? { ...schedule, webhook_secret: secret } : schedule;
 }
 
 export function getSchedule(id: string): Schedule | null {
@@ -128,34 +204,45 @@ export function listSchedules(): Schedule[] {
   return [...schedules];
 }
 
-export function updateSchedule(id: string, updates: Partial<ScheduleCreateInput>): Schedule | null {
+export function updateSchedule(
+  id: string,
+  updates: Partial<ScheduleCreateInput> & { rotate_secret?: boolean },
+): (Schedule & { webhook_secret?: string }) | null {
   const idx = schedules.findIndex(s => s.id === id);
   if (idx === -1) return null;
 
   const schedule = schedules[idx];
-
-  if (updates.cron !== undefined) {
-    if (!cron.validate(updates.cron)) throw new Error(`Invalid cron expression: "${updates.cron}"`);
-    schedule.cron = updates.cron;
+  let secret: string | undefined;
+
+  const validated = triggerFromInput(updates)
+    ?? (updates.rotate_secret && schedule.trigger.type === 'webhook' ? schedule.trigger : null);
+  if (validated) {
+    const next = withWebhookSecret(validated, schedule.trigger, updates.rotate_secret === true);
+    schedule.trigger = next.trigger;
+    schedule.cron = next.trigger.type === 'cron' ? next.trigger.expression : '';
+    secret = next.secret;
   }
   if (updates.name !== undefined) schedule.name = updates.name.substring(0, 200);
   if (updates.action !== undefined) {
-    validateAction(updates.action);
-    schedule.action = updates.action;
+    schedule.action = validateAction(updates.action);
   }
+  Object.assign(schedule, runOptionsFromInput(updates));
   if (updates.enabled !== undefined) schedule.enabled = updates.enabled;
   if (updates.max_retries !== undefined) schedule.max_retries = Math.min(updates.max_retries, 5);
   if (updates.timeout_ms !== undefined) schedule.timeout_ms = Math.min(updates.timeout_ms, 300000);
   if (updates.notify !== undefined) schedule.notify = updates.notify;
+  if (updates.notifications !== undefined) {
+    schedule.notifications = updates.notifications ? validateNotifications(updates.notifications) : undefined;
+  }
 
   schedule.updated_at = new Date().toISOString();
   saveSchedules();
 
-  // Restart the cron task
+  // Re-arm the trigger
   stopOne(id);
   if (schedule.enabled) startOne(schedule);
 
-  return schedule;
+  return secret ? { ...schedule, webhook_secret: secret } : schedule;
 }
 
 export function deleteSchedule(id: string): boolean {
@@ -165,10 +252,11 @@ export function deleteSchedule(id: string): boolean {
   stopOne(id);
   schedules.splice(idx, 1);
   saveSchedules();
+  deleteRunHistory(id);
   return true;
 }
 
-// ---- Cron Management ----
+// ---- Trigger Management ----
 
 function startAll(): void {
   for (const schedule of schedules) {
@@ -179,54 +267,181 @@ function startAll(): void {
 }
 
 function startOne(schedule: Schedule): void {
-  stopOne(schedule.id); // Ensure no duplicate
+  armTrigger(schedule, (context) => {
+    fireSchedule(schedule, context).catch(err =>
+      console.error(`[scheduler] ${schedule.name} failed to run:`, err.message));
+  });
+}
 
-  const task = cron.schedule(schedule.cron, async () => {
-    await executeSchedule(schedule);
-  }, { scheduled: true });
+function stopOne(id: string): void {
+  disarmTrigger(id);
+  queued.delete(id);
+}
 
-  activeTasks.set(schedule.id, task);
+/**
+ * Run a schedule because its trigger fired: after its jitter (timer triggers
+ * only), and subject to its overlap policy if the previous run is still going.
+ * One-shot schedules disable themselves once they have fired.
+ */
+async function fireSchedule(schedule: Schedule, context: TriggerContext): Promise<ScheduleRunResult | null> {
+  if (schedule.trigger.type === 'once') {
+    schedule.enabled = false;
+    stopOne(schedule.id);
+    saveSchedules();
+  }
+  const timed = context.source === 'cron' || context.source === 'interval' || context.source === 'once';
+  if (timed && schedule.jitter_ms) {
+    await new Promise(r => setTimeout(r, Math.floor(Math.random() * schedule.jitter_ms!)));
+  }
+  return dispatch(schedule, context);
 }
 
-function stopOne(id: string): void {
-  const task = activeTasks.get(id);
-  if (task) {
-    task.stop();
-    activeTasks.delete(id);
+/** Start a run now, or apply the overlap policy if the previous one is still going */
+async function dispatch(schedule: Schedule, context: TriggerContext): Promise<ScheduleRunResult | null> {
+  const current = inFlight.get(schedule.id);
+  if (current) {
+    switch (schedule.overlap) {
+      case 'queue': {
+        const waiting = queued.get(schedule.id) ?? [];
+        if (waiting.length >= MAX_QUEUED_RUNS) {
+          recordSkipped(schedule, context, `Queue full (${MAX_QUEUED_RUNS} runs waiting)`);
+          return null;
+        }
+        waiting.push(context);
+        queued.set(schedule.id, waiting);
+        return null;
+      }
+      case 'cancel_previous':
+        current.controller.abort();
+        await current.done.catch(() => {});
+        // Another firing may have started while this one waited; the newest wins
+        return dispatch(schedule, context);
+      default:
+        recordSkipped(schedule, context, 'Previous run still going');
+        return null;
+    }
   }
+  return startRun(schedule, context);
+}
+
+/** Start a run and track it; when it ends, the next queued firing (if any) starts */
+function startRun(schedule: Schedule, context: TriggerContext): Promise<ScheduleRunResult> {
+  const controller = new AbortController();
+  const done = executeAttempt(schedule, context, 0, controller.signal).finally(() => {
+    if (inFlight.get(schedule.id)?.controller === controller) inFlight.delete(schedule.id);
+    const next = queued.get(schedule.id)?.shift();
+    if (next && !inFlight.has(schedule.id)) {
+      startRun(schedule, next).catch(err =>
+        console.error(`[scheduler] ${schedule.name} failed to run:`, err.message));
+    }
+  });
+  inFlight.set(schedule.id, { controller, done });
+  return done;
+}
+
+/** Leave a history record for a firing that didn't run */
+function recordSkipped(schedule: Schedule, context: TriggerContext, reason: string): void {
+  const now = new Date().toISOString();
+  console.log(`[scheduler] ${schedule.name}: ${context.source} run skipped — ${reason}`);
+  recordRun(schedule.name, {
+    schedule_id: schedule.id, trigger: context.source, attempt: 1,
+    started_at: now, finished_at: now, duration_ms: 0,
+    result: 'skipped', output: '', error: reason,
+  });
+}
+
+// ---- Catch-up ----
+
+/**
+ * At startup, deal with cron and interval runs that came due while the node
+ * was down, counted from each schedule's last run (or creation). Each
+ * schedule's catch-up runs go one after another; schedules don't wait on
+ * each other.
+ */
+function catchUpAll(): void {
+  const now = new Date();
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    const since = new Date(schedule.last_run_at ?? schedule.created_at);
+    const limit = schedule.catch_up === 'all' ? MAX_CATCH_UP_RUNS : 1;
+    const { times, total, more } = missedRuns(schedule, since, now, limit);
+    if (total === 0) continue;
+    const missed = `${total}${more ? '+' : ''}`;
+
+    const context = (at: Date): TriggerContext => ({ source: 'catch_up', data: { missed_at: at.toISOString(), missed: total } });
+    if (schedule.catch_up === 'none') {
+      recordSkipped(schedule, context(times[times.length - 1]), `Missed ${missed} run(s) while the node was down (catch_up: none)`);
+      continue;
+    }
+    if (total > times.length) {
+      recordSkipped(schedule, context(times[0]), `Missed ${missed} run(s) while the node was down; catching up the last ${times.length}`);
+    }
+    console.log(`[scheduler] ${schedule.name}: catching up ${times.length} of ${missed} missed run(s)`);
+    (async () => {
+      for (const at of times) await fireSchedule(schedule, context(at));
+    })().catch(err => console.error(`[scheduler] ${schedule.name} catch-up failed:`, err.message));
+  }
+}
+
+/**
+ * Fire a webhook-triggered schedule. Returns null when the id or secret
+ * doesn't match (callers answer 404 either way, so ids can't be probed).
+ */
+export function fireWebhook(id: string, secret: string | undefined, payload: unknown): { accepted: boolean } | null {
+  const schedule = schedules.find(s => s.id === id);
+  if (!schedule || !verifyWebhookSecret(schedule.trigger, secret)) return null;
+  if (!schedule.enabled) return { accepted: false };
+  if (inFlight.has(schedule.id) && schedule.overlap === 'skip') return { accepted: false };
+  fireSchedule(schedule, { source: 'webhook', data: { payload } })
+    .catch(err => console.error(`[scheduler] ${schedule.name} failed to run:`, err.message));
+  return { accepted: true };
 }
 
 // ---- Execution ----
 
-async function executeSchedule(schedule: Schedule, attempt = 0): Promise<ScheduleRunResult> {
+async function executeAttempt(schedule: Schedule, context: TriggerContext, attempt: number, signal: AbortSignal): Promise<ScheduleRunResult> {
   const startedAt = new Date().toISOString();
   const startMs = Date.now();
 
-  if (schedule.notify && onActivity) {
+  if (schedule.notify && onActivity && attempt === 0) {
     onActivity('⏰', `Running: ${schedule.name}`);
   }
 
-  let output = '';
+  let outcome: ActionOutcome = { output: '' };
   let error: string | null = null;
   let result: 'success' | 'error' = 'success';
 
   try {
-    output = await executeAction(schedule.action, schedule.timeout_ms);
+    outcome = await executeAction(schedule, schedule.timeout_ms, context, signal);
+    if (outcome.failed) {
+      result = 'error';
+      error = outcome.failed;
+    }
   } catch (err: any) {
     result = 'error';
     error = err.message || String(err);
-
-    // L2-FIX: Retry with exponential backoff (no retry for scripts)
-    if (attempt < schedule.max_retries && schedule.action.type !== 'script') {
-      const backoffMs = Math.min(1000 * Math.pow(2, attempt), 30000);
-      console.log(`[scheduler] ${schedule.name} failed (attempt ${attempt + 1}/${schedule.max_retries + 1}), retrying in ${backoffMs}ms...`);
-      await new Promise(r => setTimeout(r, backoffMs));
-      return executeSchedule(schedule, attempt + 1);
-    }
   }
 
   const finishedAt = new Date().toISOString();
   const duration_ms = Date.now() - startMs;
+  const run: ScheduleRunResult = {
+    schedule_id: schedule.id, trigger: context.source, attempt: attempt + 1,
+    started_at: startedAt, finished_at: finishedAt, duration_ms, result,
+    output: outcome.output.substring(0, 4096), error,
+    agent_run_id: outcome.agent_run_id,
+    steps: outcome.steps,
+  };
+  recordRun(schedule.name, run);
+
+  // L2-FIX: Retry thrown errors with exponential backoff (no retry for scripts; workflow
+  // steps retry themselves; a `failed` outcome already ran to a final answer)
+  if (result === 'error' && !outcome.failed && attempt < schedule.max_retries && !signal.aborted
+      && schedule.action.type !== 'script' && schedule.action.type !== 'workflow') {
+    const backoffMs = Math.min(1000 * Math.pow(2, attempt), 30000);
+    console.log(`[scheduler] ${schedule.name} failed (attempt ${attempt + 1}/${schedule.max_retries + 1}), retrying in ${backoffMs}ms...`);
+    await new Promise(r => setTimeout(r, backoffMs));
+    return executeAttempt(schedule, context, attempt + 1, signal);
+  }
 
   // Update schedule state
   schedule.last_run_at = finishedAt;
@@ -244,29 +459,118 @@ async function executeSchedule(schedule: Schedule, attempt = 0): Promise<Schedul
     onActivity(emoji, msg);
   }
 
-  return { schedule_id: schedule.id, started_at: startedAt, finished_at: finishedAt, duration_ms, result, output: output.substring(0, 4096), error };
+  if (schedule.notifications?.length) {
+    sendNotifications(schedule, run, (action) => executeWebhookAction(action, schedule.timeout_ms))
+      .then(errors => {
+        for (const e of errors) {
+          console.error(`[scheduler] ${schedule.name} notification failed — ${e}`);
+          onActivity?.('⚠️', `${schedule.name} notification failed — ${e.substring(0, 100)}`);
+        }
+      })
+      .catch(err => console.error(`[scheduler] ${schedule.name} notifications failed:`, err.message));
+  }
+
+  return run;
 }
 
-async function executeAction(action: ScheduleAction, timeout_ms: number): Promise<string> {
+/** What an action produced; a workflow sets `failed` when one of its steps failed */
+interface ActionOutcome extends StepOutcome {
+  steps?: ScheduleRunResult['steps'];
+}
+
+async function executeAction(schedule: Schedule, timeout_ms: number, context: TriggerContext, signal: AbortSignal): Promise<ActionOutcome> {
+  const action = schedule.action;
+  if (action.type === 'workflow') return executeWorkflowAction(action.steps, schedule, timeout_ms, context, signal);
+  return executeStepAction(action, schedule, timeout_ms, context, signal);
+}
+
+async function executeStepAction(
+  action: StepAction,
+  schedule: Schedule,
+  timeout_ms: number,
+  context: TriggerContext,
+  signal: AbortSignal,
+): Promise<StepOutcome> {
   switch (action.type) {
     case 'agent':
-      return executeAgentAction(action);
+      return executeAgentAction(action, schedule, context, signal);
     case 'tool':
-      return executeToolAction(action);
+      return { output: await abortable(executeToolAction(action), signal) };
     case 'webhook':
-      return executeWebhookAction(action, timeout_ms);
+      return { output: await abortable(executeWebhookAction(action, timeout_ms, signal), signal) };
     case 'script':
-      return executeScriptAction(action, timeout_ms);
+      return { output: await executeScriptAction(action, timeout_ms, signal) };
     default:
       throw new Error(`Unknown action type: ${(action as any).type}`);
   }
 }
 
-async function executeAgentAction(action: { type: 'agent'; goal: string; config?: Record<string, any> }): Promise<string> {
+/**
+ * Run a workflow's steps. Steps see the trigger through templates, so agent
+ * steps don't get the trigger data appended to their goals.
+ */
+async function executeWorkflowAction(
+  steps: WorkflowStep[],
+  schedule: Schedule,
+  timeout_ms: number,
+  context: TriggerContext,
+  signal: AbortSignal,
+): Promise<ActionOutcome> {
+  const results = await runWorkflow(
+    steps,
+    (action, stepTimeout, attempt) => executeStepAction(action, schedule, stepTimeout, { source: context.source }, attempt),
+    timeout_ms,
+    context,
+    signal,
+    safeToRepeat,
+  );
+
+  const failed = results.find(r =>
+    r.status === 'error' && !steps.find(s => s.id === r.step_id)?.continue_on_error);
+  const lastOutput = [...results].reverse().find(r => r.status === 'success');
+  const agentRuns = results.filter(r => r.agent_run_id);
+  return {
+    output: results.map(r => `${r.step_id}: ${r.status}`).join(', ')
+      + (lastOutput ? `\n${lastOutput.output}` : ''),
+    agent_run_id: agentRuns.length ? agentRuns[agentRuns.length - 1].agent_run_id : undefined,
+    steps: results,
+    failed: failed ? `Step "${failed.step_id}" failed: ${failed.error}` : undefined,
+  };
+}
+
+async function executeAgentAction(
+  action: { type: 'agent'; goal: string; config?: Record<string, any> },
+  schedule: Schedule,
+  context: TriggerContext,
+  signal: AbortSignal,
+): Promise<StepOutcome> {
   try {
-    const { runAgent } = require('../agent');
-    const result = await runAgent(action.goal, action.config);
-    return typeof result === 'string' ? result : JSON.stringify(result);
+    const { runAgent, cancelAgent } = require('../agent');
+    const { toolRegistry } = require('../tool-plugins');
+    // Let the goal see what fired it (changed files, webhook body, event data)
+    const goal = context.data
+      ? `${action.goal}\n\nTriggered by ${context.source}: ${JSON.stringify(context.data).substring(0, MAX_TRIGGER_DATA_CHARS)}`
+      : action.goal;
+    // The run id is only known once the first step lands; a cancel before that waits for it
+    let runId: string | null = null;
+    signal.addEventListener('abort', () => { if (runId) cancelAgent(runId); }, { once: true });
+    const run = await runAgent(goal, action.config, {
+      onStep: (_step: unknown, r: { id: string }) => {
+        runId = r.id;
+        if (signal.aborted) cancelAgent(r.id);
+      },
+      onConfirmAction: (tool: string, params: any, executeAs: any) =>
+        toolRegistry.confirmAction(tool, params, { source: 'schedule', ref: schedule.id }, executeAs),
+    }, { source: 'schedule', ref: schedule.id });
+    // Full steps live in the agent run store; link to it instead of inlining them
+    schedule.last_agent_run_id = run.id;
+    schedule.agent_tokens = (schedule.agent_tokens || 0) + run.usage.promptTokens + run.usage.completionTokens;
+    schedule.agent_cost_usd = (schedule.agent_cost_usd || 0) + run.usage.costUsd;
+    const summary = `[${run.id}] ${run.status}: ${run.result ?? run.error ?? ''}`;
+    // Out of budget, out of steps or cancelled: running it again would only spend more
+    if (FINAL_AGENT_FAILURES.includes(run.status)) return { output: summary, agent_run_id: run.id, failed: summary };
+    if (run.status !== 'completed') throw new Error(summary);
+    return { output: summary, agent_run_id: run.id };
   } catch (err: any) {
     throw new Error(`Agent execution failed: ${err.message}`);
   }
@@ -275,14 +579,18 @@ async function executeAgentAction(action: { type: 'agent'; goal: string; config?
 async function executeToolAction(action: { type: 'tool'; plugin: string; method: string; params?: Record<string, any> }): Promise<string> {
   try {
     const { toolRegistry } = require('../tool-plugins');
-    const result = await toolRegistry.executeByFullName(action.plugin, action.params || {});
+    const result = await toolRegistry.executeByFullName(action.plugin, action.params || {}, { source: 'schedule' });
     return result.output || JSON.stringify(result);
   } catch (err: any) {
     throw new Error(`Tool execution failed: ${err.message}`);
   }
 }
 
-async function executeWebhookAction(action: { type: 'webhook'; url: string; method?: string; headers?: Record<string, string>; body?: string }, timeout_ms: number): Promise<string> {
+async function executeWebhookAction(
+  action: { type: 'webhook'; url: string; method?: string; headers?: Record<string, string>; body?: string },
+  timeout_ms: number,
+  signal?: AbortSignal,
+): Promise<string> {
   // Security: only allow http/https
   const urlLower = action.url.toLowerCase();
   if (!urlLower.startsWith('http://') && !urlLower.startsWith('https://')) {
@@ -309,7 +617,7 @@ async function executeWebhookAction(action: { type: 'webhook'; url: string; meth
     method: action.method || 'POST',
     headers: action.headers || { 'Content-Type': 'application/json' },
     body: action.body || undefined,
-    signal: AbortSignal.timeout(timeout_ms),
+    signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeout_ms)]) : AbortSignal.timeout(timeout_ms),
   });
 
   const text = await resp.text();
@@ -317,7 +625,11 @@ async function executeWebhookAction(action: { type: 'webhook'; url: string; meth
   return text.substring(0, 4096);
 }
 
-async function executeScriptAction(action: { type: 'script'; command: string; cwd?: string; timeout_ms?: number }, timeout_ms: number): Promise<string> {
+async function executeScriptAction(
+  action: { type: 'script'; command: string; cwd?: string; timeout_ms?: number },
+  timeout_ms: number,
+  signal?: AbortSignal,
+): Promise<string> {
   // H1-FIX: Scripts require explicit opt-in via config
   if (!allowScripts) {
     throw new Error('Script execution disabled. Set scheduler.allowScripts: true in config to enable.');
@@ -344,6 +656,7 @@ async function executeScriptAction(action: { type: 'script'; command: string; cw
       cwd: action.cwd,
       timeout: action.timeout_ms || timeout_ms,
       maxBuffer: 1024 * 1024,
+      signal,
     }, (err, stdout, stderr) => {
       // L3-FIX: Strip all ANSI escape sequences
       const clean = (s: string) => s.replace(/\x1b\[[\x20-\x3f]*[\x40-\x7e]|\x1b[\x40-\x5f]/g, '').substring(0, 4096);
@@ -353,10 +666,36 @@ async function executeScriptAction(action: { type: 'script'; command: string; cw
   });
 }
 
+/**
+ * Whether a workflow step that timed out may run again. Tool calls can't be
+ * stopped once started, so only read-only ones (and GET/HEAD webhooks) are
+ * safe to repeat; an agent run or script could already have acted.
+ */
+function safeToRepeat(action: StepAction): boolean {
+  if (action.type === 'webhook') return ['GET', 'HEAD'].includes((action.method || 'POST').toUpperCase());
+  if (action.type !== 'tool') return false;
+  const { toolRegistry } = require('../tool-plugins');
+  return toolRegistry.findAction(action.plugin)?.action.safety === 'read';
+}
+
+/** Reject as soon as the run is cancelled, for calls that can't be aborted themselves */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new Error('Cancelled by a newer run'));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Cancelled by a newer run'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
 // ---- Validation ----
 
-function validateAction(action: ScheduleAction): void {
+/** Check an action; returns it normalized (workflow steps get their defaults filled in) */
+function validateAction(action: ScheduleAction): ScheduleAction {
   if (!action || !action.type) throw new Error('Action must have a type');
+  if (action.type === 'workflow') {
+    return { type: 'workflow', steps: validateWorkflow(action.steps, validateAction) };
+  }
 
   switch (action.type) {
     case 'agent':
@@ -376,6 +715,7 @@ function validateAction(action: ScheduleAction): void {
     default:
       throw new Error(`Unknown action type: ${(action as any).type}`);
   }
+  return action;
 }
 
 // ---- Manual Run ----
@@ -383,7 +723,13 @@ function validateAction(action: ScheduleAction): void {
 export async function runScheduleNow(id: string): Promise<ScheduleRunResult> {
   const schedule = schedules.find(s => s.id === id);
   if (!schedule) throw new Error('Schedule not found');
-  return executeSchedule(schedule);
+  const run = await dispatch(schedule, { source: 'manual' });
+  if (!run) {
+    throw new Error(schedule.overlap === 'queue'
+      ? 'Schedule is already running; this run is queued behind it'
+      : 'Schedule is already running');
+  }
+  return run;
 }
 
 // ---- Status ----
@@ -392,17 +738,15 @@ export function getSchedulerStatus(): SchedulerStatus {
   return {
     running,
     schedule_count: schedules.length,
-    active_count: activeTasks.size,
+    active_count: armedCount(),
     next_runs: schedules
       .filter(s => s.enabled)
-      .map(s => ({ id: s.id, name: s.name, next: getNextRun(s.cron) }))
+      .map(s => ({ id: s.id, name: s.name, trigger: s.trigger.type, next: nextRunOf(s.id)?.toISOString() ?? null }))
+      .sort((a, b) => (a.next ?? '\uffff').localeCompare(b.next ?? '\uffff'))
       .slice(0, 10),
     total_runs: totalRuns,
+    agent_cost_usd: schedules.reduce((sum, s) => sum + (s.agent_cost_usd || 0), 0),
+    history_retention: getRetention(),
   };
 }
 
-function getNextRun(cronExpr: string): string {
-  // Simple approximation — node-cron doesn't expose next run time directly
-  // Return "scheduled" as placeholder; dashboard will show cron expression
-  return cronExpr;
-}
@@ -0,0 +1,168 @@
+/**
+ * Schedule Run History — SQLite log of every scheduled run attempt.
+ *
+ * One row per attempt (a run that retried twice leaves three rows), with
+ * its output, error and linked agent run; workflow runs add a row per step. Old rows are pruned by count per
+ * schedule and by age. Like the agent run store, this is optional: if it was
+ * never initialized, runs still happen, they just aren't recorded.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScheduleRunResult, ScheduleRunRecord, ScheduleHistoryRetention, WorkflowStepResult } from './types';
+
+const DEFAULT_RETENTION: ScheduleHistoryRetention = {
+  max_runs_per_schedule: 200,
+  max_age_days: 90,
+};
+
+let db: Database.Database | null = null;
+let retention: ScheduleHistoryRetention = { ...DEFAULT_RETENTION };
+
+// ---- Init ----
+
+export function initRunHistory(configDir: string, opts: Partial<ScheduleHistoryRetention> = {}): void {
+  if (!fs.existsSync(configDir)) fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  setRetention(opts);
+
+  db = new Database(path.join(configDir, 'schedule-runs.db'));
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schedule_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id TEXT NOT NULL,
+      schedule_name TEXT NOT NULL,
+      trigger TEXT NOT NULL DEFAULT 'cron',
+      attempt INTEGER NOT NULL DEFAULT 1,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      result TEXT NOT NULL,
+      output TEXT NOT NULL DEFAULT '',
+      error TEXT,
+      agent_run_id TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS schedule_run_steps (
+      run_id INTEGER NOT NULL REFERENCES schedule_runs(id) ON DELETE CASCADE,
+      idx INTEGER NOT NULL,
+      step_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      started_at TEXT,
+      finished_at TEXT,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      output TEXT NOT NULL DEFAULT '',
+      error TEXT,
+      agent_run_id TEXT,
+      PRIMARY KEY (run_id, idx)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_schedule_runs_started ON schedule_runs(started_at);
+  `);
+  pruneByAge();
+}
+
+export function closeRunHistory(): void {
+  if (db) { db.close(); db = null; }
+}
+
+/** Current retention limits; 0 disables a limit */
+export function getRetention(): ScheduleHistoryRetention {
+  return { ...retention };
+}
+
+export function setRetention(opts: Partial<ScheduleHistoryRetention>): ScheduleHistoryRetention {
+  const clean = (v: unknown, fallback: number) =>
+    typeof v === 'number' && Number.isFinite(v) && v >= 0 ? Math.floor(v) : fallback;
+  retention = {
+    max_runs_per_schedule: clean(opts.max_runs_per_schedule, retention.max_runs_per_schedule),
+    max_age_days: clean(opts.max_age_days, retention.max_age_days),
+  };
+  return getRetention();
+}
+
+// ---- Writes ----
+
+export function recordRun(scheduleName: string, run: ScheduleRunResult): void {
+  if (!db) return;
+  const d = db;
+  d.transaction(() => {
+    const { lastInsertRowid } = d.prepare(`
+      INSERT INTO schedule_runs (schedule_id, schedule_name, trigger, attempt, started_at, finished_at,
+        duration_ms, result, output, error, agent_run_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.schedule_id, scheduleName, run.trigger, run.attempt, run.started_at, run.finished_at,
+      run.duration_ms, run.result, run.output, run.error, run.agent_run_id ?? null,
+    );
+    const insertStep = d.prepare(`
+      INSERT INTO schedule_run_steps (run_id, idx, step_id, status, attempts, started_at, finished_at,
+        duration_ms, output, error, agent_run_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    (run.steps || []).forEach((s, i) => insertStep.run(
+      lastInsertRowid, i, s.step_id, s.status, s.attempts, s.started_at, s.finished_at,
+      s.duration_ms, s.output, s.error, s.agent_run_id ?? null,
+    ));
+  })();
+  pruneSchedule(run.schedule_id);
+  pruneByAge();
+}
+
+/** Drop a deleted schedule's history */
+export function deleteRunHistory(scheduleId: string): void {
+  if (!db) return;
+  db.prepare('DELETE FROM schedule_runs WHERE schedule_id = ?').run(scheduleId);
+}
+
+function pruneSchedule(scheduleId: string): void {
+  if (!retention.max_runs_per_schedule) return;
+  db!.prepare(`
+    DELETE FROM schedule_runs WHERE schedule_id = ? AND id NOT IN (
+      SELECT id FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?
+    )
+  `).run(scheduleId, scheduleId, retention.max_runs_per_schedule);
+}
+
+function pruneByAge(): void {
+  if (!retention.max_age_days) return;
+  const cutoff = new Date(Date.now() - retention.max_age_days * 86_400_000).toISOString();
+  db!.prepare('DELETE FROM schedule_runs WHERE started_at < ?').run(cutoff);
+}
+
+// ---- Reads ----
+
+/** One schedule's runs, newest first; workflow runs carry their steps */
+export function listScheduleRuns(scheduleId: string, opts: {
+  result?: string;
+  limit?: number;
+  offset?: number;
+} = {}): { runs: ScheduleRunRecord[]; total: number } {
+  if (!db) return { runs: [], total: 0 };
+  const where = ['schedule_id = ?'];
+  const params: any[] = [scheduleId];
+  if (opts.result) { where.push('result = ?'); params.push(opts.result); }
+
+  const total = (db.prepare(`SELECT COUNT(*) as c FROM schedule_runs WHERE ${where.join(' AND ')}`)
+    .get(...params) as { c: number }).c;
+  const runs = db.prepare(`
+    SELECT * FROM schedule_runs WHERE ${where.join(' AND ')}
+    ORDER BY id DESC LIMIT ? OFFSET ?
+  `).all(...params, Math.min(opts.limit ?? 50, 200), opts.offset ?? 0) as ScheduleRunRecord[];
+
+  if (runs.length > 0) {
+    const steps = db.prepare(`
+      SELECT * FROM schedule_run_steps WHERE run_id IN (${runs.map(() => '?').join(',')}) ORDER BY run_id, idx
+    `).all(...runs.map(r => r.id)) as Array<WorkflowStepResult & { run_id: number; idx: number }>;
+    for (const { run_id, idx, ...step } of steps) {
+      const run = runs.find(r => r.id === run_id)!;
+      (run.steps ??= []).push(step);
+    }
+  }
+  return { runs, total };
+}
@@ -6,6 +6,8 @@ export { initScheduler, shutdownScheduler } from './engine';
 export {
   createSchedule, getSchedule, listSchedules,
   updateSchedule, deleteSchedule, runScheduleNow,
-  getSchedulerStatus,
+  getSchedulerStatus, fireWebhook,
 } from './engine';
+export { nextCronRun } from './triggers';
+export { listScheduleRuns } from './history';
 export * from './types';
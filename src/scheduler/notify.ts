@@ -0,0 +1,175 @@
+/**
+ * Schedule Notifications — tell someone how a run went.
+ *
+ * Channels are set per schedule: email (through the Gmail plugin), a webhook,
+ * or an OS desktop notification. Each picks when it fires (success, failure
+ * or always) and can template its message from the run. Delivery happens
+ * after the run is recorded and never changes its result.
+ */
+
+import { execFile } from 'child_process';
+import { NotificationChannel, NotifyOn, Schedule, ScheduleRunResult } from './types';
+
+const MAX_CHANNELS = 5;
+const MAX_TEMPLATE_CHARS = 4000;
+const MAX_EMAIL_BODY_CHARS = 20_000;
+const MAX_DESKTOP_BODY_CHARS = 250;
+const NOTIFY_ON: NotifyOn[] = ['success', 'failure', 'always'];
+const EMAIL = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+const TEMPLATE = /\{\{\s*([\w.]+)\s*(?:\|\s*(json)\s*)?\}\}/g;
+
+const DEFAULT_TITLE = 'Buhdi: {{schedule.name}} {{status}}';
+const DEFAULT_MESSAGE = '{{schedule.name}} {{status}} at {{run.finished_at}} '
+  + '({{run.duration_ms}}ms, trigger: {{run.trigger}}, attempt {{run.attempt}})\n\n{{run.error}}{{run.output}}';
+
+/** Sends a webhook the way webhook actions do (same URL checks and timeout) */
+export type WebhookSender = (action: { type: 'webhook'; url: string; method?: string; headers?: Record<string, string>; body?: string }) => Promise<string>;
+
+// ---- Validation ----
+
+export function validateNotifications(channels: NotificationChannel[]): NotificationChannel[] {
+  if (!Array.isArray(channels)) throw new Error('notifications must be a list of channels');
+  if (channels.length > MAX_CHANNELS) throw new Error(`Too many notification channels (max ${MAX_CHANNELS})`);
+
+  return channels.map((c, i) => {
+    if (!c || typeof c !== 'object') throw new Error(`Notification channel ${i + 1} must be an object`);
+    const on = c.on ?? 'failure';
+    if (!NOTIFY_ON.includes(on)) throw new Error(`Notification "on" must be one of: ${NOTIFY_ON.join(', ')}`);
+    for (const field of ['title', 'template'] as const) {
+      const value = (c as any)[field];
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_TEMPLATE_CHARS)) {
+        throw new Error(`Notification ${field} must be a string (max ${MAX_TEMPLATE_CHARS} chars)`);
+      }
+    }
+
+    switch (c.type) {
+      case 'email': {
+        const to = String(c.to || '').split(',').map(a => a.trim()).filter(Boolean);
+        if (to.length === 0 || !to.every(a => EMAIL.test(a))) throw new Error('Email notification needs valid "to" address(es)');
+        return { type: 'email', to: to.join(', '), on, title: c.title, template: c.template };
+      }
+      case 'webhook': {
+        const url = String(c.url || '');
+        if (!/^https?:\/\//i.test(url)) throw new Error('Webhook notification URL must be http:// or https://');
+        return { type: 'webhook', url, method: c.method, headers: c.headers, on, template: c.template };
+      }
+      case 'desktop':
+        return { type: 'desktop', on, title: c.title, template: c.template };
+      default:
+        throw new Error(`Unknown notification channel: ${(c as any).type}`);
+    }
+  });
+}
+
+// ---- Delivery ----
+
+/**
+ * Deliver a finished run to every channel whose `on` matches. Skipped runs
+ * aren't delivered. Resolves to one error line per channel that failed.
+ */
+export async function sendNotifications(
+  schedule: Schedule,
+  run: ScheduleRunResult,
+  sendWebhook: WebhookSender,
+): Promise<string[]> {
+  if (run.result === 'skipped') return [];
+  const channels = (schedule.notifications || []).filter(c =>
+    c.on === 'always' || (c.on === 'success') === (run.result === 'success'));
+
+  const vars = {
+    schedule: { id: schedule.id, name: schedule.name, action: schedule.action.type },
+    run,
+    status: run.result === 'success' ? 'succeeded' : 'failed',
+  };
+
+  const errors: string[] = [];
+  await Promise.all(channels.map(async (channel) => {
+    try {
+      await deliver(channel, vars, sendWebhook);
+    } catch (err) {
+      errors.push(`${channel.type}: ${(err as Error).message}`);
+    }
+  }));
+  return errors;
+}
+
+async function deliver(channel: NotificationChannel, vars: Record<string, any>, sendWebhook: WebhookSender): Promise<void> {
+  switch (channel.type) {
+    case 'email': {
+      const { toolRegistry } = require('../tool-plugins');
+      const result = await toolRegistry.execute('gmail', 'send_email', {
+        to: channel.to,
+        subject: fill(channel.title ?? DEFAULT_TITLE, vars).substring(0, 200),
+        body: fill(channel.template ?? DEFAULT_MESSAGE, vars).substring(0, MAX_EMAIL_BODY_CHARS),
+      }, { source: 'schedule', ref: vars.schedule.id });
+      if (!result.success) throw new Error(result.output);
+      return;
+    }
+
+    case 'webhook':
+      await sendWebhook({
+        type: 'webhook',
+        url: channel.url,
+        method: channel.method,
+        headers: channel.headers,
+        // Without a template, post the whole run as JSON
+        body: channel.template !== undefined
+          ? fill(channel.template, vars)
+          : JSON.stringify({ schedule: vars.schedule, status: vars.status, run: vars.run }),
+      });
+      return;
+
+    case 'desktop':
+      await desktopNotify(
+        fill(channel.title ?? DEFAULT_TITLE, vars).substring(0, 100),
+        fill(channel.template ?? '{{run.error}}{{run.output}}', vars).trim().substring(0, MAX_DESKTOP_BODY_CHARS) || String(vars.status),
+      );
+      return;
+  }
+}
+
+/** `{{path.to.value}}` from vars; `| json` gives a JSON literal (for JSON webhook bodies) */
+function fill(template: string, vars: Record<string, any>): string {
+  return template.replace(TEMPLATE, (_, path: string, filter?: string) => {
+    const value = path.split('.').reduce<any>((v, key) => (v == null ? undefined : v[key]), vars);
+    if (filter === 'json') return JSON.stringify(value ?? null);
+    if (value == null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * Show an OS notification. The AppleScript and PowerShell snippets read title
+ * and body from environment variables, so run output is never parsed as
+ * script; notify-send gets them as plain arguments after `--`.
+ */
+function desktopNotify(title: string, body: string): Promise<void> {
+  const env = { ...process.env, BUHDI_NOTIFY_TITLE: title, BUHDI_NOTIFY_BODY: body };
+  let command: string;
+  let args: string[];
+
+  switch (process.platform) {
+    case 'darwin':
+      command = 'osascript';
+      args = ['-e', 'display notification (system attribute "BUHDI_NOTIFY_BODY") with title (system attribute "BUHDI_NOTIFY_TITLE")'];
+      break;
+    case 'win32':
+      command = 'powershell.exe';
+      args = ['-NoProfile', '-NonInteractive', '-Command',
+        'Add-Type -AssemblyName System.Windows.Forms; $n = New-Object System.Windows.Forms.NotifyIcon; '
+        + '$n.Icon = [System.Drawing.SystemIcons]::Information; $n.Visible = $true; '
+        + '$n.ShowBalloonTip(10000, $env:BUHDI_NOTIFY_TITLE, $env:BUHDI_NOTIFY_BODY, "None"); '
+        + 'Start-Sleep -Seconds 10; $n.Dispose()'];
+      break;
+    default:
+      command = 'notify-send';
+      args = ['--app-name=Buhdi', '--', title, body];
+  }
+
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { env, timeout: 15_000, windowsHide: true }, (err) => {
+      if (err) return reject(new Error(`${command} failed: ${err.message}`));
+      resolve();
+    });
+  });
+}
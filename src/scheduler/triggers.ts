@@ -0,0 +1,404 @@
+/**
+ * Schedule Triggers — arm and disarm whatever starts a schedule.
+ *
+ * The engine hands each enabled schedule to armTrigger() with a fire()
+ * callback; this module owns the timers, watchers and subscriptions behind
+ * it and knows when the next run is due (where that can be known at all).
+ */
+
+import * as cron from 'node-cron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Schedule, ScheduleTrigger, TriggerContext } from './types';
+import { onNodeEvent, isNodeEventName, NODE_EVENTS } from '../events';
+
+const MIN_INTERVAL_MS = 60_000;
+const MAX_TIMER_MS = 2 ** 31 - 1;       // setTimeout overflows past ~24.8 days
+const DEFAULT_DEBOUNCE_MS = 2000;
+const DEFAULT_EVENT_COOLDOWN_MS = 60_000;
+const MAX_WATCH_PATHS = 20;             // Changed paths reported per watch run
+const MAX_COUNTED_MISSED = 100;         // Missed cron runs counted before reporting "at least"
+
+// Workspace root: BUHDI_WORKSPACE env var > user's home directory (as the executor)
+const WORKSPACE_ROOT = process.env.BUHDI_WORKSPACE || os.homedir();
+
+interface ArmedTrigger {
+  stop: () => void;
+  next: () => Date | null;
+}
+
+const armed = new Map<string, ArmedTrigger>();
+
+// ---- Validation ----
+
+/** Check and normalize a trigger; throws with a user-facing message */
+export function validateTrigger(trigger: ScheduleTrigger): ScheduleTrigger {
+  if (!trigger || typeof trigger !== 'object') throw new Error('Trigger must be an object with a type');
+
+  switch (trigger.type) {
+    case 'cron': {
+      const expression = String(trigger.expression || '').trim();
+      if (!cron.validate(expression)) throw new Error(`Invalid cron expression: "${expression}"`);
+      // H2-FIX: Reject second-level crons (6 fields = fires every second)
+      if (expression.split(/\s+/).length > 5) {
+        throw new Error('Second-level cron expressions not allowed (max 5 fields, minimum interval 1 minute)');
+      }
+      return { type: 'cron', expression };
+    }
+
+    case 'once': {
+      const at = new Date(trigger.at);
+      if (isNaN(at.getTime())) throw new Error('One-shot trigger needs a valid "at" timestamp');
+      return { type: 'once', at: at.toISOString() };
+    }
+
+    case 'interval': {
+      const every = Number(trigger.every_ms);
+      if (!Number.isFinite(every) || every < MIN_INTERVAL_MS) {
+        throw new Error(`Interval must be at least ${MIN_INTERVAL_MS / 1000}s`);
+      }
+      return { type: 'interval', every_ms: Math.floor(every) };
+    }
+
+    case 'watch': {
+      const resolved = resolveWatchPath(trigger.path);
+      const debounce = Math.min(Math.max(Number(trigger.debounce_ms) || DEFAULT_DEBOUNCE_MS, 500), 60_000);
+      return { type: 'watch', path: resolved, debounce_ms: debounce };
+    }
+
+    case 'webhook':
+      return { type: 'webhook', secret_hash: trigger.secret_hash };
+
+    case 'event': {
+      if (!isNodeEventName(trigger.event)) {
+        throw new Error(`Unknown event "${trigger.event}". Available: ${NODE_EVENTS.join(', ')}`);
+      }
+      const filter: Record<string, string> = {};
+      for (const [k, v] of Object.entries(trigger.filter || {})) filter[k] = String(v);
+      const cooldown = Math.max(Number(trigger.cooldown_ms ?? DEFAULT_EVENT_COOLDOWN_MS) || 0, 1000);
+      return { type: 'event', event: trigger.event, filter, cooldown_ms: cooldown };
+    }
+
+    default:
+      throw new Error(`Unknown trigger type: ${(trigger as any).type}`);
+  }
+}
+
+/**
+ * Watched paths must exist inside the workspace (symlinks resolved).
+ * Relative paths and ~ are taken from the workspace root.
+ */
+function resolveWatchPath(p: string): string {
+  if (!p || typeof p !== 'string') throw new Error('Watch trigger needs a path');
+  const expanded = p.startsWith('~') ? path.join(os.homedir(), p.slice(1)) : p;
+  let resolved: string;
+  try {
+    resolved = fs.realpathSync(path.resolve(WORKSPACE_ROOT, expanded));
+  } catch {
+    throw new Error(`Watch path does not exist: ${p}`);
+  }
+  const root = path.resolve(WORKSPACE_ROOT);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error('Watch path must be inside the workspace');
+  }
+  return resolved;
+}
+
+/** Check an IANA time zone name; throws with a user-facing message */
+export function validateTimezone(timeZone: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Unknown timezone: "${timeZone}"`);
+  }
+  return timeZone;
+}
+
+// ---- Webhook secrets ----
+
+export function newWebhookSecret(): { secret: string; hash: string } {
+  const secret = crypto.randomBytes(24).toString('hex');
+  return { secret, hash: hashSecret(secret) };
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/** Constant-time check of a presented secret against a webhook trigger */
+export function verifyWebhookSecret(trigger: ScheduleTrigger, secret: string | undefined): boolean {
+  if (trigger.type !== 'webhook' || !trigger.secret_hash || !secret) return false;
+  const expected = Buffer.from(trigger.secret_hash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// ---- Arming ----
+
+export function armTrigger(schedule: Schedule, fire: (context: TriggerContext) => void): void {
+  disarmTrigger(schedule.id);
+  const t = schedule.trigger;
+  const source = t.type;
+
+  switch (t.type) {
+    case 'cron': {
+      const task = cron.schedule(t.expression, () => fire({ source }), { scheduled: true, timezone: schedule.timezone });
+      armed.set(schedule.id, { stop: () => task.stop(), next: () => nextCronRun(t.expression, new Date(), schedule.timezone) });
+      return;
+    }
+
+    case 'once': {
+      const at = new Date(t.at).getTime();
+      // A one-shot missed while the node was down still runs once
+      if (at <= Date.now() && schedule.last_run_at) return;
+      let timer: ReturnType<typeof setTimeout>;
+      const wait = () => {
+        const remaining = at - Date.now();
+        timer = remaining > 0
+          ? setTimeout(wait, Math.min(remaining, MAX_TIMER_MS))
+          : setTimeout(() => fire({ source }), 0);
+      };
+      wait();
+      armed.set(schedule.id, { stop: () => clearTimeout(timer), next: () => new Date(Math.max(at, Date.now())) });
+      return;
+    }
+
+    case 'interval': {
+      let due = Date.now() + t.every_ms;
+      const timer = setInterval(() => {
+        due = Date.now() + t.every_ms;
+        fire({ source });
+      }, t.every_ms);
+      armed.set(schedule.id, { stop: () => clearInterval(timer), next: () => new Date(due) });
+      return;
+    }
+
+    case 'watch': {
+      const changed = new Set<string>();
+      let debounce: ReturnType<typeof setTimeout> | null = null;
+      let watcher: fs.FSWatcher;
+      try {
+        watcher = fs.watch(t.path, { recursive: true }, (eventType, filename) => {
+          if (filename && changed.size < MAX_WATCH_PATHS) changed.add(path.join(t.path, filename.toString()));
+          if (debounce) clearTimeout(debounce);
+          debounce = setTimeout(() => {
+            debounce = null;
+            const paths = [...changed];
+            changed.clear();
+            fire({ source, data: { path: t.path, changed: paths } });
+          }, t.debounce_ms ?? DEFAULT_DEBOUNCE_MS);
+        });
+      } catch (err) {
+        console.error(`[scheduler] Cannot watch ${t.path} for "${schedule.name}":`, (err as Error).message);
+        return;
+      }
+      watcher.on('error', (err) => {
+        console.error(`[scheduler] Watch on ${t.path} for "${schedule.name}" stopped:`, err.message);
+        disarmTrigger(schedule.id);
+      });
+      armed.set(schedule.id, {
+        stop: () => { if (debounce) clearTimeout(debounce); watcher.close(); },
+        next: () => null,
+      });
+      return;
+    }
+
+    case 'webhook':
+      // Fired by the /api/hooks/:id route; nothing to arm
+      armed.set(schedule.id, { stop: () => {}, next: () => null });
+      return;
+
+    case 'event': {
+      let lastFired = 0;
+      const unsubscribe = onNodeEvent((event) => {
+        if (event.name !== t.event) return;
+        // A schedule's own agent run must not re-trigger it
+        if (event.data.ref === schedule.id) return;
+        for (const [k, v] of Object.entries(t.filter || {})) {
+          if (String(event.data[k]) !== v) return;
+        }
+        if (Date.now() - lastFired < (t.cooldown_ms ?? DEFAULT_EVENT_COOLDOWN_MS)) return;
+        lastFired = Date.now();
+        fire({ source, data: { event: event.name, at: event.at, ...event.data } });
+      });
+      armed.set(schedule.id, { stop: unsubscribe, next: () => null });
+      return;
+    }
+  }
+}
+
+export function disarmTrigger(id: string): void {
+  const entry = armed.get(id);
+  if (entry) {
+    entry.stop();
+    armed.delete(id);
+  }
+}
+
+export function disarmAll(): void {
+  for (const id of [...armed.keys()]) disarmTrigger(id);
+}
+
+export function armedCount(): number {
+  return armed.size;
+}
+
+/** When an armed schedule will next run, or null if that depends on outside events */
+export function nextRunOf(id: string): Date | null {
+  return armed.get(id)?.next() ?? null;
+}
+
+// ---- Missed runs ----
+
+/**
+ * Times a cron or interval schedule should have run in (since, until], oldest
+ * first, at most `limit` of them (the newest ones), and how many there were.
+ * Cron runs are counted up to MAX_COUNTED_MISSED; past that `more` is set
+ * and `total` is a lower bound. Other triggers can't miss runs in a way that
+ * can be counted, so they return nothing.
+ */
+export function missedRuns(
+  schedule: Schedule,
+  since: Date,
+  until: Date,
+  limit: number,
+): { times: Date[]; total: number; more?: boolean } {
+  const t = schedule.trigger;
+  let times: Date[] = [];
+  let total = 0;
+
+  if (t.type === 'cron') {
+    const tz = schedule.timezone;
+    for (let next = nextCronRun(t.expression, since, tz); next && next <= until; next = nextCronRun(t.expression, next, tz)) {
+      if (total === MAX_COUNTED_MISSED) return { times: newestCronRuns(t.expression, since, until, limit, tz), total, more: true };
+      total++;
+      times.push(next);
+      if (times.length > limit) times.shift();
+    }
+  } else if (t.type === 'interval') {
+    total = Math.floor((until.getTime() - since.getTime()) / t.every_ms);
+    for (let i = Math.max(1, total - limit + 1); i <= total; i++) {
+      times.push(new Date(since.getTime() + i * t.every_ms));
+    }
+  }
+  return { times, total };
+}
+
+// ---- Cron arithmetic ----
+
+/**
+ * The newest `limit` runs in (since, until], found by searching back from
+ * `until` in windows that double until they hold enough, so a long gap
+ * isn't walked minute by minute.
+ */
+function newestCronRuns(expression: string, since: Date, until: Date, limit: number, timeZone?: string): Date[] {
+  for (let span = 3_600_000; ; span *= 2) {
+    const start = new Date(Math.max(since.getTime(), until.getTime() - span));
+    const times: Date[] = [];
+    for (let next = nextCronRun(expression, start, timeZone); next && next <= until; next = nextCronRun(expression, next, timeZone)) {
+      times.push(next);
+      if (times.length > limit) times.shift();
+    }
+    if (times.length >= limit || start.getTime() === since.getTime()) return times;
+  }
+}
+
+const CRON_MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july',
+  'august', 'september', 'october', 'november', 'december'];
+const CRON_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const CRON_FULL_RANGES = ['0-59', '0-59', '0-23', '1-31', '1-12', '0-6'];
+
+/**
+ * The values each field of a cron expression allows, seconds first. A port
+ * of node-cron 3.0.x's src/convert-expression (ISC), which isn't part of its
+ * public API: names become numbers, `*` the full range, ranges lists, and a
+ * step keeps the values divisible by it (so `5-59/10` is 10,20,…,50, as
+ * node-cron fires it).
+ */
+function expandCron(expression: string): Array<Set<number>> {
+  let fields = expression.replace(/\s{2,}/g, ' ').trim().split(' ');
+  if (fields.length === 5) fields = ['0', ...fields];
+
+  fields[4] = cronNames(cronNames(fields[4], CRON_MONTHS, 1), CRON_MONTHS.map(m => m.slice(0, 3)), 1);
+  fields[5] = fields[5].replace('7', '0');
+  fields[5] = cronNames(cronNames(fields[5], CRON_WEEKDAYS, 0), CRON_WEEKDAYS.map(d => d.slice(0, 3)), 0);
+
+  return fields.map((field, i) => {
+    let f = field.replace('*', CRON_FULL_RANGES[i] ?? '*');
+    for (let m = /(\d+)-(\d+)/.exec(f); m; m = /(\d+)-(\d+)/.exec(f)) {
+      const [lo, hi] = [parseInt(m[1], 10), parseInt(m[2], 10)].sort((a, b) => a - b);
+      f = f.replace(m[0], Array.from({ length: hi - lo + 1 }, (_, k) => lo + k).join(','));
+    }
+    const step = /^(.+)\/(\w+)$/.exec(f);
+    if (step) {
+      const divider = Number(step[2]);
+      if (isNaN(divider)) throw new Error(`${step[2]} is not a valid step value`);
+      f = step[1].split(',').filter(v => parseInt(v, 10) % divider === 0).join(',');
+    }
+    return new Set(f.split(',').map(v => parseInt(v, 10)));
+  });
+}
+
+function cronNames(field: string, names: string[], first: number): string {
+  return names.reduce((f, name, i) => f.replace(new RegExp(name, 'gi'), String(i + first)), field);
+}
+
+/**
+ * Next minute matching a cron expression within a year, on the clock of
+ * `timeZone` (server-local when unset). Fields are expanded the way
+ * node-cron expands them, so names, ranges and steps mean exactly what they
+ * mean to the scheduler (all fields must match).
+ */
+export function nextCronRun(expression: string, from: Date = new Date(), timeZone?: string): Date | null {
+  const [, minutes, hours, days, months, weekdays] = expandCron(expression);
+
+  // Step through wall-clock time held in a UTC date, then map back to an instant
+  const t = wallClock(from, timeZone);
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  const limit = t.getTime() + 366 * 86_400_000;
+
+  while (t.getTime() <= limit) {
+    if (!months.has(t.getUTCMonth() + 1) || !days.has(t.getUTCDate()) || !weekdays.has(t.getUTCDay())) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return fromWallClock(t, timeZone);
+  }
+  return null;
+}
+
+/** What a time zone's clock shows at an instant, as a UTC date (read it with getUTC*) */
+function wallClock(at: Date, timeZone?: string): Date {
+  const parts: Record<string, number> = {};
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  });
+  for (const p of format.formatToParts(at)) parts[p.type] = Number(p.value);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/**
+ * The instant a time zone's clock shows a wall-clock time. A time repeated
+ * when clocks go back maps to its first occurrence; a time skipped when they
+ * go forward maps to just after the jump (02:30 becomes 03:30).
+ */
+function fromWallClock(wall: Date, timeZone?: string): Date {
+  const target = wall.getTime();
+  const offsetAt = (ms: number) => wallClock(new Date(ms), timeZone).getTime() - ms;
+  const first = target - offsetAt(target - offsetAt(target));
+  const candidates = [first, target - offsetAt(first)].sort((a, b) => a - b);
+  return new Date(candidates.find(c => wallClock(new Date(c), timeZone).getTime() === target) ?? candidates[1]);
+}
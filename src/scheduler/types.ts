@@ -2,53 +2,176 @@
  * Scheduler Types — Local cron-like task scheduling.
  */
 
+import { NodeEventName } from '../events';
+
 export type ScheduleAction =
   | { type: 'agent'; goal: string; config?: Record<string, any> }
   | { type: 'tool'; plugin: string; method: string; params?: Record<string, any> }
   | { type: 'webhook'; url: string; method?: string; headers?: Record<string, string>; body?: string }
-  | { type: 'script'; command: string; cwd?: string; timeout_ms?: number };
+  | { type: 'script'; command: string; cwd?: string; timeout_ms?: number }
+  | { type: 'workflow'; steps: WorkflowStep[] };
+
+/** A single call — everything but a workflow (workflows don't nest) */
+export type StepAction = Exclude<ScheduleAction, { type: 'workflow' }>;
+
+/**
+ * One step of a workflow action. String values in `action` may use
+ * templates, filled in just before the step runs:
+ *   {{steps.<id>.output}}  {{steps.<id>.json.<path>}}  {{steps.<id>.status}}
+ *   {{trigger.source}}  {{trigger.data.<path>}}
+ * Steps run once everything in `needs` has finished; without `needs` a step
+ * follows the one before it, so a plain list runs in order.
+ */
+export interface WorkflowStep {
+  id: string;
+  action: StepAction;
+  needs?: string[];
+  when?: string;               // Condition, e.g. "{{steps.search.json.count}} > 0"; false = skipped
+  retries?: number;            // Max 5, exponential backoff
+  timeout_ms?: number;         // Defaults to the schedule's timeout_ms
+  continue_on_error?: boolean; // A failure doesn't fail the run or skip dependents
+}
+
+export type WorkflowStepStatus = 'success' | 'error' | 'skipped';
+
+export interface WorkflowStepResult {
+  step_id: string;
+  status: WorkflowStepStatus;
+  attempts: number;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_ms: number;
+  output: string;
+  error: string | null;        // Failure, or why the step was skipped
+  agent_run_id?: string | null;
+}
+
+/**
+ * What starts a schedule. Every trigger feeds the same action executors.
+ * - cron: standard 5-field expression
+ * - once: a single run at a timestamp (the schedule disables itself after)
+ * - interval: every N ms (min 60s), counted from when the schedule starts
+ * - watch: file changes under a path in the workspace, debounced
+ * - webhook: POST /api/hooks/:id carrying the schedule's secret
+ * - event: a node event (see NODE_EVENTS), optionally filtered on its data
+ */
+export type ScheduleTrigger =
+  | { type: 'cron'; expression: string }
+  | { type: 'once'; at: string }
+  | { type: 'interval'; every_ms: number }
+  | { type: 'watch'; path: string; debounce_ms?: number }
+  | { type: 'webhook'; secret_hash?: string }
+  | { type: 'event'; event: NodeEventName; filter?: Record<string, string>; cooldown_ms?: number };
+
+export type ScheduleTriggerType = ScheduleTrigger['type'];
+
+/** What fired a particular run, handed to the action (agent goals see it) */
+export interface TriggerContext {
+  source: ScheduleTriggerType | 'manual' | 'catch_up';
+  data?: Record<string, any>;
+}
+
+/**
+ * What happens when a schedule fires while its previous run is going:
+ * skip the new run, queue it behind the current one, or cancel the current
+ * one and start over.
+ */
+export type OverlapPolicy = 'skip' | 'queue' | 'cancel_previous';
+
+/**
+ * Runs a cron or interval schedule missed while the node was down, found at
+ * startup from the stored last run: forget them, run once, or run each.
+ */
+export type CatchUpPolicy = 'none' | 'last' | 'all';
+
+/** When a notification channel fires; failures only by default */
+export type NotifyOn = 'success' | 'failure' | 'always';
+
+/**
+ * Where a schedule reports its runs, besides the dashboard feed. `title`
+ * (email subject / desktop title) and `template` (message body) may use
+ * {{schedule.name}}, {{status}}, {{run.output}}, {{run.error}} and the other
+ * run fields; a webhook without a template posts the run as JSON.
+ */
+export type NotificationChannel =
+  | { type: 'email'; to: string; on?: NotifyOn; title?: string; template?: string }
+  | { type: 'webhook'; url: string; method?: string; headers?: Record<string, string>; on?: NotifyOn; template?: string }
+  | { type: 'desktop'; on?: NotifyOn; title?: string; template?: string };
 
 export interface Schedule {
   id: string;
   name: string;
-  cron: string;              // Standard cron expression (5 or 6 fields)
+  trigger: ScheduleTrigger;
+  cron: string;              // Cron expression for cron triggers, '' otherwise (kept for older clients)
   action: ScheduleAction;
+  timezone?: string;          // IANA zone for cron triggers; server-local when unset
+  jitter_ms?: number;         // Random delay up to this before cron, interval and one-shot runs
+  overlap: OverlapPolicy;
+  catch_up: CatchUpPolicy;
   enabled: boolean;
   created_at: string;
   updated_at: string;
   last_run_at: string | null;
   last_result: string | null; // 'success' | 'error' | null
   last_error: string | null;
+  last_agent_run_id?: string | null; // Stored agent run from the latest 'agent' action
+  agent_tokens?: number;       // Cumulative LLM tokens spent by 'agent' actions
+  agent_cost_usd?: number;     // Cumulative estimated spend of 'agent' actions
   run_count: number;
   max_retries: number;        // 0 = no retry
   timeout_ms: number;         // Default 30000
   notify: boolean;            // Push result to dashboard activity feed
+  notifications?: NotificationChannel[];
 }
 
 export interface ScheduleCreateInput {
   name: string;
-  cron: string;
+  trigger?: ScheduleTrigger;
+  cron?: string;               // Shorthand for { type: 'cron', expression }
   action: ScheduleAction;
+  timezone?: string | null;    // null clears it on update
+  jitter_ms?: number;
+  overlap?: OverlapPolicy;     // Default 'skip'
+  catch_up?: CatchUpPolicy;    // Default 'none'
   enabled?: boolean;
   max_retries?: number;
   timeout_ms?: number;
   notify?: boolean;
+  notifications?: NotificationChannel[];
 }
 
 export interface ScheduleRunResult {
   schedule_id: string;
+  trigger: TriggerContext['source'];
+  attempt: number;             // 1 = first try, 2+ = retries
   started_at: string;
   finished_at: string;
   duration_ms: number;
-  result: 'success' | 'error';
+  result: 'success' | 'error' | 'skipped'; // skipped: overlapped or missed, `error` says why
   output: string;
   error: string | null;
+  agent_run_id?: string | null;
+  steps?: WorkflowStepResult[]; // Workflow actions only
+}
+
+/** A stored run attempt */
+export interface ScheduleRunRecord extends ScheduleRunResult {
+  id: number;
+  schedule_name: string;
+}
+
+/** How much run history is kept; 0 disables a limit */
+export interface ScheduleHistoryRetention {
+  max_runs_per_schedule: number;
+  max_age_days: number;
 }
 
 export interface SchedulerStatus {
   running: boolean;
   schedule_count: number;
   active_count: number;
-  next_runs: Array<{ id: string; name: string; next: string }>;
+  next_runs: Array<{ id: string; name: string; trigger: ScheduleTriggerType; next: string | null }>; // null = not predictable (watch, webhook, event)
   total_runs: number;
+  agent_cost_usd: number;      // Cumulative agent spend across all schedules
+  history_retention: ScheduleHistoryRetention;
 }
@@ -0,0 +1,402 @@
+/**
+ * Workflow Actions — several calls in one schedule, outputs flowing forward.
+ *
+ * Steps form a DAG (a plain list is a chain). Each step's action is
+ * templated from the trigger and from the steps it depends on, gated by an
+ * optional condition, and run with its own retries and timeout. The engine
+ * supplies the executor, so steps run exactly like single actions do.
+ *
+ * Each attempt gets its own abort signal, fired when the run is cancelled or
+ * the attempt times out, so the call underneath stops rather than running
+ * on beside its retry. A call that can't be stopped and isn't safe to repeat
+ * is not retried after a timeout.
+ */
+
+import { StepAction, TriggerContext, WorkflowStep, WorkflowStepResult } from './types';
+
+const MAX_STEPS = 20;
+const MAX_STEP_RETRIES = 5;
+const MAX_TEMPLATE_OUTPUT_CHARS = 32_000; // Step output available to later steps
+const MAX_STORED_OUTPUT_CHARS = 4096;     // Step output kept in run history
+const STEP_ID = /^[A-Za-z][\w-]{0,39}$/;
+const TEMPLATE = /\{\{\s*([^{}|]+?)\s*(?:\|\s*(json)\s*)?\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*([^{}|]+?)\s*(?:\|\s*(json)\s*)?\}\}$/;
+const CONDITION = /^(.*?)\s*(==|!=|>=|<=|>|<|\scontains\s)\s*(.*)$/;
+
+/**
+ * What an action produced. `failed` marks an action that ran and failed in a
+ * way a retry won't fix (e.g. an agent run out of budget); a thrown error
+ * is retried.
+ */
+export interface StepOutcome {
+  output: string;
+  agent_run_id?: string | null;
+  failed?: string;
+}
+
+export type StepExecutor = (action: StepAction, timeout_ms: number, signal: AbortSignal) => Promise<StepOutcome>;
+
+interface StepState {
+  status: WorkflowStepResult['status'];
+  output: string;
+  json?: unknown;
+  continueOnError: boolean;
+}
+
+// ---- Validation ----
+
+/**
+ * Check and normalize workflow steps: unique ids, known dependencies, no
+ * cycles, templates that only read upstream steps. `validateStep` checks each
+ * step's action the way single actions are checked.
+ */
+export function validateWorkflow(steps: WorkflowStep[], validateStep: (action: StepAction) => void): WorkflowStep[] {
+  if (!Array.isArray(steps) || steps.length === 0) throw new Error('Workflow action requires at least one step');
+  if (steps.length > MAX_STEPS) throw new Error(`Workflow too long (max ${MAX_STEPS} steps)`);
+
+  const ids = new Set<string>();
+  const normalized = steps.map((step, i) => {
+    if (!step || typeof step !== 'object') throw new Error(`Workflow step ${i + 1} must be an object`);
+    const id = String(step.id ?? '');
+    if (!STEP_ID.test(id)) throw new Error(`Workflow step ${i + 1}: id must be a letter followed by letters, digits, _ or - (max 40)`);
+    if (ids.has(id)) throw new Error(`Duplicate workflow step id "${id}"`);
+    ids.add(id);
+    if (!step.action || (step.action as any).type === 'workflow') throw new Error(`Workflow step "${id}" needs a non-workflow action`);
+    validateStep(step.action);
+    // A shell would run whatever step output or trigger data a template put there
+    if (step.action.type === 'script' && JSON.stringify(step.action).includes('{{')) {
+      throw new Error(`Workflow step "${id}": script steps can't use templates`);
+    }
+
+    if (step.needs !== undefined && !Array.isArray(step.needs)) throw new Error(`Workflow step "${id}": needs must be a list of step ids`);
+    const needs = step.needs === undefined ? (i > 0 ? [String(steps[i - 1].id)] : []) : step.needs.map(String);
+    return {
+      id,
+      action: step.action,
+      needs: [...new Set(needs)],
+      when: step.when ? String(step.when) : undefined,
+      retries: Math.min(Math.max(Math.floor(Number(step.retries) || 0), 0), MAX_STEP_RETRIES),
+      timeout_ms: step.timeout_ms !== undefined ? Math.min(Math.max(Number(step.timeout_ms) || 0, 1000), 300000) : undefined,
+      continue_on_error: step.continue_on_error === true,
+    } as WorkflowStep;
+  });
+
+  const byId = new Map(normalized.map(s => [s.id, s]));
+  for (const step of normalized) {
+    for (const need of step.needs!) {
+      if (!byId.has(need)) throw new Error(`Workflow step "${step.id}" needs unknown step "${need}"`);
+    }
+  }
+
+  // Cycle check and upstream sets in one walk
+  const upstream = new Map<string, Set<string>>();
+  const visiting = new Set<string>();
+  const walk = (id: string): Set<string> => {
+    const known = upstream.get(id);
+    if (known) return known;
+    if (visiting.has(id)) throw new Error(`Workflow steps form a cycle through "${id}"`);
+    visiting.add(id);
+    const set = new Set<string>();
+    for (const need of byId.get(id)!.needs!) {
+      set.add(need);
+      for (const up of walk(need)) set.add(up);
+    }
+    visiting.delete(id);
+    upstream.set(id, set);
+    return set;
+  };
+
+  for (const step of normalized) {
+    const before = walk(step.id);
+    for (const ref of stepRefs(JSON.stringify(step.action) + ' ' + (step.when ?? ''))) {
+      if (!before.has(ref)) {
+        throw new Error(`Workflow step "${step.id}" uses {{steps.${ref}…}} but doesn't depend on "${ref}"`);
+      }
+    }
+  }
+  return normalized;
+}
+
+/** Step ids read by the templates in a string */
+function stepRefs(text: string): string[] {
+  const refs: string[] = [];
+  for (const m of text.matchAll(TEMPLATE)) {
+    const [root, id] = m[1].split('.');
+    if (root === 'steps' && id) refs.push(id);
+  }
+  return refs;
+}
+
+// ---- Running ----
+
+/**
+ * Run a workflow to completion. A step runs once everything it needs has
+ * finished; steps that become ready together run side by side. A failed
+ * step (unless continue_on_error) or a skipped one skips everything
+ * downstream of it. `retryAfterTimeout` says which actions may run again
+ * after an attempt timed out (none by default).
+ */
+export async function runWorkflow(
+  steps: WorkflowStep[],
+  execute: StepExecutor,
+  defaultTimeoutMs: number,
+  context: TriggerContext,
+  signal?: AbortSignal,
+  retryAfterTimeout: (action: StepAction) => boolean = () => false,
+): Promise<WorkflowStepResult[]> {
+  const state = new Map<string, StepState>();
+  const results = new Map<string, WorkflowStepResult>();
+  const pending = [...steps];
+
+  while (pending.length > 0) {
+    const ready = pending.filter(s => (s.needs || []).every(n => state.has(n)));
+    if (ready.length === 0) break; // Unreachable after validation; guards against a stuck loop
+    for (const step of ready) pending.splice(pending.indexOf(step), 1);
+
+    await Promise.all(ready.map(async (step) => {
+      const result = signal?.aborted
+        ? skipped(step.id, 'Run cancelled')
+        : await runStep(step, state, execute, defaultTimeoutMs, context, signal, retryAfterTimeout);
+      results.set(step.id, result);
+      state.set(step.id, {
+        status: result.status,
+        output: result.status === 'success' ? result.output : '',
+        continueOnError: step.continue_on_error === true,
+      });
+    }));
+  }
+
+  // Report in the order the steps were written, with each stored output capped
+  return steps.map(s => {
+    const r = results.get(s.id) ?? skipped(s.id, 'Not reached');
+    return { ...r, output: r.output.substring(0, MAX_STORED_OUTPUT_CHARS) };
+  });
+}
+
+async function runStep(
+  step: WorkflowStep,
+  state: Map<string, StepState>,
+  execute: StepExecutor,
+  defaultTimeoutMs: number,
+  context: TriggerContext,
+  signal: AbortSignal | undefined,
+  retryAfterTimeout: (action: StepAction) => boolean,
+): Promise<WorkflowStepResult> {
+  for (const need of step.needs || []) {
+    const up = state.get(need)!;
+    if (up.status === 'skipped') return skipped(step.id, `"${need}" was skipped`);
+    if (up.status === 'error' && !up.continueOnError) return skipped(step.id, `"${need}" failed`);
+  }
+
+  const scope = { steps: state, trigger: context };
+  if (step.when) {
+    let pass: boolean;
+    try {
+      pass = evaluateCondition(step.when, scope);
+    } catch (err) {
+      return { ...skipped(step.id, ''), status: 'error', error: `Condition failed: ${(err as Error).message}` };
+    }
+    if (!pass) return skipped(step.id, `Condition not met: ${step.when}`);
+  }
+
+  const startedAt = new Date().toISOString();
+  const startMs = Date.now();
+  const timeoutMs = step.timeout_ms ?? defaultTimeoutMs;
+  let attempts = 0;
+  let lastError = '';
+
+  while (attempts <= (step.retries ?? 0) && !(attempts > 0 && signal?.aborted)) {
+    if (attempts > 0) await new Promise(r => setTimeout(r, Math.min(1000 * Math.pow(2, attempts - 1), 30000)));
+    attempts++;
+    const action = renderAction(step.action, scope);
+    const attempt = new AbortController();
+    const cancel = () => attempt.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      const outcome = await withTimeout(execute(action, timeoutMs, attempt.signal), timeoutMs, step.id, attempt);
+      if (outcome.failed) {
+        return {
+          step_id: step.id, status: 'error', attempts,
+          started_at: startedAt, finished_at: new Date().toISOString(), duration_ms: Date.now() - startMs,
+          output: outcome.output.substring(0, MAX_TEMPLATE_OUTPUT_CHARS), error: outcome.failed,
+          agent_run_id: outcome.agent_run_id,
+        };
+      }
+      return {
+        step_id: step.id, status: 'success', attempts,
+        started_at: startedAt, finished_at: new Date().toISOString(), duration_ms: Date.now() - startMs,
+        output: outcome.output.substring(0, MAX_TEMPLATE_OUTPUT_CHARS), error: null,
+        agent_run_id: outcome.agent_run_id,
+      };
+    } catch (err) {
+      lastError = (err as Error).message || String(err);
+      // The attempt was aborted but the run wasn't: it timed out
+      if (attempt.signal.aborted && !signal?.aborted && !retryAfterTimeout(action)) break;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  return {
+    step_id: step.id, status: 'error', attempts,
+    started_at: startedAt, finished_at: new Date().toISOString(), duration_ms: Date.now() - startMs,
+    output: '', error: lastError,
+  };
+}
+
+function skipped(stepId: string, reason: string): WorkflowStepResult {
+  return {
+    step_id: stepId, status: 'skipped', attempts: 0,
+    started_at: null, finished_at: null, duration_ms: 0, output: '', error: reason,
+  };
+}
+
+/** Give up on an attempt after `ms`, aborting it so the call underneath stops too */
+function withTimeout<T>(promise: Promise<T>, ms: number, stepId: string, attempt: AbortController): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`Step "${stepId}" timed out after ${ms}ms`));
+      attempt.abort();
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// ---- Templates ----
+
+interface TemplateScope {
+  steps: Map<string, StepState>;
+  trigger: TriggerContext;
+}
+
+/**
+ * Fill templates into a step's action. Tool params keep non-string values
+ * whole. Scripts are never templated: their command goes to a shell.
+ */
+function renderAction(action: StepAction, scope: TemplateScope): StepAction {
+  if (action.type === 'script') return action;
+  const rendered: any = {};
+  for (const [key, value] of Object.entries(action)) {
+    if (key === 'type') rendered[key] = value;
+    else if (action.type === 'tool' && key === 'params') rendered[key] = renderValue(value, scope);
+    else rendered[key] = renderStrings(value, scope);
+  }
+  return rendered;
+}
+
+/** Render every string inside a value, always producing strings */
+function renderStrings(value: unknown, scope: TemplateScope): unknown {
+  if (typeof value === 'string') return renderString(value, scope);
+  if (Array.isArray(value)) return value.map(v => renderStrings(v, scope));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderStrings(v, scope)]));
+  }
+  return value;
+}
+
+/** Like renderStrings, but a string that is one template becomes the raw value */
+function renderValue(value: unknown, scope: TemplateScope): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_TEMPLATE);
+    if (whole && !whole[2]) return lookup(whole[1], scope) ?? '';
+    return renderString(value, scope);
+  }
+  if (Array.isArray(value)) return value.map(v => renderValue(v, scope));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderValue(v, scope)]));
+  }
+  return value;
+}
+
+function renderString(text: string, scope: TemplateScope): string {
+  return text.replace(TEMPLATE, (_, expr: string, filter?: string) => {
+    const value = lookup(expr, scope);
+    // | json: a JSON literal, for splicing into a JSON webhook body
+    if (filter === 'json') return JSON.stringify(value ?? null);
+    return stringify(value);
+  });
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** Resolve a dotted template path; unknown paths are undefined */
+function lookup(expr: string, scope: TemplateScope): unknown {
+  const [root, ...rest] = expr.trim().split('.');
+  let value: unknown;
+  if (root === 'trigger') {
+    value = scope.trigger;
+  } else if (root === 'steps') {
+    const step = scope.steps.get(rest.shift() ?? '');
+    if (!step) return undefined;
+    const field = rest.shift();
+    if (field === 'output') value = step.output;
+    else if (field === 'status') value = step.status;
+    else if (field === 'json') value = parsedOutput(step);
+    else return undefined;
+  } else {
+    return undefined;
+  }
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as any)[key];
+  }
+  return value;
+}
+
+function parsedOutput(step: StepState): unknown {
+  if (step.json === undefined) {
+    try { step.json = JSON.parse(step.output); } catch { step.json = null; }
+  }
+  return step.json;
+}
+
+// ---- Conditions ----
+
+/**
+ * `<a> <op> <b>` with ==, !=, >, >=, <, <= or contains, or a single operand
+ * that must be truthy (not empty, "false", "0", "null", [] or {}). The
+ * operator is found before templates are filled in, so step output can't
+ * change the shape of the condition. Sides are compared as numbers when
+ * both are numeric.
+ */
+function evaluateCondition(condition: string, scope: TemplateScope): boolean {
+  const templates: string[] = [];
+  const masked = condition.replace(TEMPLATE, (m) => `\u0000${templates.push(m) - 1}\u0000`);
+  const unmask = (s: string) => s.replace(/\u0000(\d+)\u0000/g, (_, i) => templates[Number(i)]);
+  const operand = (s: string) => unquote(renderString(unmask(s.trim()), scope));
+
+  const m = masked.match(CONDITION);
+  if (!m) return truthy(operand(masked));
+
+  const a = operand(m[1]);
+  const b = operand(m[3]);
+  const op = m[2].trim();
+  if (op === 'contains') return a.toLowerCase().includes(b.toLowerCase());
+
+  const numeric = a.trim() !== '' && b.trim() !== '' && !isNaN(Number(a)) && !isNaN(Number(b));
+  switch (op) {
+    case '==': return numeric ? Number(a) === Number(b) : a === b;
+    case '!=': return numeric ? Number(a) !== Number(b) : a !== b;
+  }
+  if (!numeric) throw new Error(`"${op}" needs numbers, got "${a.substring(0, 40)}" and "${b.substring(0, 40)}"`);
+  switch (op) {
+    case '>': return Number(a) > Number(b);
+    case '>=': return Number(a) >= Number(b);
+    case '<': return Number(a) < Number(b);
+    default: return Number(a) <= Number(b);
+  }
+}
+
+function unquote(s: string): string {
+  const t = s.trim();
+  return /^(['"]).*\1$/s.test(t) ? t.slice(1, -1) : t;
+}
+
+function truthy(value: string): boolean {
+  const v = value.trim().toLowerCase();
+  return v !== '' && v !== 'false' && v !== '0' && v !== 'null' && v !== '[]' && v !== '{}';
+}
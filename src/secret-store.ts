@@ -0,0 +1,379 @@
+/**
+ * Secret Store — the one place secrets live on this node.
+ *
+ * Every secret sits in ~/.buhdi-node/secrets.enc.json under a namespace:
+ *   tool    tool plugin credentials (API keys, OAuth bundles), with plaintext metadata
+ *   plugin  sandboxed plugin secrets, named "<plugin>/<key>"
+ *   llm     LLM provider API keys, named after the provider
+ *   cloud   the node's RSA private key for cloud vault secrets
+ *
+ * Key derivation happens once: PBKDF2 (600K) over ~/.buhdi/machine-secret and
+ * ~/.buhdi/vault-salt gives the install key, and HKDF turns that into one
+ * AES-256-GCM key per namespace. Each entry is bound to its namespace and name,
+ * so ciphertexts can't be swapped between entries. Every read is written to
+ * secrets-audit.log (names only, never values).
+ *
+ * On first use, secrets from the older stores (credentials.enc.json, per-plugin
+ * vault.enc files, vault-key.enc and apiKey fields in config.json) are moved in.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, saveConfig } from './config';
+
+const CONFIG_DIR = process.env.BUHDI_NODE_CONFIG_DIR || path.join(os.homedir(), '.buhdi-node');
+const STORE_FILE = path.join(CONFIG_DIR, 'secrets.enc.json');
+const AUDIT_FILE = path.join(CONFIG_DIR, 'secrets-audit.log');
+const MAX_AUDIT_BYTES = 5 * 1024 * 1024;
+
+const KEY_DIR = path.join(os.homedir(), '.buhdi');
+const MACHINE_SECRET_FILE = path.join(KEY_DIR, 'machine-secret');
+const SALT_FILE = path.join(KEY_DIR, 'vault-salt');
+const PBKDF2_ITERATIONS = 600_000;
+const KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export const SECRET_NAMESPACES = ['tool', 'plugin', 'llm', 'cloud'] as const;
+export type SecretNamespace = typeof SECRET_NAMESPACES[number];
+
+export type SecretMeta = Record<string, unknown>;
+
+export interface SecretAuditEntry {
+  timestamp: string;
+  action: 'read' | 'write' | 'delete';
+  namespace: SecretNamespace;
+  name: string;
+  /** Who asked, e.g. 'tool-registry', 'plugin:weather', 'llm-router' */
+  reader?: string;
+  ok: boolean;
+}
+
+export interface SecretStore {
+  /** Decrypt a secret; null if it doesn't exist or can't be decrypted. Audited. */
+  get(namespace: SecretNamespace, name: string, reader: string): string | null;
+  set(namespace: SecretNamespace, name: string, value: string, meta?: SecretMeta): void;
+  delete(namespace: SecretNamespace, name: string): boolean;
+  has(namespace: SecretNamespace, name: string): boolean;
+  /** Entry names (never values), optionally only those starting with prefix */
+  list(namespace: SecretNamespace, prefix?: string): string[];
+  /** Plaintext metadata kept next to a secret — reading it isn't a secret read */
+  getMeta<T extends SecretMeta = SecretMeta>(namespace: SecretNamespace, name: string): T | null;
+  /** Replace an entry's metadata; false if there is no such entry */
+  setMeta(namespace: SecretNamespace, name: string, meta: SecretMeta): boolean;
+}
+
+interface StoredSecret {
+  iv: string;   // base64, 12 bytes
+  tag: string;  // base64
+  ct: string;   // base64
+  meta?: SecretMeta;
+  updatedAt: string;
+}
+
+interface StoreFile {
+  version: 1;
+  secrets: Partial<Record<SecretNamespace, Record<string, StoredSecret>>>;
+}
+
+// ---- Key derivation ----
+
+let cachedKey: Buffer | null = null;
+let keyTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Read or create a random 32-byte install file (machine secret, salt) */
+function installFile(file: string): Buffer {
+  try {
+    return fs.readFileSync(file);
+  } catch {
+    const value = crypto.randomBytes(32);
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(file, value, { mode: 0o600 });
+    return value;
+  }
+}
+
+/**
+ * The install key: PBKDF2 over the machine secret and salt. Also the key the
+ * cloud vault's private key was encrypted with before the store existed.
+ * Cached in memory and dropped after 5 idle minutes.
+ */
+export function deriveInstallKey(): Buffer {
+  if (!cachedKey) {
+    cachedKey = crypto.pbkdf2Sync(installFile(MACHINE_SECRET_FILE), installFile(SALT_FILE), PBKDF2_ITERATIONS, 32, 'sha256');
+  }
+  if (keyTimer) clearTimeout(keyTimer);
+  keyTimer = setTimeout(() => { cachedKey = null; keyTimer = null; }, KEY_CACHE_TTL_MS);
+  keyTimer.unref();
+  return cachedKey;
+}
+
+function namespaceKey(namespace: SecretNamespace): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', deriveInstallKey(), Buffer.alloc(0), `buhdi-secret-store/${namespace}`, 32));
+}
+
+// ---- Store ----
+
+export class FileSecretStore implements SecretStore {
+  private migrated = false;
+
+  /** Move legacy secrets in now rather than on first use */
+  init(): void {
+    this.read();
+  }
+
+  get(namespace: SecretNamespace, name: string, reader: string): string | null {
+    const entry = this.read().secrets[namespace]?.[name];
+    if (!entry) {
+      audit({ action: 'read', namespace, name, reader, ok: false });
+      return null;
+    }
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', namespaceKey(namespace), Buffer.from(entry.iv, 'base64'));
+      decipher.setAAD(Buffer.from(`${namespace}/${name}`));
+      decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+      const value = Buffer.concat([decipher.update(Buffer.from(entry.ct, 'base64')), decipher.final()]).toString('utf8');
+      audit({ action: 'read', namespace, name, reader, ok: true });
+      return value;
+    } catch {
+      // Never put secret material in errors
+      audit({ action: 'read', namespace, name, reader, ok: false });
+      return null;
+    }
+  }
+
+  set(namespace: SecretNamespace, name: string, value: string, meta?: SecretMeta): void {
+    validateName(name);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', namespaceKey(namespace), iv);
+    cipher.setAAD(Buffer.from(`${namespace}/${name}`));
+    const ct = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+    const store = this.read();
+    const entries = store.secrets[namespace] ??= {};
+    entries[name] = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ct: ct.toString('base64'),
+      meta: meta ?? entries[name]?.meta,
+      updatedAt: new Date().toISOString(),
+    };
+    this.write(store);
+    audit({ action: 'write', namespace, name, ok: true });
+  }
+
+  delete(namespace: SecretNamespace, name: string): boolean {
+    const store = this.read();
+    if (!store.secrets[namespace]?.[name]) return false;
+    delete store.secrets[namespace]![name];
+    this.write(store);
+    audit({ action: 'delete', namespace, name, ok: true });
+    return true;
+  }
+
+  has(namespace: SecretNamespace, name: string): boolean {
+    return !!this.read().secrets[namespace]?.[name];
+  }
+
+  list(namespace: SecretNamespace, prefix = ''): string[] {
+    return Object.keys(this.read().secrets[namespace] || {}).filter(name => name.startsWith(prefix));
+  }
+
+  getMeta<T extends SecretMeta = SecretMeta>(namespace: SecretNamespace, name: string): T | null {
+    return (this.read().secrets[namespace]?.[name]?.meta as T) ?? null;
+  }
+
+  setMeta(namespace: SecretNamespace, name: string, meta: SecretMeta): boolean {
+    const store = this.read();
+    const entry = store.secrets[namespace]?.[name];
+    if (!entry) return false;
+    entry.meta = meta;
+    this.write(store);
+    return true;
+  }
+
+  private read(): StoreFile {
+    if (!this.migrated) {
+      // Set first: migration writes through this store
+      this.migrated = true;
+      migrateLegacySecrets(this);
+    }
+    try {
+      const parsed = JSON.parse(fs.readFileSync(STORE_FILE, 'utf8'));
+      if (parsed?.version === 1 && parsed.secrets) return parsed;
+    } catch {}
+    return { version: 1, secrets: {} };
+  }
+
+  private write(store: StoreFile): void {
+    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    // Write then rename, so a crash never leaves a half-written store
+    const tmp = `${STORE_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(store, null, 2), { encoding: 'utf8', mode: 0o600 });
+    fs.renameSync(tmp, STORE_FILE);
+  }
+}
+
+const fileStore = new FileSecretStore();
+export const secretStore: SecretStore = fileStore;
+
+/** Open the store at startup, so legacy secrets are migrated before anything reads config */
+export function initSecretStore(): void {
+  fileStore.init();
+}
+
+function validateName(name: string): void {
+  if (!name || name.length > 200 || /[\x00-\x1f]/.test(name)) throw new Error('Invalid secret name');
+}
+
+// ---- Audit ----
+
+function audit(entry: Omit<SecretAuditEntry, 'timestamp'>): void {
+  const full: SecretAuditEntry = { timestamp: new Date().toISOString(), ...entry };
+  try {
+    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    try {
+      if (fs.statSync(AUDIT_FILE).size > MAX_AUDIT_BYTES) fs.renameSync(AUDIT_FILE, `${AUDIT_FILE}.1`);
+    } catch { /* no log yet */ }
+    fs.appendFileSync(AUDIT_FILE, JSON.stringify(full) + '\n', { mode: 0o600 });
+  } catch (err: any) {
+    console.error('Secret audit log write failed:', err.message);
+  }
+}
+
+/** Most recent audit entries, newest first */
+export function readSecretAudit(limit = 100, namespace?: SecretNamespace): SecretAuditEntry[] {
+  try {
+    const lines = fs.readFileSync(AUDIT_FILE, 'utf8').trim().split('\n').reverse();
+    const entries: SecretAuditEntry[] = [];
+    for (const line of lines) {
+      if (entries.length >= limit) break;
+      try {
+        const entry = JSON.parse(line) as SecretAuditEntry;
+        if (!namespace || entry.namespace === namespace) entries.push(entry);
+      } catch {}
+    }
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+// ---- Migration ----
+
+const LEGACY_CRED_FILE = path.join(CONFIG_DIR, 'credentials.enc.json');
+// Plugin vaults always lived under the home directory; check the config dir too
+const LEGACY_PLUGINS_DIRS = [...new Set([
+  path.join(os.homedir(), '.buhdi-node', 'plugins'),
+  path.join(CONFIG_DIR, 'plugins'),
+])];
+const LEGACY_CLOUD_KEY_FILE = path.join(KEY_DIR, 'vault-key.enc');
+
+/** Name of the cloud vault's RSA private key in the `cloud` namespace */
+export const CLOUD_PRIVATE_KEY = 'rsa-private-key';
+
+/**
+ * Move secrets from the stores that came before this one. Each source file is
+ * removed only once everything in it made it across; anything that fails to
+ * decrypt is left where it is and reported.
+ */
+function migrateLegacySecrets(store: SecretStore): void {
+  const moved: string[] = [];
+  const report = (what: string, err: any) => console.warn(`⚠️  Secret migration: ${what} not moved (${err.message})`);
+
+  // Tool credentials — PBKDF2 (100K) with a fixed salt
+  if (fs.existsSync(LEGACY_CRED_FILE)) {
+    try {
+      const legacy = JSON.parse(fs.readFileSync(LEGACY_CRED_FILE, 'utf8')) as Record<string, { encrypted: string; meta: SecretMeta }>;
+      const key = crypto.pbkdf2Sync(installFile(MACHINE_SECRET_FILE), 'buhdi-cred-vault', 100_000, 32, 'sha256');
+      let failed = 0;
+      for (const [tool, entry] of Object.entries(legacy)) {
+        try {
+          const { iv, tag, ct } = JSON.parse(entry.encrypted);
+          store.set('tool', tool, decryptGcm(key, iv, tag, ct), entry.meta);
+          moved.push(`tool/${tool}`);
+        } catch (err) {
+          failed++;
+          report(`tool credential ${tool}`, err);
+        }
+      }
+      if (failed === 0) fs.unlinkSync(LEGACY_CRED_FILE);
+    } catch (err) {
+      report('credentials.enc.json', err);
+    }
+  }
+
+  // Plugin vaults — one file and salt per plugin
+  const pluginDirs: string[] = [];
+  for (const dir of LEGACY_PLUGINS_DIRS) {
+    try { pluginDirs.push(...fs.readdirSync(dir).map(plugin => path.join(dir, plugin))); } catch {}
+  }
+  for (const pluginDir of pluginDirs) {
+    const plugin = path.basename(pluginDir);
+    const vaultFile = path.join(pluginDir, 'vault.enc');
+    const saltFile = path.join(pluginDir, 'vault.salt');
+    if (!fs.existsSync(vaultFile)) continue;
+    try {
+      const legacy = JSON.parse(fs.readFileSync(vaultFile, 'utf8')) as Record<string, { iv: string; authTag: string; ciphertext: string }>;
+      const key = crypto.pbkdf2Sync(installFile(MACHINE_SECRET_FILE), fs.readFileSync(saltFile), PBKDF2_ITERATIONS, 32, 'sha256');
+      let failed = 0;
+      for (const [name, entry] of Object.entries(legacy)) {
+        try {
+          store.set('plugin', `${plugin}/${name}`, decryptGcm(key, entry.iv, entry.authTag, entry.ciphertext));
+          moved.push(`plugin/${plugin}/${name}`);
+        } catch (err) {
+          failed++;
+          report(`plugin secret ${plugin}/${name}`, err);
+        }
+      }
+      if (failed === 0) {
+        fs.unlinkSync(vaultFile);
+        fs.rmSync(saltFile, { force: true });
+      }
+    } catch (err) {
+      report(`vault for plugin ${plugin}`, err);
+    }
+  }
+
+  // Cloud vault private key — iv(16) + tag(16) + ciphertext under the install key
+  if (fs.existsSync(LEGACY_CLOUD_KEY_FILE)) {
+    try {
+      const data = fs.readFileSync(LEGACY_CLOUD_KEY_FILE);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', deriveInstallKey(), data.subarray(0, 16));
+      decipher.setAuthTag(data.subarray(16, 32));
+      const pem = Buffer.concat([decipher.update(data.subarray(32)), decipher.final()]).toString('utf8');
+      store.set('cloud', CLOUD_PRIVATE_KEY, pem);
+      fs.unlinkSync(LEGACY_CLOUD_KEY_FILE);
+      moved.push(`cloud/${CLOUD_PRIVATE_KEY}`);
+    } catch (err) {
+      report('cloud vault key', err);
+    }
+  }
+
+  // LLM provider keys — plaintext in config.json
+  try {
+    const config = loadConfig();
+    const providers = config.llm?.providers || [];
+    const withKeys = providers.filter(p => p.apiKey);
+    if (withKeys.length > 0) {
+      for (const provider of withKeys) {
+        store.set('llm', provider.name, provider.apiKey!);
+        delete provider.apiKey;
+        moved.push(`llm/${provider.name}`);
+      }
+      saveConfig(config);
+    }
+  } catch (err) {
+    report('LLM provider keys', err);
+  }
+
+  if (moved.length > 0) {
+    console.log(`🔐 Moved ${moved.length} secret(s) into the secret store: ${moved.join(', ')}`);
+  }
+}
+
+function decryptGcm(key: Buffer, iv: string, tag: string, ct: string): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ct, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,209 @@
+/**
+ * Tool Approvals — human-in-the-loop confirmation for DELETE and FINANCIAL actions.
+ *
+ * A paused tool call becomes a pending approval that the dashboard and CLI
+ * see over WebSocket. It resolves on approve/deny or times out as denied.
+ * FINANCIAL actions additionally need the local approval PIN, which is kept
+ * (hashed) in the vault — never in config or logs.
+ */
+
+import crypto from 'crypto';
+import { SafetyTier } from './types';
+import { addActivity, broadcastToDashboard } from '../health';
+import { getPluginSecret, setPluginSecret } from '../plugins/plugin-vault';
+
+/** How long a call waits for a human before it is denied */
+export const APPROVAL_TIMEOUT_MS = 120_000;
+
+/** How long an approval granted ahead of execution (agent confirm step) stays usable */
+const GRANT_TTL_MS = 60_000;
+
+/** Vault namespace for core secrets — manifest names can't start with '_' */
+const VAULT_NS = '_approvals';
+const PIN_KEY = 'approval_pin';
+const PIN_RE = /^\d{4,12}$/;
+
+export interface ApprovalContext {
+  /** Who asked: 'chat', 'agent', 'schedule', 'api', ... */
+  source?: string;
+  /** Agent run id or schedule id, for display */
+  ref?: string;
+}
+
+export interface PendingApproval {
+  id: string;
+  tool: string;
+  action: string;
+  params: Record<string, any>;
+  safety: SafetyTier;
+  requiresPin: boolean;
+  source: string;
+  ref?: string;
+  requestedAt: string;
+  expiresAt: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  reason: 'approved' | 'denied' | 'timeout';
+}
+
+interface PendingEntry {
+  approval: PendingApproval;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pending = new Map<string, PendingEntry>();
+const grants = new Map<string, number>(); // grant key → expiry
+
+/** Whether a tier needs a human in the loop */
+export function requiresApproval(safety: SafetyTier): boolean {
+  return safety === SafetyTier.DELETE || safety === SafetyTier.FINANCIAL;
+}
+
+/** A grant only covers the same call from the same caller (source and ref) */
+function grantKey(tool: string, action: string, params: Record<string, any>, context: ApprovalContext): string {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify([context.source || 'api', context.ref || '', params ?? {}]))
+    .digest('hex');
+  return `${tool}.${action}:${hash}`;
+}
+
+/**
+ * Pause a tool call until someone approves or denies it (or it times out).
+ * Never rejects — a failure to decide is a denial.
+ */
+export function requestApproval(
+  tool: string,
+  action: string,
+  params: Record<string, any>,
+  safety: SafetyTier,
+  context: ApprovalContext = {},
+  timeoutMs = APPROVAL_TIMEOUT_MS,
+): Promise<ApprovalDecision> {
+  const now = Date.now();
+  const approval: PendingApproval = {
+    id: crypto.randomBytes(8).toString('hex'),
+    tool,
+    action,
+    params,
+    safety,
+    requiresPin: safety === SafetyTier.FINANCIAL,
+    source: context.source || 'api',
+    ref: context.ref,
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + timeoutMs).toISOString(),
+  };
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      finish(approval.id, { approved: false, reason: 'timeout' });
+    }, timeoutMs);
+    pending.set(approval.id, { approval, resolve, timer });
+
+    addActivity('⏸️', `Approval needed: ${tool}.${action} (${safety})`);
+    broadcastToDashboard({ type: 'approval.requested', approval });
+  });
+}
+
+function finish(id: string, decision: ApprovalDecision): void {
+  const entry = pending.get(id);
+  if (!entry) return;
+  clearTimeout(entry.timer);
+  pending.delete(id);
+
+  const { tool, action } = entry.approval;
+  const icon = decision.approved ? '✅' : decision.reason === 'timeout' ? '⌛' : '🚫';
+  addActivity(icon, `${tool}.${action} ${decision.reason}`);
+  broadcastToDashboard({ type: 'approval.resolved', id, ...decision });
+  entry.resolve(decision);
+}
+
+/**
+ * Answer a pending approval. FINANCIAL approvals must carry the correct PIN;
+ * a wrong PIN leaves the request pending so the user can retry until timeout.
+ */
+export async function respondToApproval(
+  id: string,
+  approved: boolean,
+  pin?: string,
+): Promise<{ ok: boolean; error?: string }> {
+  const entry = pending.get(id);
+  if (!entry) return { ok: false, error: 'Approval not found or already resolved' };
+
+  if (approved && entry.approval.requiresPin) {
+    if (!(await hasApprovalPin())) {
+      return { ok: false, error: 'No approval PIN set. Set one before approving financial actions.' };
+    }
+    if (!pin || !(await verifyApprovalPin(pin))) {
+      return { ok: false, error: 'Invalid PIN' };
+    }
+  }
+
+  finish(id, { approved, reason: approved ? 'approved' : 'denied' });
+  return { ok: true };
+}
+
+/** Pending approvals, oldest first */
+export function listPendingApprovals(): PendingApproval[] {
+  return Array.from(pending.values())
+    .map(e => e.approval)
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+}
+
+/**
+ * Remember an approval given before execution so the registry doesn't ask
+ * twice. `context` is the caller the call will execute as.
+ */
+export function recordGrant(tool: string, action: string, params: Record<string, any>, context: ApprovalContext): void {
+  grants.set(grantKey(tool, action, params, context), Date.now() + GRANT_TTL_MS);
+}
+
+/** Use up a grant for this call by this caller (one grant = one execution) */
+export function consumeGrant(tool: string, action: string, params: Record<string, any>, context: ApprovalContext): boolean {
+  const key = grantKey(tool, action, params, context);
+  const expiry = grants.get(key);
+  if (expiry === undefined) return false;
+  grants.delete(key);
+  return expiry > Date.now();
+}
+
+// ---- Approval PIN ----
+
+function hashPin(pin: string, salt: Buffer): string {
+  return crypto.scryptSync(pin, salt, 32).toString('base64');
+}
+
+/** Whether an approval PIN has been configured */
+export async function hasApprovalPin(): Promise<boolean> {
+  return (await getPluginSecret(VAULT_NS, PIN_KEY, [PIN_KEY])) !== null;
+}
+
+/** Constant-time check of a PIN against the stored hash */
+export async function verifyApprovalPin(pin: string): Promise<boolean> {
+  const stored = await getPluginSecret(VAULT_NS, PIN_KEY, [PIN_KEY]);
+  if (!stored || typeof pin !== 'string') return false;
+  const [saltB64, hashB64] = stored.split(':');
+  const expected = Buffer.from(hashB64 || '', 'base64');
+  const actual = Buffer.from(hashPin(pin, Buffer.from(saltB64 || '', 'base64')), 'base64');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Set or change the approval PIN. Changing an existing PIN requires the current one.
+ */
+export async function setApprovalPin(pin: string, currentPin?: string): Promise<{ ok: boolean; error?: string }> {
+  if (typeof pin !== 'string' || !PIN_RE.test(pin)) {
+    return { ok: false, error: 'PIN must be 4-12 digits' };
+  }
+  if (await hasApprovalPin()) {
+    if (!currentPin || !(await verifyApprovalPin(currentPin))) {
+      return { ok: false, error: 'Current PIN is incorrect' };
+    }
+  }
+  const salt = crypto.randomBytes(16);
+  await setPluginSecret(VAULT_NS, PIN_KEY, `${salt.toString('base64')}:${hashPin(pin, salt)}`);
+  addActivity('🔐', 'Approval PIN updated');
+  return { ok: true };
+}
@@ -0,0 +1,201 @@
+/**
+ * Credential Health — keep stored tool credentials working.
+ *
+ * A periodic sweep runs each plugin's testCredentials(), refreshes OAuth
+ * tokens that are about to expire (or that the provider stopped accepting),
+ * and flags credentials that are expiring, expired or failing. A credential
+ * that moves into one of those states raises an alert on the dashboard and
+ * in the console; the user has to re-enter it.
+ */
+
+import { addActivity, broadcastToDashboard } from '../health';
+import {
+  CredentialMeta, CredentialStatus, getCredential, listCredentials,
+  parseOAuthBundle, refreshOAuthCredential, updateCredentialMeta,
+} from './credentials';
+import { toolRegistry } from './registry';
+
+const DEFAULT_SWEEP_INTERVAL_HOURS = 6;
+const DEFAULT_EXPIRY_WARNING_DAYS = 7;
+const FIRST_SWEEP_DELAY_MS = 60_000;
+/** Refresh OAuth tokens this long before they expire */
+const REFRESH_MARGIN_MS = 5 * 60_000;
+const ALERT_STATUSES: CredentialStatus[] = ['expiring', 'expired', 'failing'];
+
+export interface CredentialSweepOptions {
+  intervalHours?: number;
+  expiryWarningDays?: number;
+}
+
+export interface CredentialAlert {
+  tool: string;
+  status: CredentialStatus;
+  message: string;
+  expiresAt: string | null;
+  checkedAt: string | null;
+}
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let firstSweep: ReturnType<typeof setTimeout> | null = null;
+let warningMs = DEFAULT_EXPIRY_WARNING_DAYS * 86_400_000;
+let sweeping = false;
+
+// ---- Checks ----
+
+/**
+ * Check one tool's credential: refresh it if it's an OAuth token near
+ * expiry, re-init the plugin and run its testCredentials(). A failed test on
+ * a refreshable credential gets one refresh and a retest. The outcome is
+ * stored in the credential's metadata; a change into a bad state alerts.
+ */
+export async function checkCredential(tool: string): Promise<CredentialMeta | null> {
+  const stored = getCredential(tool, 'credential-health');
+  if (!stored) return null;
+  const before = stored.meta.status;
+
+  let error: string | null = null;
+  let tested = false;
+  try {
+    const bundle = parseOAuthBundle(stored.plaintext);
+    if (bundle?.refresh_token && expiresWithin(stored.meta.expiresAt, REFRESH_MARGIN_MS)) {
+      await refreshOAuthCredential(tool);
+    }
+
+    const plugin = toolRegistry.get(tool);
+    if (plugin) {
+      let result = await testPlugin(tool);
+      if (!result.ok && bundle?.refresh_token) {
+        await refreshOAuthCredential(tool);
+        result = await testPlugin(tool);
+      }
+      tested = true;
+      if (!result.ok) error = result.error;
+    }
+  } catch (err: any) {
+    error = err.message;
+  }
+
+  // Refreshing may have moved the expiry
+  const meta = listCredentials()[tool];
+  const status = error ? 'failing' : expiryStatus(meta, tested, warningMs);
+  const updated = updateCredentialMeta(tool, {
+    status,
+    error,
+    checkedAt: new Date().toISOString(),
+    lastUsedAt: tested ? new Date().toISOString() : meta.lastUsedAt,
+  })!;
+
+  if (status !== before) {
+    if (ALERT_STATUSES.includes(status)) {
+      const message = alertMessage(tool, updated);
+      console.warn(`⚠️  Credential ${status}: ${message}`);
+      addActivity('⚠️', message);
+      broadcastToDashboard({ type: 'credential.alert', tool, status, message, expiresAt: updated.expiresAt ?? null });
+    } else if (before && ALERT_STATUSES.includes(before)) {
+      addActivity('🔑', `Credential for ${tool} is working again`);
+      broadcastToDashboard({ type: 'credential.alert', tool, status, message: null, expiresAt: updated.expiresAt ?? null });
+    }
+  }
+  return updated;
+}
+
+/** Check every stored credential, one at a time */
+export async function sweepCredentials(): Promise<Record<string, CredentialMeta>> {
+  const results: Record<string, CredentialMeta> = {};
+  if (sweeping) return results;
+  sweeping = true;
+  try {
+    for (const tool of Object.keys(listCredentials())) {
+      const meta = await checkCredential(tool);
+      if (meta) results[tool] = meta;
+    }
+  } finally {
+    sweeping = false;
+  }
+  return results;
+}
+
+/**
+ * Credentials that need the user's attention, as of their last check.
+ * The warning window defaults to the running sweep's.
+ */
+export function credentialAlerts(expiryWarningDays?: number): CredentialAlert[] {
+  const window = expiryWarningDays !== undefined ? expiryWarningDays * 86_400_000 : warningMs;
+  const alerts: CredentialAlert[] = [];
+  for (const [tool, meta] of Object.entries(listCredentials())) {
+    // Expiry moves on between sweeps; re-derive it for credentials that passed
+    const status = meta.status === 'failing' ? 'failing' : expiryStatus(meta, meta.status === 'ok' || meta.status === 'expiring', window);
+    if (!ALERT_STATUSES.includes(status)) continue;
+    alerts.push({
+      tool,
+      status,
+      message: alertMessage(tool, { ...meta, status }),
+      expiresAt: meta.expiresAt ?? null,
+      checkedAt: meta.checkedAt ?? null,
+    });
+  }
+  return alerts;
+}
+
+// ---- Sweep ----
+
+export function startCredentialSweep(opts: CredentialSweepOptions = {}): void {
+  stopCredentialSweep();
+  warningMs = (opts.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS) * 86_400_000;
+  const intervalHours = opts.intervalHours ?? DEFAULT_SWEEP_INTERVAL_HOURS;
+  if (intervalHours <= 0) return;
+
+  const run = () => {
+    sweepCredentials().catch(err => console.error('[credentials] Sweep failed:', err.message));
+  };
+  // Let startup settle before the first round of API calls
+  firstSweep = setTimeout(run, FIRST_SWEEP_DELAY_MS);
+  sweepTimer = setInterval(run, intervalHours * 3_600_000);
+  firstSweep.unref();
+  sweepTimer.unref();
+}
+
+export function stopCredentialSweep(): void {
+  if (firstSweep) clearTimeout(firstSweep);
+  if (sweepTimer) clearInterval(sweepTimer);
+  firstSweep = null;
+  sweepTimer = null;
+}
+
+// ---- Helpers ----
+
+async function testPlugin(tool: string): Promise<{ ok: boolean; error: string }> {
+  const ready = await toolRegistry.initPlugin(tool);
+  if (!ready) return { ok: false, error: 'Plugin rejected the credential' };
+  const result = await toolRegistry.get(tool)!.testCredentials();
+  return { ok: result.success, error: result.output || result.error || 'Credential test failed' };
+}
+
+function expiresWithin(expiresAt: string | null | undefined, ms: number): boolean {
+  if (!expiresAt) return false;
+  return new Date(expiresAt).getTime() - Date.now() <= ms;
+}
+
+/**
+ * Status from expiry alone. Refreshable OAuth tokens are short-lived by
+ * design and renewed as needed, so their expiry never raises an alert —
+ * a refresh that fails marks them failing instead.
+ */
+function expiryStatus(meta: CredentialMeta, tested: boolean, window: number): CredentialStatus {
+  if (!meta.refreshable) {
+    if (expiresWithin(meta.expiresAt, 0)) return 'expired';
+    if (expiresWithin(meta.expiresAt, window)) return 'expiring';
+  }
+  return tested ? 'ok' : 'unchecked';
+}
+
+function alertMessage(tool: string, meta: CredentialMeta): string {
+  switch (meta.status) {
+    case 'expired':
+      return `Credential for ${tool} expired ${new Date(meta.expiresAt!).toLocaleString()} — re-enter it`;
+    case 'expiring':
+      return `Credential for ${tool} expires ${new Date(meta.expiresAt!).toLocaleString()} — rotate it soon`;
+    default:
+      return `Credential for ${tool} is failing${meta.error ? `: ${meta.error}` : ''} — re-enter it`;
+  }
+}
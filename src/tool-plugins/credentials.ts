@@ -0,0 +1,184 @@
+/**
+ * Tool Credentials — tool plugin secrets in the secret store's `tool` namespace.
+ *
+ * The registry and the dashboard API read and write credentials through
+ * here. Next to each secret sits plaintext metadata: when it was added and
+ * used, when it expires, and how its last health check or OAuth refresh went.
+ */
+
+import { secretStore } from '../secret-store';
+
+/** Google's token endpoint, used when an OAuth credential doesn't name one */
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+
+/**
+ * Health of a stored credential, as of its last check:
+ * ok, expiring (within the warning window), expired, failing (the plugin's
+ * testCredentials() or an OAuth refresh failed), or unchecked.
+ */
+export type CredentialStatus = 'ok' | 'expiring' | 'expired' | 'failing' | 'unchecked';
+
+export interface CredentialMeta {
+  storageMode: string;
+  toolType: string;
+  addedAt: string;
+  lastUsedAt: string | null;
+  expiresAt?: string | null;     // Entered with the credential, or taken from an OAuth token
+  refreshable?: boolean;         // OAuth credential with a stored refresh token
+  refreshedAt?: string | null;
+  checkedAt?: string | null;
+  status?: CredentialStatus;
+  error?: string | null;         // Why the last check or refresh failed
+}
+
+/**
+ * An OAuth credential, stored as JSON: the access token plus what it takes
+ * to get a new one. Plugins that take an `access_token` get just that.
+ */
+export interface OAuthBundle {
+  access_token: string;
+  refresh_token?: string;
+  client_id?: string;
+  client_secret?: string;
+  token_uri?: string;
+  expires_at?: string;   // ISO timestamp
+  scope?: string;
+}
+
+// ---- Store ----
+
+/** Metadata of every stored tool credential, by tool name */
+export function listCredentials(): Record<string, CredentialMeta> {
+  const result: Record<string, CredentialMeta> = {};
+  for (const tool of secretStore.list('tool')) {
+    result[tool] = secretStore.getMeta('tool', tool) as unknown as CredentialMeta;
+  }
+  return result;
+}
+
+export function hasCredential(tool: string): boolean {
+  return secretStore.has('tool', tool);
+}
+
+/** Decrypted secret and metadata of one tool's credential (an audited read) */
+export function getCredential(tool: string, reader = 'tool-registry'): { plaintext: string; meta: CredentialMeta } | null {
+  const plaintext = secretStore.get('tool', tool, reader);
+  if (plaintext === null) return null;
+  return { plaintext, meta: secretStore.getMeta('tool', tool) as unknown as CredentialMeta };
+}
+
+/**
+ * Store a tool's credential. Metadata not given is kept from the previous
+ * entry, except expiry and health, which belong to the old secret.
+ */
+export function setCredential(tool: string, plaintext: string, meta: Partial<CredentialMeta> = {}): CredentialMeta {
+  const previous = secretStore.getMeta('tool', tool) as unknown as CredentialMeta | null;
+  const bundle = parseOAuthBundle(plaintext);
+  const merged: CredentialMeta = {
+    storageMode: previous?.storageMode || 'local_only',
+    toolType: previous?.toolType || 'api_key',
+    addedAt: previous?.addedAt || new Date().toISOString(),
+    lastUsedAt: previous?.lastUsedAt ?? null,
+    expiresAt: bundle?.expires_at ?? null,
+    refreshable: !!bundle?.refresh_token,
+    refreshedAt: previous?.refreshedAt ?? null,
+    checkedAt: null,
+    status: 'unchecked',
+    error: null,
+    ...meta,
+  };
+  secretStore.set('tool', tool, plaintext, { ...merged });
+  return merged;
+}
+
+/** Change a credential's metadata without touching the secret */
+export function updateCredentialMeta(tool: string, patch: Partial<CredentialMeta>): CredentialMeta | null {
+  const current = secretStore.getMeta('tool', tool) as unknown as CredentialMeta | null;
+  if (!current) return null;
+  const updated = { ...current, ...patch };
+  secretStore.setMeta('tool', tool, { ...updated });
+  return updated;
+}
+
+export function deleteCredential(tool: string): boolean {
+  return secretStore.delete('tool', tool);
+}
+
+// ---- OAuth ----
+
+/** The OAuth bundle in a stored secret, or null for plain tokens and keys */
+export function parseOAuthBundle(plaintext: string): OAuthBundle | null {
+  if (!plaintext.trimStart().startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(plaintext);
+    return parsed && typeof parsed.access_token === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const refreshing = new Map<string, Promise<OAuthBundle>>();
+
+/**
+ * Trade a stored refresh token for a new access token and store it.
+ * Throws if the credential can't be refreshed or the provider refuses.
+ * Concurrent calls for one tool share a single refresh.
+ */
+export function refreshOAuthCredential(tool: string): Promise<OAuthBundle> {
+  let inFlight = refreshing.get(tool);
+  if (!inFlight) {
+    inFlight = refreshNow(tool).finally(() => refreshing.delete(tool));
+    refreshing.set(tool, inFlight);
+  }
+  return inFlight;
+}
+
+async function refreshNow(tool: string): Promise<OAuthBundle> {
+  const current = getCredential(tool, 'oauth-refresh');
+  const bundle = current && parseOAuthBundle(current.plaintext);
+  if (!bundle?.refresh_token) throw new Error(`${tool} has no stored refresh token`);
+  if (!bundle.client_id) throw new Error(`${tool} OAuth credential is missing client_id`);
+
+  const tokenUri = bundle.token_uri || DEFAULT_TOKEN_URI;
+  const url = new URL(tokenUri);
+  const loopback = url.hostname === '127.0.0.1' || url.hostname === 'localhost';
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && loopback)) {
+    throw new Error('OAuth token_uri must be https (or http on localhost)');
+  }
+
+  const form = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: bundle.refresh_token,
+    client_id: bundle.client_id,
+  });
+  if (bundle.client_secret) form.set('client_secret', bundle.client_secret);
+
+  const res = await fetch(tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+    signal: AbortSignal.timeout(15_000),
+  });
+  const data = await res.json().catch(() => ({})) as any;
+  if (!res.ok || typeof data.access_token !== 'string') {
+    throw new Error(`Token refresh failed: ${res.status} ${data.error_description || data.error || ''}`.trim());
+  }
+
+  const refreshed: OAuthBundle = {
+    ...bundle,
+    access_token: data.access_token,
+    // Providers may rotate the refresh token; keep the old one if they don't
+    refresh_token: data.refresh_token || bundle.refresh_token,
+    expires_at: data.expires_in ? new Date(Date.now() + Number(data.expires_in) * 1000).toISOString() : undefined,
+    scope: data.scope || bundle.scope,
+  };
+  const now = new Date().toISOString();
+  setCredential(tool, JSON.stringify(refreshed), {
+    expiresAt: refreshed.expires_at ?? null,
+    refreshedAt: now,
+    // A fresh token is as good as a passed check until the next one says otherwise
+    checkedAt: current!.meta.checkedAt ?? null,
+    status: current!.meta.status === 'failing' || current!.meta.status === 'expired' ? 'unchecked' : current!.meta.status,
+  });
+  return refreshed;
+}
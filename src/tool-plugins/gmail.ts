@@ -1,11 +1,13 @@
 /**
  * Gmail Tool Plugin
  * 
- * Uses Gmail API v1 with OAuth2 or API key.
+ * Uses Gmail API v1 with an OAuth2 token (dashboard sign-in or pasted).
+ * A 401 refreshes the stored token once before giving up.
  * Actions: list_inbox, read_email, send_email, search
  */
 
 import { ToolPlugin, ToolResult, SafetyTier } from './types';
+import { fetchWithTokenRefresh } from './oauth';
 
 // Gmail API base
 const GMAIL_API = 'https://gmail.googleapis.com/gmail/v1/users/me';
@@ -23,10 +25,15 @@ export const gmailPlugin: ToolPlugin = {
       label: 'Gmail OAuth Access Token',
       type: 'bearer_token',
       required: true,
-      hint: 'OAuth2 access token from Google Cloud Console. Requires gmail.readonly and gmail.send scopes.',
+      hint: 'Sign in with Google, or paste an OAuth2 access token with gmail.readonly and gmail.send scopes.',
       placeholder: 'ya29.a0AfH6SM...',
     },
   ],
+
+  oauth: {
+    provider: 'google',
+    scopes: ['https://www.googleapis.com/auth/gmail.readonly', 'https://www.googleapis.com/auth/gmail.send'],
+  },
   
   actions: [
     {
@@ -100,9 +107,7 @@ export const gmailPlugin: ToolPlugin = {
   
   async testCredentials(): Promise<ToolResult> {
     try {
-      const res = await fetch(`${GMAIL_API}/profile`, {
-        headers: { Authorization: `Bearer ${(this as any)._token}` },
-      });
+      const res = await gmailFetch(`${GMAIL_API}/profile`);
       if (!res.ok) {
         const err = await res.text();
         return { success: false, output: `Gmail auth failed: ${res.status}`, error: err };
@@ -119,15 +124,14 @@ export const gmailPlugin: ToolPlugin = {
   },
   
   async execute(action: string, params: Record<string, any>): Promise<ToolResult> {
-    const token = (this as any)._token;
-    const headers = { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+    const headers = { 'Content-Type': 'application/json' };
     
     switch (action) {
       case 'list_inbox': {
         const limit = params.limit || 10;
         const q = params.unread_only ? 'is:unread' : '';
         const url = `${GMAIL_API}/messages?maxResults=${limit}${q ? '&q=' + encodeURIComponent(q) : ''}`;
-        const res = await fetch(url, { headers });
+        const res = await gmailFetch(url, { headers });
         if (!res.ok) return { success: false, output: `Failed to list inbox: ${res.status}` };
         const data = await res.json() as any;
         
@@ -138,7 +142,7 @@ export const gmailPlugin: ToolPlugin = {
         // Fetch headers for each message
         const summaries = await Promise.all(
           data.messages.slice(0, limit).map(async (m: any) => {
-            const msgRes = await fetch(`${GMAIL_API}/messages/${m.id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Date`, { headers });
+            const msgRes = await gmailFetch(`${GMAIL_API}/messages/${m.id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Date`, { headers });
             if (!msgRes.ok) return { id: m.id, subject: '(failed to load)', from: '', date: '' };
             const msg = await msgRes.json() as any;
             const getHeader = (name: string) => msg.payload?.headers?.find((h: any) => h.name === name)?.value || '';
@@ -160,7 +164,7 @@ export const gmailPlugin: ToolPlugin = {
       }
       
       case 'read_email': {
-        const res = await fetch(`${GMAIL_API}/messages/${params.email_id}?format=full`, { headers });
+        const res = await gmailFetch(`${GMAIL_API}/messages/${params.email_id}?format=full`, { headers });
         if (!res.ok) return { success: false, output: `Failed to read email: ${res.status}` };
         const msg = await res.json() as any;
         
@@ -184,7 +188,7 @@ export const gmailPlugin: ToolPlugin = {
       case 'search': {
         const limit = params.limit || 10;
         const url = `${GMAIL_API}/messages?maxResults=${limit}&q=${encodeURIComponent(params.query)}`;
-        const res = await fetch(url, { headers });
+        const res = await gmailFetch(url, { headers });
         if (!res.ok) return { success: false, output: `Search failed: ${res.status}` };
         const data = await res.json() as any;
         
@@ -221,7 +225,7 @@ export const gmailPlugin: ToolPlugin = {
         ].filter(Boolean).join('\r\n');
         
         const raw = Buffer.from(lines).toString('base64url');
-        const res = await fetch(`${GMAIL_API}/messages/send`, {
+        const res = await gmailFetch(`${GMAIL_API}/messages/send`, {
           method: 'POST',
           headers,
           body: JSON.stringify({ raw }),
@@ -245,3 +249,7 @@ export const gmailPlugin: ToolPlugin = {
     }
   },
 } as ToolPlugin & { _token: string };
+
+function gmailFetch(url: string, init?: RequestInit): Promise<Response> {
+  return fetchWithTokenRefresh(gmailPlugin as ToolPlugin & { _token: string }, url, init);
+}
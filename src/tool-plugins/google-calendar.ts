@@ -1,11 +1,13 @@
 /**
  * Google Calendar Tool Plugin
  * 
- * Uses Google Calendar API v3 with OAuth2 token.
+ * Uses Google Calendar API v3 with an OAuth2 token (dashboard sign-in or pasted).
+ * A 401 refreshes the stored token once before giving up.
  * Actions: list_events, create_event, get_event, delete_event
  */
 
 import { ToolPlugin, ToolResult, SafetyTier } from './types';
+import { fetchWithTokenRefresh } from './oauth';
 
 const GCAL_API = 'https://www.googleapis.com/calendar/v3';
 
@@ -22,10 +24,15 @@ export const googleCalendarPlugin: ToolPlugin = {
       label: 'Google OAuth Access Token',
       type: 'bearer_token',
       required: true,
-      hint: 'OAuth2 access token with calendar scope. Same flow as Gmail if using Google Cloud Console.',
+      hint: 'Sign in with Google, or paste an OAuth2 access token with calendar scope.',
       placeholder: 'ya29.a0AfH6SM...',
     },
   ],
+
+  oauth: {
+    provider: 'google',
+    scopes: ['https://www.googleapis.com/auth/calendar'],
+  },
   
   actions: [
     {
@@ -103,9 +110,7 @@ export const googleCalendarPlugin: ToolPlugin = {
   
   async testCredentials(): Promise<ToolResult> {
     try {
-      const res = await fetch(`${GCAL_API}/calendars/primary`, {
-        headers: { Authorization: `Bearer ${(this as any)._token}` },
-      });
+      const res = await calendarFetch(`${GCAL_API}/calendars/primary`);
       if (!res.ok) {
         return { success: false, output: `Calendar auth failed: ${res.status}` };
       }
@@ -121,9 +126,7 @@ export const googleCalendarPlugin: ToolPlugin = {
   },
   
   async execute(action: string, params: Record<string, any>): Promise<ToolResult> {
-    const token = (this as any)._token;
     const headers: Record<string, string> = {
-      Authorization: `Bearer ${token}`,
       'Content-Type': 'application/json',
     };
     const calId = params.calendar_id || 'primary';
@@ -139,7 +142,7 @@ export const googleCalendarPlugin: ToolPlugin = {
           `timeMin=${now.toISOString()}&timeMax=${future.toISOString()}&maxResults=${limit}` +
           `&singleEvents=true&orderBy=startTime`;
         
-        const res = await fetch(url, { headers });
+        const res = await calendarFetch(url, { headers });
         if (!res.ok) return { success: false, output: `Failed to list events: ${res.status}` };
         const data = await res.json() as any;
         
@@ -168,7 +171,7 @@ export const googleCalendarPlugin: ToolPlugin = {
       }
       
       case 'get_event': {
-        const res = await fetch(`${GCAL_API}/calendars/${encodeURIComponent(calId)}/events/${encodeURIComponent(params.event_id)}`, { headers });
+        const res = await calendarFetch(`${GCAL_API}/calendars/${encodeURIComponent(calId)}/events/${encodeURIComponent(params.event_id)}`, { headers });
         if (!res.ok) return { success: false, output: `Failed: ${res.status}` };
         const e = await res.json() as any;
         
@@ -196,7 +199,7 @@ export const googleCalendarPlugin: ToolPlugin = {
           event.attendees = params.attendees.split(',').map((e: string) => ({ email: e.trim() }));
         }
         
-        const res = await fetch(`${GCAL_API}/calendars/${encodeURIComponent(calId)}/events`, {
+        const res = await calendarFetch(`${GCAL_API}/calendars/${encodeURIComponent(calId)}/events`, {
           method: 'POST',
           headers,
           body: JSON.stringify(event),
@@ -216,7 +219,7 @@ export const googleCalendarPlugin: ToolPlugin = {
       }
       
       case 'delete_event': {
-        const res = await fetch(`${GCAL_API}/calendars/${encodeURIComponent(calId)}/events/${encodeURIComponent(params.event_id)}`, {
+        const res = await calendarFetch(`${GCAL_API}/calendars/${encodeURIComponent(calId)}/events/${encodeURIComponent(params.event_id)}`, {
           method: 'DELETE',
           headers,
         });
@@ -233,3 +236,7 @@ export const googleCalendarPlugin: ToolPlugin = {
     }
   },
 } as ToolPlugin & { _token: string };
+
+function calendarFetch(url: string, init?: RequestInit): Promise<Response> {
+  return fetchWithTokenRefresh(googleCalendarPlugin as ToolPlugin & { _token: string }, url, init);
+}
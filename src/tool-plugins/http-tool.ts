@@ -0,0 +1,431 @@
+/**
+ * HTTP Tool Plugin — custom tools defined as data, not code.
+ *
+ * A custom tool in `config.customTools` lists HTTP actions: a method, a path
+ * template under the tool's API base URL, a parameter schema, a safety tier
+ * and which response fields to hand back. Each such tool becomes a ToolPlugin
+ * in the registry, so the LLM can call it like a built-in one; the credential
+ * is read from the vault and attached per the tool's authType.
+ */
+
+import dns from 'dns';
+import net from 'net';
+import { ToolPlugin, ToolAction, ToolResult, SafetyTier, ParameterSchema, CredentialSpec } from './types';
+import { toolRegistry } from './registry';
+import { hasCredential } from './credentials';
+import { fetchWithTokenRefresh } from './oauth';
+import { loadConfig } from '../config';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+const AUTH_TYPES = ['api_key', 'bearer', 'oauth', 'none'] as const;
+const PARAM_LOCATIONS = ['path', 'query', 'header', 'body'] as const;
+const MAX_ACTIONS = 100;
+const REQUEST_TIMEOUT_MS = 30_000;
+const MAX_RESPONSE_CHARS = 1_000_000;
+/** What the LLM sees of a response */
+const MAX_OUTPUT_CHARS = 4000;
+
+export type HttpMethod = typeof HTTP_METHODS[number];
+export type CustomToolAuth = typeof AUTH_TYPES[number];
+export type ParamLocation = typeof PARAM_LOCATIONS[number];
+
+/** One callable endpoint of a custom tool */
+export interface HttpActionDef {
+  name: string;
+  description: string;
+  method: HttpMethod;
+  /** Relative to the tool's apiBaseUrl; `{param}` placeholders are filled from parameters */
+  path: string;
+  parameters: ParameterSchema;
+  /**
+   * Where each parameter is sent. Unlisted ones go in the path if the template
+   * names them, else in the query string (GET, DELETE) or the JSON body.
+   */
+  in?: Record<string, ParamLocation>;
+  /** Default: READ for GET, DELETE for DELETE, WRITE otherwise */
+  safety: SafetyTier;
+  /**
+   * Response fields to return instead of the whole body: a dotted path
+   * ('data.items') or a map of output names to paths. '*' steps into every
+   * element of an array ('items.*.id').
+   */
+  extract?: string | Record<string, string>;
+  rateLimit?: number;
+}
+
+/** A custom tool as stored in config.customTools */
+export interface CustomToolDef {
+  name: string;
+  displayName: string;
+  desc: string;
+  category: string;
+  apiBaseUrl: string;
+  authType: CustomToolAuth;
+  credLabel: string;
+  /** api_key: header carrying the key (default X-API-Key) */
+  authHeader?: string;
+  /** api_key: send the key as this query parameter instead of a header */
+  authQuery?: string;
+  actions?: HttpActionDef[];
+  /** Action run by testCredentials(); default the first GET without required parameters */
+  testAction?: string;
+  custom: true;
+  createdAt: string;
+}
+
+// ---- Validation ----
+
+/**
+ * Check and normalize a custom tool definition from the API or config.
+ * Throws with a message fit for the user on anything invalid.
+ */
+export function normalizeCustomTool(input: any): CustomToolDef {
+  const name = String(input.name || '').toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, 50);
+  if (!name) throw new Error('Name is required');
+
+  const apiBaseUrl = String(input.apiBaseUrl || '').trim().replace(/\/+$/, '');
+  if (apiBaseUrl) checkBaseUrl(apiBaseUrl);
+
+  const tool: CustomToolDef = {
+    name,
+    displayName: String(input.displayName || input.name || '').slice(0, 100),
+    desc: String(input.desc || '').slice(0, 200),
+    category: String(input.category || 'Custom'),
+    apiBaseUrl,
+    authType: AUTH_TYPES.includes(input.authType) ? input.authType : 'api_key',
+    credLabel: String(input.credLabel || 'API Key'),
+    custom: true,
+    createdAt: input.createdAt || new Date().toISOString(),
+  };
+  if (input.authHeader) tool.authHeader = headerName(input.authHeader, 'authHeader');
+  if (input.authQuery) tool.authQuery = String(input.authQuery).slice(0, 100);
+
+  if (input.actions !== undefined) {
+    if (!Array.isArray(input.actions)) throw new Error('actions must be an array');
+    if (input.actions.length > MAX_ACTIONS) throw new Error(`A custom tool can have at most ${MAX_ACTIONS} actions`);
+    if (input.actions.length > 0 && !apiBaseUrl) throw new Error('An API base URL is required for tools with actions');
+    const seen = new Set<string>();
+    tool.actions = input.actions.map((raw: any, i: number) => {
+      const action = normalizeAction(raw, i);
+      if (seen.has(action.name)) throw new Error(`Duplicate action name: ${action.name}`);
+      seen.add(action.name);
+      return action;
+    });
+  }
+  if (input.testAction) {
+    tool.testAction = String(input.testAction);
+    if (!tool.actions?.some(a => a.name === tool.testAction)) throw new Error(`testAction ${tool.testAction} is not one of the tool's actions`);
+  }
+  return tool;
+}
+
+function normalizeAction(raw: any, index: number): HttpActionDef {
+  const label = `Action ${raw?.name || index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${label} must be an object`);
+
+  const name = String(raw.name || '').toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, 64);
+  if (!name) throw new Error(`${label} needs a name`);
+  const method = String(raw.method || 'GET').toUpperCase() as HttpMethod;
+  if (!HTTP_METHODS.includes(method)) throw new Error(`${label}: unsupported method ${raw.method}`);
+  const path = String(raw.path || '');
+  if (!path.startsWith('/')) throw new Error(`${label}: path must start with /`);
+
+  const parameters: ParameterSchema = { type: 'object', properties: {} };
+  const props = raw.parameters?.properties ?? {};
+  if (typeof props !== 'object') throw new Error(`${label}: parameters.properties must be an object`);
+  for (const [param, schema] of Object.entries<any>(props)) {
+    parameters.properties[param] = {
+      type: typeof schema?.type === 'string' ? schema.type : 'string',
+      ...(schema?.description ? { description: String(schema.description).slice(0, 500) } : {}),
+      ...(schema?.default !== undefined ? { default: schema.default } : {}),
+      ...(Array.isArray(schema?.enum) ? { enum: schema.enum.map(String) } : {}),
+      ...(schema?.items?.type ? { items: { type: String(schema.items.type) } } : {}),
+    };
+  }
+  const required: string[] = Array.isArray(raw.parameters?.required) ? raw.parameters.required.map(String) : [];
+  for (const param of pathParams(path)) {
+    if (!parameters.properties[param]) throw new Error(`${label}: path parameter {${param}} is not declared`);
+    if (!required.includes(param)) required.push(param);
+  }
+  if (required.length > 0) parameters.required = required;
+
+  const action: HttpActionDef = {
+    name,
+    description: String(raw.description || `${method} ${path}`).slice(0, 500),
+    method,
+    path,
+    parameters,
+    safety: Object.values(SafetyTier).includes(raw.safety) ? raw.safety : defaultSafety(method),
+  };
+  if (raw.in) {
+    action.in = {};
+    for (const [param, where] of Object.entries<any>(raw.in)) {
+      if (!PARAM_LOCATIONS.includes(where)) throw new Error(`${label}: ${param} can't be sent in "${where}"`);
+      if (where === 'header') headerName(param, `${label} header parameter`);
+      action.in[param] = where;
+    }
+  }
+  if (typeof raw.extract === 'string' || (raw.extract && typeof raw.extract === 'object')) action.extract = raw.extract;
+  if (typeof raw.rateLimit === 'number' && raw.rateLimit > 0) action.rateLimit = raw.rateLimit;
+  return action;
+}
+
+export function defaultSafety(method: HttpMethod): SafetyTier {
+  if (method === 'GET') return SafetyTier.READ;
+  if (method === 'DELETE') return SafetyTier.DELETE;
+  return SafetyTier.WRITE;
+}
+
+function headerName(value: any, what: string): string {
+  const name = String(value);
+  if (!/^[A-Za-z0-9-]{1,100}$/.test(name)) throw new Error(`${what} is not a valid header name`);
+  return name;
+}
+
+/** Custom tools call out to the internet only (SSRF prevention) */
+function checkBaseUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('API URL is not a valid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('API URL must start with http:// or https://');
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (/^localhost$|\.localhost$/i.test(host) || (net.isIP(host) && isPrivateAddress(host))) {
+    throw new Error('API URL cannot point to private/internal addresses');
+  }
+}
+
+/** Loopback, private, link-local, unspecified and unique-local addresses, IPv4 or IPv6 */
+function isPrivateAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  const addr = ip.toLowerCase();
+  // IPv4-mapped, dotted (::ffff:127.0.0.1) or as URL normalizes it (::ffff:7f00:1)
+  const mapped = addr.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const hi = parseInt(mapped[2], 16), lo = parseInt(mapped[3], 16);
+    return isPrivateAddress(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  return addr === '::' || addr === '::1' || /^f[cd][0-9a-f]{0,2}:/.test(addr) || /^fe[89ab][0-9a-f]?:/.test(addr);
+}
+
+/** Resolve the API host and refuse it if any address is internal — the URL check alone misses DNS names */
+async function checkResolvedHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve ${host}`);
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${host} resolves to a private/internal address`);
+  }
+}
+
+function pathParams(template: string): string[] {
+  return Array.from(template.matchAll(/\{([^}]+)\}/g), m => m[1]);
+}
+
+// ---- Plugin ----
+
+/** Build a ToolPlugin that runs a custom tool's actions over HTTP */
+export function createHttpToolPlugin(def: CustomToolDef): ToolPlugin & { _token: string } {
+  const actions = def.actions || [];
+  const credentials: CredentialSpec[] = def.authType === 'none' ? [] : [{
+    key: 'token',
+    label: def.credLabel,
+    type: def.authType === 'api_key' ? 'api_key' : def.authType === 'bearer' ? 'bearer_token' : 'oauth_token',
+    required: true,
+  }];
+
+  const plugin: ToolPlugin & { _token: string } = {
+    name: def.name,
+    displayName: def.displayName || def.name,
+    description: def.desc,
+    category: def.category,
+    icon: '🔧',
+    credentials,
+    actions: actions.map((a): ToolAction => ({
+      name: a.name,
+      description: a.description,
+      parameters: a.parameters,
+      safety: a.safety,
+      rateLimit: a.rateLimit,
+    })),
+
+    _token: '',
+
+    async init(creds: Record<string, string>): Promise<boolean> {
+      if (def.authType === 'none') return true;
+      plugin._token = creds.token || '';
+      return !!plugin._token;
+    },
+
+    async healthCheck(): Promise<boolean> {
+      return def.authType === 'none' || !!plugin._token;
+    },
+
+    async testCredentials(): Promise<ToolResult> {
+      const probe = def.testAction
+        ? actions.find(a => a.name === def.testAction)
+        : actions.find(a => a.method === 'GET' && !a.parameters.required?.length);
+      if (!probe) {
+        return { success: true, output: `No read-only action to test ${def.displayName || def.name} with; credential stored` };
+      }
+      const result = await plugin.execute(probe.name, {});
+      return result.success
+        ? { success: true, output: `Connected (${probe.name} succeeded)` }
+        : { success: false, output: `${probe.name} failed: ${result.output}`, error: result.error };
+    },
+
+    async execute(actionName: string, params: Record<string, any>): Promise<ToolResult> {
+      const action = actions.find(a => a.name === actionName);
+      if (!action) return { success: false, output: `Unknown action: ${actionName}`, error: 'UNKNOWN_ACTION' };
+      try {
+        return await callAction(plugin, def, action, params);
+      } catch (err: any) {
+        return { success: false, output: `Request failed: ${err.message}`, error: err.message };
+      }
+    },
+  };
+  return plugin;
+}
+
+async function callAction(
+  plugin: ToolPlugin & { _token: string },
+  def: CustomToolDef,
+  action: HttpActionDef,
+  params: Record<string, any>,
+): Promise<ToolResult> {
+  for (const param of action.parameters.required || []) {
+    if (params[param] === undefined || params[param] === null || params[param] === '') {
+      return { success: false, output: `Missing required parameter: ${param}`, error: 'MISSING_PARAMETER' };
+    }
+  }
+
+  const inPath = new Set(pathParams(action.path));
+  const path = action.path.replace(/\{([^}]+)\}/g, (_, param) => encodeURIComponent(String(params[param])));
+  const base = new URL(def.apiBaseUrl);
+  const url = new URL(base.pathname.replace(/\/+$/, '') + path, base.origin);
+  // Encoded parameters can't leave the base URL, but check anyway
+  if (url.origin !== base.origin || !url.pathname.startsWith(base.pathname.replace(/\/+$/, ''))) {
+    return { success: false, output: 'Resolved URL is outside the tool\'s API base URL', error: 'BAD_PATH' };
+  }
+  for (const [key, value] of base.searchParams) url.searchParams.set(key, value);
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  const body: Record<string, any> = {};
+  const readsOnly = action.method === 'GET' || action.method === 'DELETE';
+  for (const [param, value] of Object.entries(params)) {
+    if (value === undefined || !action.parameters.properties[param] || inPath.has(param)) continue;
+    const where = action.in?.[param] ?? (readsOnly ? 'query' : 'body');
+    if (where === 'query') url.searchParams.set(param, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    else if (where === 'header') headers[param] = String(value);
+    else if (where === 'body') body[param] = value;
+  }
+
+  try {
+    await checkResolvedHost(url.hostname);
+  } catch (err: any) {
+    return { success: false, output: err.message, error: 'BLOCKED_ADDRESS' };
+  }
+
+  const init: RequestInit = {
+    method: action.method,
+    headers,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  };
+  if (Object.keys(body).length > 0) {
+    headers['Content-Type'] = 'application/json';
+    init.body = JSON.stringify(body);
+  }
+
+  let res: Response;
+  if (def.authType === 'bearer' || def.authType === 'oauth') {
+    res = await fetchWithTokenRefresh(plugin, url.toString(), init);
+  } else {
+    if (def.authType === 'api_key') {
+      if (def.authQuery) url.searchParams.set(def.authQuery, plugin._token);
+      else headers[def.authHeader || 'X-API-Key'] = plugin._token;
+    }
+    res = await fetch(url.toString(), init);
+  }
+
+  const text = (await res.text()).slice(0, MAX_RESPONSE_CHARS);
+  let data: any = text;
+  try { data = JSON.parse(text); } catch { /* not JSON */ }
+
+  if (!res.ok) {
+    const detail = typeof data === 'string' ? data : JSON.stringify(data);
+    return {
+      success: false,
+      output: `${action.method} ${action.path} returned ${res.status}: ${detail.slice(0, 500)}`,
+      data,
+      error: `HTTP_${res.status}`,
+    };
+  }
+
+  const result = action.extract ? extractFields(data, action.extract) : data;
+  const output = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+  return {
+    success: true,
+    output: output.length > MAX_OUTPUT_CHARS ? output.slice(0, MAX_OUTPUT_CHARS) + '\n... [truncated]' : output || `${res.status} ${res.statusText}`,
+    data: result,
+  };
+}
+
+function extractFields(data: any, extract: string | Record<string, string>): any {
+  if (typeof extract === 'string') return pick(data, extract.split('.').filter(Boolean));
+  const out: Record<string, any> = {};
+  for (const [key, path] of Object.entries(extract)) out[key] = pick(data, String(path).split('.').filter(Boolean));
+  return out;
+}
+
+function pick(value: any, parts: string[]): any {
+  if (parts.length === 0 || value == null) return value;
+  const [head, ...rest] = parts;
+  if (head === '*') return Array.isArray(value) ? value.map(item => pick(item, rest)) : undefined;
+  return typeof value === 'object' ? pick(value[head], rest) : undefined;
+}
+
+// ---- Registration ----
+
+const registered = new Set<string>();
+
+/**
+ * (Re)register every custom tool that declares actions and initialize the
+ * ones that are ready to run. Tools saved with metadata only stay dashboard
+ * entries. Call again after config.customTools changes.
+ */
+export async function loadCustomTools(): Promise<number> {
+  for (const name of registered) toolRegistry.unregister(name);
+  registered.clear();
+
+  const defs: any[] = (loadConfig() as any).customTools || [];
+  for (const raw of defs) {
+    if (!Array.isArray(raw?.actions) || raw.actions.length === 0) continue;
+    try {
+      const def = normalizeCustomTool(raw);
+      if (toolRegistry.get(def.name)) {
+        console.warn(`⚠️  Custom tool ${def.name} skipped: a tool plugin with that name exists`);
+        continue;
+      }
+      toolRegistry.register(createHttpToolPlugin(def));
+      registered.add(def.name);
+      if (def.authType === 'none' || hasCredential(def.name)) await toolRegistry.initPlugin(def.name);
+    } catch (err: any) {
+      console.warn(`⚠️  Custom tool ${raw?.name || '?'} skipped: ${err.message}`);
+    }
+  }
+  return registered.size;
+}
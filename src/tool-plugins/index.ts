@@ -4,13 +4,29 @@
  * Registers all built-in plugins and initializes the registry.
  */
 
-export { ToolPlugin, ToolResult, ToolAction, SafetyTier, LLMToolSchema } from './types';
+export { ToolPlugin, ToolResult, ToolAction, SafetyTier, LLMToolSchema, OAuthSpec } from './types';
 export { toolRegistry, ToolPluginRegistry } from './registry';
+export {
+  PendingApproval, ApprovalDecision, ApprovalContext, APPROVAL_TIMEOUT_MS,
+  listPendingApprovals, respondToApproval, setApprovalPin, hasApprovalPin,
+} from './approvals';
+export { CredentialMeta, CredentialStatus, OAuthBundle } from './credentials';
+export {
+  CredentialAlert, checkCredential, sweepCredentials, credentialAlerts,
+  startCredentialSweep, stopCredentialSweep,
+} from './credential-health';
+export { startOAuthFlow, completeOAuthFlow, fetchWithTokenRefresh } from './oauth';
+export { CustomToolDef, HttpActionDef, normalizeCustomTool, createHttpToolPlugin, loadCustomTools } from './http-tool';
+export { OpenApiImport, importOpenApi } from './openapi';
+export { McpServerConfig, McpServerStatus, startMcpServers, stopMcpServers, restartMcpServer, mcpServerStatus } from './mcp-tool';
+export { SandboxCallResult, mountSandboxTools, unmountSandboxTools } from './sandbox-tool';
 
 import { toolRegistry } from './registry';
 import { gmailPlugin } from './gmail';
 import { stripePlugin } from './stripe';
 import { googleCalendarPlugin } from './google-calendar';
+import { loadCustomTools } from './http-tool';
+import { startMcpServers } from './mcp-tool';
 
 /** Register all built-in tool plugins */
 export function registerBuiltinPlugins(): void {
@@ -23,9 +39,14 @@ export function registerBuiltinPlugins(): void {
 export async function initToolPlugins(): Promise<void> {
   registerBuiltinPlugins();
   await toolRegistry.initAll();
+  // Custom tools init themselves as they register
+  await loadCustomTools();
   
   const status = toolRegistry.getStatus();
   const ready = status.filter(s => s.ready).length;
   const configured = status.filter(s => s.configured).length;
   console.log(`🔧 Tool plugins: ${status.length} registered, ${configured} configured, ${ready} ready`);
+
+  // MCP servers can take a while to launch; their plugins register as they connect
+  startMcpServers().catch(err => console.warn('⚠️  MCP servers:', err.message));
 }
@@ -0,0 +1,310 @@
+/**
+ * MCP Tool Plugins — local MCP servers mounted in the tool registry.
+ *
+ * Each server in `config.mcp.servers` is launched over stdio and its tools
+ * become the actions of one plugin, "mcp_<server>". Calls go through the
+ * registry like any built-in tool (safety tiers, approvals, rate limits,
+ * activity feed). The tier of each tool comes from config, else WRITE; a
+ * destructive hint from the server can only raise it, never lower it. A
+ * server that exits is restarted with backoff; its tools report unavailable
+ * meanwhile.
+ */
+
+import { ToolPlugin, ToolAction, ToolResult, SafetyTier, ParameterSchema } from './types';
+import { toolRegistry } from './registry';
+import { addActivity } from '../health';
+import { loadConfig, BuhdiConfig } from '../config';
+import { McpClient, McpTool, McpCallResult } from '../mcp/client';
+
+export type McpServerConfig = NonNullable<NonNullable<BuhdiConfig['mcp']>['servers']>[number];
+
+export type McpServerStatus = 'starting' | 'running' | 'restarting' | 'stopped';
+
+const MIN_RESTART_DELAY_MS = 1000;
+const MAX_RESTART_DELAY_MS = 60_000;
+/** A server that stayed up this long starts its backoff over */
+const STABLE_AFTER_MS = 60_000;
+/** What the LLM sees of a result */
+const MAX_OUTPUT_CHARS = 8000;
+
+interface McpServerState {
+  config: McpServerConfig;
+  client: McpClient;
+  plugin: ToolPlugin;
+  /** Action name → MCP tool name */
+  toolNames: Map<string, string>;
+  status: McpServerStatus;
+  restarts: number;
+  startedAt: number | null;
+  lastError: string | null;
+  restartTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const servers = new Map<string, McpServerState>();
+
+// ---- Lifecycle ----
+
+/**
+ * Launch every enabled MCP server in config. Returns once each has connected
+ * or failed; failed ones keep retrying in the background.
+ */
+export async function startMcpServers(): Promise<void> {
+  const configs = loadConfig().mcp?.servers || [];
+  const seen = new Set<string>();
+  for (const config of configs) {
+    if (config.enabled === false) continue;
+    const name = pluginName(config.name);
+    if (!config.command || seen.has(name) || servers.has(name)) {
+      console.warn(`⚠️  MCP server ${config.name || '?'} skipped: ${config.command ? 'duplicate name' : 'no command'}`);
+      continue;
+    }
+    if (toolRegistry.get(name)) {
+      console.warn(`⚠️  MCP server ${config.name} skipped: a tool plugin named ${name} exists`);
+      continue;
+    }
+    seen.add(name);
+    const state = createState(config);
+    servers.set(name, state);
+    await connect(state);
+  }
+}
+
+/** Stop every MCP server and remove its plugin */
+export async function stopMcpServers(): Promise<void> {
+  const stopping = Array.from(servers.values()).map(async (state) => {
+    if (state.restartTimer) clearTimeout(state.restartTimer);
+    state.status = 'stopped';
+    toolRegistry.unregister(state.plugin.name);
+    await state.client.stop();
+  });
+  servers.clear();
+  await Promise.all(stopping);
+}
+
+/** Restart one server now, resetting its backoff */
+export async function restartMcpServer(plugin: string): Promise<boolean> {
+  const state = servers.get(plugin);
+  if (!state) return false;
+  if (state.restartTimer) clearTimeout(state.restartTimer);
+  state.restartTimer = null;
+  state.restarts = 0;
+  await state.client.stop();
+  await connect(state);
+  return true;
+}
+
+export function mcpServerStatus(): Array<{
+  plugin: string;
+  name: string;
+  command: string;
+  status: McpServerStatus;
+  tools: string[];
+  restarts: number;
+  lastError: string | null;
+  server: { name?: string; version?: string };
+}> {
+  return Array.from(servers.entries()).map(([plugin, state]) => ({
+    plugin,
+    name: state.config.name,
+    command: [state.config.command, ...(state.config.args || [])].join(' '),
+    status: state.status,
+    tools: Array.from(state.toolNames.values()),
+    restarts: state.restarts,
+    lastError: state.lastError,
+    server: state.client.serverInfo,
+  }));
+}
+
+function createState(config: McpServerConfig): McpServerState {
+  const client = new McpClient({ name: config.name, command: config.command, args: config.args, env: config.env, cwd: config.cwd });
+  const state: McpServerState = {
+    config,
+    client,
+    plugin: null as unknown as ToolPlugin,
+    toolNames: new Map(),
+    status: 'starting',
+    restarts: 0,
+    startedAt: null,
+    lastError: null,
+    restartTimer: null,
+  };
+  state.plugin = createMcpToolPlugin(state);
+
+  client.on('exit', ({ code, reason, expected }: { code: number | null; reason?: string; expected: boolean }) => {
+    if (expected || state.status === 'stopped') return;
+    const why = reason || `exit code ${code}`;
+    state.lastError = withStderr(client, why);
+    // Failures during connect() are rescheduled there
+    if (state.status === 'running') {
+      addActivity('⚠️', `MCP server ${config.name} stopped (${why}); restarting`);
+      scheduleRestart(state);
+    }
+  });
+  client.on('toolsChanged', () => {
+    client.listTools()
+      .then(tools => applyTools(state, tools))
+      .catch(err => console.warn(`⚠️  MCP server ${config.name}: tool list refresh failed: ${err.message}`));
+  });
+  return state;
+}
+
+async function connect(state: McpServerState): Promise<void> {
+  const { config, client } = state;
+  // stopMcpServers() may run while this awaits; it sets the status to 'stopped'
+  state.status = 'starting';
+  try {
+    await client.start();
+    applyTools(state, await client.listTools());
+    if ((state.status as McpServerStatus) === 'stopped') {
+      await client.stop();
+      return;
+    }
+    state.status = 'running';
+    state.startedAt = Date.now();
+    state.lastError = null;
+
+    if (!toolRegistry.get(state.plugin.name)) {
+      toolRegistry.register(state.plugin);
+      await toolRegistry.initPlugin(state.plugin.name);
+    }
+    console.log(`🔌 MCP server ${config.name}: ${state.toolNames.size} tools`);
+  } catch (err: any) {
+    state.lastError = withStderr(client, err.message);
+    console.warn(`⚠️  MCP server ${config.name} failed to start: ${state.lastError}`);
+    await client.stop().catch(() => {});
+    if ((state.status as McpServerStatus) !== 'stopped') scheduleRestart(state);
+  }
+}
+
+function scheduleRestart(state: McpServerState): void {
+  if (state.restartTimer) return;
+  if (state.startedAt && Date.now() - state.startedAt >= STABLE_AFTER_MS) state.restarts = 0;
+  const delay = Math.min(MIN_RESTART_DELAY_MS * 2 ** state.restarts, MAX_RESTART_DELAY_MS);
+  state.restarts++;
+  state.status = 'restarting';
+  state.startedAt = null;
+  state.restartTimer = setTimeout(() => {
+    state.restartTimer = null;
+    connect(state).catch(() => {});
+  }, delay);
+  state.restartTimer.unref();
+}
+
+// ---- Plugin ----
+
+function createMcpToolPlugin(state: McpServerState): ToolPlugin {
+  const { config } = state;
+  return {
+    name: pluginName(config.name),
+    displayName: `${config.name} (MCP)`,
+    description: `Tools from the ${config.name} MCP server`,
+    category: 'MCP',
+    icon: '🔌',
+    credentials: [],
+    actions: [],
+
+    async init(): Promise<boolean> {
+      return true;
+    },
+
+    async healthCheck(): Promise<boolean> {
+      return state.client.running;
+    },
+
+    async testCredentials(): Promise<ToolResult> {
+      return state.client.running
+        ? { success: true, output: `MCP server ${config.name} is running (${state.toolNames.size} tools)` }
+        : { success: false, output: `MCP server ${config.name} is ${state.status}${state.lastError ? `: ${state.lastError}` : ''}` };
+    },
+
+    async execute(action: string, params: Record<string, any>): Promise<ToolResult> {
+      const tool = state.toolNames.get(action);
+      if (!tool) return { success: false, output: `Unknown action: ${action}`, error: 'UNKNOWN_ACTION' };
+      if (!state.client.running || state.status !== 'running') {
+        return { success: false, output: `MCP server ${config.name} is ${state.status}; try again shortly`, error: 'MCP_UNAVAILABLE' };
+      }
+      const result = await state.client.callTool(tool, params, config.timeoutMs);
+      return toToolResult(result);
+    },
+  };
+}
+
+function applyTools(state: McpServerState, tools: McpTool[]): void {
+  const allowed = state.config.tools?.length ? new Set(state.config.tools) : null;
+  const actions: ToolAction[] = [];
+  state.toolNames.clear();
+  for (const tool of tools) {
+    if (!tool?.name || (allowed && !allowed.has(tool.name))) continue;
+    let name = actionName(tool.name);
+    for (let i = 2; state.toolNames.has(name); i++) name = `${actionName(tool.name)}_${i}`;
+    state.toolNames.set(name, tool.name);
+    actions.push({
+      name,
+      description: String(tool.description || tool.title || tool.annotations?.title || tool.name).slice(0, 1000),
+      parameters: toParameterSchema(tool.inputSchema),
+      safety: safetyFor(state.config, tool),
+      rateLimit: state.config.rateLimit,
+    });
+  }
+  state.plugin.actions = actions;
+}
+
+/**
+ * Config for the tool, else config for '*', else WRITE. The server's hints
+ * are untrusted, so they can only raise the tier: a destructive hint lifts
+ * anything below DELETE that the tool wasn't configured with by name.
+ * readOnlyHint is ignored; only config makes a tool READ.
+ */
+function safetyFor(config: McpServerConfig, tool: McpTool): SafetyTier {
+  const tiers = Object.values(SafetyTier) as string[];
+  const valid = (t?: string) => (t && tiers.includes(t) ? t as SafetyTier : undefined);
+  const own = valid(config.safety?.[tool.name]);
+  if (own) return own;
+
+  const tier = valid(config.safety?.['*']) ?? SafetyTier.WRITE;
+  if (tool.annotations?.destructiveHint && tiers.indexOf(tier) < tiers.indexOf(SafetyTier.DELETE)) return SafetyTier.DELETE;
+  return tier;
+}
+
+function toParameterSchema(input: McpTool['inputSchema'] | undefined): ParameterSchema {
+  const schema: ParameterSchema = { type: 'object', properties: {} };
+  for (const [name, raw] of Object.entries<any>(input?.properties || {})) {
+    const type = Array.isArray(raw?.type) ? raw.type.find((t: string) => t !== 'null') : raw?.type;
+    const prop: ParameterSchema['properties'][string] = { type: typeof type === 'string' ? type : 'string' };
+    if (raw?.description) prop.description = String(raw.description);
+    if (raw?.default !== undefined) prop.default = raw.default;
+    if (Array.isArray(raw?.enum)) prop.enum = raw.enum.map(String);
+    if (prop.type === 'array') prop.items = { type: typeof raw?.items?.type === 'string' ? raw.items.type : 'string' };
+    schema.properties[name] = prop;
+  }
+  if (Array.isArray(input?.required) && input!.required.length > 0) schema.required = input!.required.map(String);
+  return schema;
+}
+
+function toToolResult(result: McpCallResult): ToolResult {
+  let output = result.content.map(c => {
+    if (c.type === 'text') return c.text || '';
+    if (c.type === 'resource') return c.resource?.text ?? `[resource ${c.resource?.uri}]`;
+    if (c.type === 'resource_link') return `[resource ${c.uri}]`;
+    return `[${c.type}${c.mimeType ? ` ${c.mimeType}` : ''}]`;
+  }).join('\n');
+  if (!output && result.structuredContent !== undefined) output = JSON.stringify(result.structuredContent, null, 2);
+  if (output.length > MAX_OUTPUT_CHARS) output = output.slice(0, MAX_OUTPUT_CHARS) + '\n... [truncated]';
+  return result.isError
+    ? { success: false, output: output || 'The tool reported an error', error: 'MCP_TOOL_ERROR', data: result.structuredContent }
+    : { success: true, output: output || '(no output)', data: result.structuredContent ?? result.content };
+}
+
+/** A failure with the last few lines the server wrote to stderr */
+function withStderr(client: McpClient, why: string): string {
+  const stderr = client.recentStderr().split('\n').slice(-3).join(' | ');
+  return stderr ? `${why}: ${stderr}` : why;
+}
+
+function pluginName(server: string): string {
+  return `mcp_${String(server).toLowerCase().replace(/[^a-z0-9_]/g, '_')}`;
+}
+
+function actionName(tool: string): string {
+  return tool.toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, 64);
+}
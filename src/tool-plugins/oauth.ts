@@ -0,0 +1,219 @@
+/**
+ * OAuth — authorization-code sign-in for tool plugins.
+ *
+ * The dashboard asks for a sign-in URL, the user approves in their browser,
+ * and the provider redirects back to the health server on 127.0.0.1 (a
+ * loopback redirect, as Google allows for desktop clients). The code is
+ * exchanged with PKCE and the tokens land in the credential vault as an
+ * OAuth bundle, which the registry and the health sweep refresh from then on.
+ */
+
+import crypto from 'crypto';
+import { ToolPlugin } from './types';
+import { getCredential, parseOAuthBundle, refreshOAuthCredential, setCredential, OAuthBundle } from './credentials';
+import { loadConfig } from '../config';
+
+/** How long a started sign-in waits for its redirect */
+const FLOW_TTL_MS = 10 * 60_000;
+const MAX_PENDING_FLOWS = 20;
+
+export interface OAuthProvider {
+  authUri: string;
+  tokenUri: string;
+  /** Extra query parameters for the consent page */
+  authParams: Record<string, string>;
+}
+
+const PROVIDERS: Record<string, OAuthProvider> = {
+  google: {
+    authUri: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUri: 'https://oauth2.googleapis.com/token',
+    // offline + consent makes Google hand out a refresh token every time
+    authParams: { access_type: 'offline', prompt: 'consent', include_granted_scopes: 'true' },
+  },
+};
+
+export interface OAuthClient {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+interface PendingFlow {
+  tool: string;
+  verifier: string;
+  redirectUri: string;
+  clientId: string;
+  clientSecret?: string;
+  tokenUri: string;
+  startedAt: number;
+}
+
+const pending = new Map<string, PendingFlow>();
+
+// ---- Flow ----
+
+/**
+ * Begin signing a plugin in. Returns the URL to open in the browser.
+ * The client comes from the request, else from `credentials.<provider>` in
+ * config, else from the plugin's current OAuth credential.
+ */
+export function startOAuthFlow(plugin: ToolPlugin, redirectUri: string, client: OAuthClient = {}): string {
+  if (!plugin.oauth) throw new Error(`${plugin.name} does not support OAuth sign-in`);
+  const provider = resolveProvider(plugin.oauth.provider);
+
+  const stored = getCredential(plugin.name, 'oauth');
+  const current = stored ? parseOAuthBundle(stored.plaintext) : null;
+  const clientId = client.clientId || provider.clientId || current?.client_id;
+  const clientSecret = client.clientSecret || provider.clientSecret
+    || (current?.client_id === clientId ? current?.client_secret : undefined);
+  if (!clientId) {
+    throw new Error(`No ${plugin.oauth.provider} OAuth client configured — enter a client ID or set credentials.${plugin.oauth.provider}.clientId in config`);
+  }
+
+  prunePending();
+  if (pending.size >= MAX_PENDING_FLOWS) throw new Error('Too many sign-ins in progress; try again in a few minutes');
+
+  const state = crypto.randomBytes(24).toString('base64url');
+  const verifier = crypto.randomBytes(48).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  pending.set(state, {
+    tool: plugin.name,
+    verifier,
+    redirectUri,
+    clientId,
+    clientSecret,
+    tokenUri: provider.tokenUri,
+    startedAt: Date.now(),
+  });
+
+  const url = new URL(provider.authUri);
+  url.search = new URLSearchParams({
+    ...provider.authParams,
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: plugin.oauth.scopes.join(' '),
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Finish a sign-in from the provider's redirect: exchange the code and store
+ * the tokens. Returns the tool that was signed in. Throws on an unknown or
+ * expired state, a provider error or a refused exchange.
+ */
+export async function completeOAuthFlow(params: URLSearchParams): Promise<string> {
+  prunePending();
+  const state = params.get('state') || '';
+  const flow = pending.get(state);
+  if (!flow) throw new Error('Unknown or expired sign-in — start again from the dashboard');
+  pending.delete(state);
+
+  const error = params.get('error');
+  if (error) throw new Error(`Sign-in for ${flow.tool} was refused: ${params.get('error_description') || error}`);
+  const code = params.get('code');
+  if (!code) throw new Error('The provider sent no authorization code');
+
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: flow.redirectUri,
+    client_id: flow.clientId,
+    code_verifier: flow.verifier,
+  });
+  if (flow.clientSecret) form.set('client_secret', flow.clientSecret);
+
+  const res = await fetch(flow.tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+    signal: AbortSignal.timeout(15_000),
+  });
+  const data = await res.json().catch(() => ({})) as any;
+  if (!res.ok || typeof data.access_token !== 'string') {
+    throw new Error(`Token exchange failed: ${res.status} ${data.error_description || data.error || ''}`.trim());
+  }
+
+  // Providers may leave out the refresh token on a repeat consent; keep the one we have
+  const stored = getCredential(flow.tool, 'oauth');
+  const previous = stored ? parseOAuthBundle(stored.plaintext) : null;
+  const bundle: OAuthBundle = {
+    access_token: data.access_token,
+    refresh_token: data.refresh_token || (previous?.client_id === flow.clientId ? previous?.refresh_token : undefined),
+    client_id: flow.clientId,
+    client_secret: flow.clientSecret,
+    token_uri: flow.tokenUri,
+    expires_at: data.expires_in ? new Date(Date.now() + Number(data.expires_in) * 1000).toISOString() : undefined,
+    scope: data.scope,
+  };
+  setCredential(flow.tool, JSON.stringify(bundle), {
+    storageMode: 'local_only',
+    toolType: 'oauth',
+    addedAt: new Date().toISOString(),
+    lastUsedAt: null,
+    refreshedAt: null,
+  });
+  return flow.tool;
+}
+
+// ---- Requests ----
+
+/**
+ * fetch() with the plugin's bearer token. On a 401 the stored OAuth token is
+ * refreshed once and the request retried; if it can't be refreshed, the 401
+ * is returned as is.
+ */
+export async function fetchWithTokenRefresh(
+  plugin: ToolPlugin & { _token: string },
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const send = () => fetch(url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string> | undefined), Authorization: `Bearer ${plugin._token}` },
+  });
+
+  const res = await send();
+  if (res.status !== 401) return res;
+  try {
+    const bundle = await refreshOAuthCredential(plugin.name);
+    plugin._token = bundle.access_token;
+  } catch {
+    return res;
+  }
+  return send();
+}
+
+// ---- Helpers ----
+
+/** Built-in endpoints, overridable (with the client) from `credentials.<provider>` in config */
+function resolveProvider(name: string): OAuthProvider & OAuthClient {
+  const builtin = PROVIDERS[name];
+  if (!builtin) throw new Error(`Unknown OAuth provider: ${name}`);
+  const configured = (loadConfig().credentials as Record<string, any> | undefined)?.[name] || {};
+  const provider = {
+    ...builtin,
+    authUri: configured.authUri || builtin.authUri,
+    tokenUri: configured.tokenUri || builtin.tokenUri,
+    clientId: configured.clientId,
+    clientSecret: configured.clientSecret,
+  };
+  for (const endpoint of [provider.authUri, provider.tokenUri]) {
+    const url = new URL(endpoint);
+    const loopback = url.hostname === '127.0.0.1' || url.hostname === 'localhost';
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && loopback)) {
+      throw new Error(`OAuth endpoint ${endpoint} must be https (or http on localhost)`);
+    }
+  }
+  return provider;
+}
+
+function prunePending(): void {
+  const cutoff = Date.now() - FLOW_TTL_MS;
+  for (const [state, flow] of pending) {
+    if (flow.startedAt < cutoff) pending.delete(state);
+  }
+}
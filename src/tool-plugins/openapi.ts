@@ -0,0 +1,200 @@
+/**
+ * OpenAPI import — turn an OpenAPI 3 document into custom tool actions.
+ *
+ * Each operation becomes an HTTP action: operationId (or method + path) as its
+ * name, path/query/header parameters and the JSON request body's top-level
+ * properties as its parameters. The first server URL and security scheme fill
+ * in the tool's base URL and auth. JSON documents only.
+ */
+
+import { SafetyTier, ParameterSchema } from './types';
+import { HttpActionDef, HttpMethod, CustomToolAuth, ParamLocation, defaultSafety } from './http-tool';
+
+const OPERATION_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const MAX_IMPORTED_ACTIONS = 100;
+
+export interface OpenApiImport {
+  title?: string;
+  description?: string;
+  apiBaseUrl?: string;
+  authType: CustomToolAuth;
+  authHeader?: string;
+  authQuery?: string;
+  actions: HttpActionDef[];
+  /** Operations left out for being over the action limit */
+  skipped: string[];
+}
+
+export interface OpenApiImportOptions {
+  /** Only import these operations (operationIds or generated action names) */
+  operations?: string[];
+}
+
+/** Parse an OpenAPI 3 document (object or JSON text). Throws on anything else. */
+export function importOpenApi(input: unknown, opts: OpenApiImportOptions = {}): OpenApiImport {
+  let doc: any = input;
+  if (typeof input === 'string') {
+    try {
+      doc = JSON.parse(input);
+    } catch {
+      throw new Error('OpenAPI document must be JSON (YAML is not supported)');
+    }
+  }
+  if (!doc || typeof doc !== 'object' || typeof doc.openapi !== 'string' || !doc.openapi.startsWith('3.')) {
+    throw new Error('Only OpenAPI 3 documents are supported');
+  }
+  if (!doc.paths || typeof doc.paths !== 'object') throw new Error('OpenAPI document has no paths');
+
+  const wanted = opts.operations?.length ? new Set(opts.operations) : null;
+  const actions: HttpActionDef[] = [];
+  const skipped: string[] = [];
+  const names = new Set<string>();
+
+  for (const [path, item] of Object.entries<any>(doc.paths)) {
+    if (!item || typeof item !== 'object') continue;
+    for (const method of OPERATION_METHODS) {
+      const op = item[method];
+      if (!op) continue;
+      const name = uniqueName(snakeCase(op.operationId || `${method}_${path}`), names);
+      if (wanted && !wanted.has(op.operationId) && !wanted.has(name)) continue;
+      if (actions.length >= MAX_IMPORTED_ACTIONS) {
+        skipped.push(name);
+        continue;
+      }
+      names.add(name);
+      actions.push(operationToAction(doc, name, method.toUpperCase() as HttpMethod, path, item, op));
+    }
+  }
+  if (actions.length === 0) throw new Error('No operations found to import');
+
+  return {
+    title: doc.info?.title,
+    description: doc.info?.description,
+    apiBaseUrl: serverUrl(doc.servers?.[0]),
+    ...securityFromDoc(doc),
+    actions,
+    skipped,
+  };
+}
+
+// ---- Operations ----
+
+function operationToAction(doc: any, name: string, method: HttpMethod, path: string, item: any, op: any): HttpActionDef {
+  const parameters: ParameterSchema = { type: 'object', properties: {} };
+  const required: string[] = [];
+  const where: Record<string, ParamLocation> = {};
+
+  // Operation parameters override path-level ones with the same name and location
+  const params = new Map<string, any>();
+  for (const raw of [...(item.parameters || []), ...(op.parameters || [])]) {
+    const param = resolveRef(doc, raw);
+    if (!param?.name || !['path', 'query', 'header'].includes(param.in)) continue;
+    params.set(`${param.in}:${param.name}`, param);
+  }
+  for (const param of params.values()) {
+    parameters.properties[param.name] = propertySchema(doc, param.schema, param.description);
+    where[param.name] = param.in;
+    if (param.required || param.in === 'path') required.push(param.name);
+  }
+  // Some documents leave path parameters undeclared
+  for (const match of path.matchAll(/\{([^}]+)\}/g)) {
+    if (parameters.properties[match[1]]) continue;
+    parameters.properties[match[1]] = { type: 'string' };
+    where[match[1]] = 'path';
+    required.push(match[1]);
+  }
+
+  const body = resolveRef(doc, op.requestBody);
+  const bodySchema = resolveRef(doc, body?.content?.['application/json']?.schema);
+  if (bodySchema?.properties) {
+    for (const [prop, schema] of Object.entries<any>(bodySchema.properties)) {
+      if (parameters.properties[prop]) continue;
+      const resolved = resolveRef(doc, schema);
+      if (resolved?.readOnly) continue;
+      parameters.properties[prop] = propertySchema(doc, resolved, resolved?.description);
+      where[prop] = 'body';
+      if (body.required && Array.isArray(bodySchema.required) && bodySchema.required.includes(prop)) required.push(prop);
+    }
+  }
+  if (required.length > 0) parameters.required = required;
+
+  const override = op['x-buhdi-safety'];
+  return {
+    name,
+    description: String(op.summary || op.description || `${method} ${path}`).slice(0, 500),
+    method,
+    path,
+    parameters,
+    in: where,
+    safety: Object.values(SafetyTier).includes(override) ? override : defaultSafety(method),
+  };
+}
+
+function propertySchema(doc: any, raw: any, description?: string): ParameterSchema['properties'][string] {
+  const schema = resolveRef(doc, raw) || {};
+  const type = schemaType(schema);
+  const prop: ParameterSchema['properties'][string] = { type };
+  const desc = description || schema.description;
+  if (desc) prop.description = String(desc).slice(0, 500);
+  if (schema.default !== undefined) prop.default = schema.default;
+  if (Array.isArray(schema.enum)) prop.enum = schema.enum.map(String);
+  if (type === 'array') prop.items = { type: schemaType(resolveRef(doc, schema.items) || {}) };
+  return prop;
+}
+
+function schemaType(schema: any): string {
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+  if (typeof type === 'string') return type;
+  return schema.properties ? 'object' : 'string';
+}
+
+// ---- Document helpers ----
+
+/** Follow a local $ref ('#/components/...'); other refs resolve to undefined */
+function resolveRef(doc: any, value: any, depth = 0): any {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') return value;
+  if (depth > 10 || !value.$ref.startsWith('#/')) return undefined;
+  let target = doc;
+  for (const part of value.$ref.slice(2).split('/')) {
+    target = target?.[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return resolveRef(doc, target, depth + 1);
+}
+
+function serverUrl(server: any): string | undefined {
+  if (typeof server?.url !== 'string') return undefined;
+  const url = server.url.replace(/\{([^}]+)\}/g, (_: string, v: string) => String(server.variables?.[v]?.default ?? ''));
+  return /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+/** Auth from the first security requirement we can map */
+function securityFromDoc(doc: any): Pick<OpenApiImport, 'authType' | 'authHeader' | 'authQuery'> {
+  const schemes = doc.components?.securitySchemes || {};
+  const requirements: any[] = Array.isArray(doc.security) ? doc.security : [];
+  const names = requirements.flatMap(r => Object.keys(r || {}));
+  // No global requirement: fall back to whatever schemes are declared
+  for (const name of names.length ? names : Object.keys(schemes)) {
+    const scheme = resolveRef(doc, schemes[name]);
+    if (!scheme) continue;
+    if (scheme.type === 'apiKey' && scheme.in === 'header') return { authType: 'api_key', authHeader: scheme.name };
+    if (scheme.type === 'apiKey' && scheme.in === 'query') return { authType: 'api_key', authQuery: scheme.name };
+    if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'bearer') return { authType: 'bearer' };
+    if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') return { authType: 'oauth' };
+  }
+  return { authType: names.length || Object.keys(schemes).length ? 'api_key' : 'none' };
+}
+
+function snakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 64) || 'operation';
+}
+
+function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base.slice(0, 60)}_${i}`;
+  return name;
+}
@@ -5,62 +5,11 @@
  * generates LLM-compatible tool schemas, and dispatches executions.
  */
 
-import fs from 'fs';
-import path from 'path';
-import { ToolPlugin, ToolResult, LLMToolSchema, SafetyTier } from './types';
+import { ToolPlugin, ToolAction, ToolResult, LLMToolSchema, SafetyTier } from './types';
 import { addActivity, broadcastToDashboard } from '../health';
-
-// Credential vault file (same as health.ts)
-const CONFIG_DIR = process.env.BUHDI_NODE_CONFIG_DIR || path.join(require('os').homedir(), '.buhdi-node');
-const CRED_FILE = path.join(CONFIG_DIR, 'credentials.enc.json');
-
-interface CredentialEntry {
-  encrypted: string;
-  meta: {
-    storageMode: string;
-    toolType: string;
-    addedAt: string;
-    lastUsedAt: string | null;
-  };
-}
-
-/** Read credential store from disk */
-function loadCredentialStore(): Record<string, CredentialEntry> {
-  try {
-    if (fs.existsSync(CRED_FILE)) {
-      return JSON.parse(fs.readFileSync(CRED_FILE, 'utf8'));
-    }
-  } catch {}
-  return {};
-}
-
-/** Decrypt a credential using machine-derived key */
-function decryptCredential(blob: string): string {
-  const crypto = require('crypto');
-  const os = require('os');
-  
-  // M1-FIX: Always use machine-secret file; auto-generate if missing
-  const secretDir = path.join(os.homedir(), '.buhdi');
-  const secretPath = path.join(secretDir, 'machine-secret');
-  let secret: Buffer;
-  try {
-    secret = fs.readFileSync(secretPath);
-  } catch {
-    secret = crypto.randomBytes(32);
-    try {
-      if (!fs.existsSync(secretDir)) fs.mkdirSync(secretDir, { recursive: true });
-      fs.writeFileSync(secretPath, secret, { mode: 0o600 });
-    } catch {}
-  }
-  const key = crypto.pbkdf2Sync(secret, 'buhdi-cred-vault', 100_000, 32, 'sha256');
-  
-  const { iv, tag, ct } = JSON.parse(blob);
-  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
-  decipher.setAuthTag(Buffer.from(tag, 'base64'));
-  let pt = decipher.update(ct, 'base64', 'utf8');
-  pt += decipher.final('utf8');
-  return pt;
-}
+import { emitNodeEvent } from '../events';
+import { ApprovalContext, requiresApproval, requestApproval, recordGrant, consumeGrant } from './approvals';
+import { getCredential, hasCredential, parseOAuthBundle, refreshOAuthCredential } from './credentials';
 
 /** Rate limit tracker */
 const rateLimits = new Map<string, { count: number; resetAt: number }>();
@@ -87,6 +36,12 @@ export class ToolPluginRegistry {
     this.plugins.set(plugin.name, plugin);
     console.log(`🔧 Registered tool plugin: ${plugin.name} (${plugin.actions.length} actions)`);
   }
+
+  /** Remove a tool plugin (custom tools being reloaded or deleted) */
+  unregister(name: string): boolean {
+    this.initialized.delete(name);
+    return this.plugins.delete(name);
+  }
   
   /** Get all registered plugins */
   getAll(): ToolPlugin[] {
@@ -100,12 +55,11 @@ export class ToolPluginRegistry {
   
   /** Get plugins that have credentials configured */
   getConfigured(): ToolPlugin[] {
-    const store = loadCredentialStore();
     return this.getAll().filter(p => {
       // Check if all required credentials are present
       return p.credentials.every(spec => {
         if (!spec.required) return true;
-        return !!store[p.name];
+        return hasCredential(p.name);
       });
     });
   }
@@ -115,15 +69,29 @@ export class ToolPluginRegistry {
     const plugin = this.plugins.get(name);
     if (!plugin) return false;
     
-    const store = loadCredentialStore();
-    const entry = store[name];
-    if (!entry) {
-      console.log(`⚠️  No credentials for ${name}`);
-      return false;
-    }
-    
     try {
-      const plaintext = decryptCredential(entry.encrypted);
+      // Plugins without credentials (public APIs) just need init
+      if (plugin.credentials.length === 0) {
+        const ok = await plugin.init({});
+        this.initialized.set(name, ok);
+        return ok;
+      }
+
+      const stored = getCredential(name);
+      if (!stored) {
+        console.log(`⚠️  No credentials for ${name}`);
+        return false;
+      }
+      let plaintext = stored.plaintext;
+
+      // OAuth credentials are stored with their refresh token; plugins get the access token
+      let bundle = plugin.credentials.length === 1 ? parseOAuthBundle(plaintext) : null;
+      if (bundle) {
+        const expired = bundle.expires_at && new Date(bundle.expires_at).getTime() <= Date.now();
+        if (expired && bundle.refresh_token) bundle = await refreshOAuthCredential(name);
+        plaintext = bundle.access_token;
+      }
+
       // Build credential map — for now, single key per tool
       // In future, support multiple credential fields per tool
       const creds: Record<string, string> = {};
@@ -156,9 +124,8 @@ export class ToolPluginRegistry {
   
   /** Initialize all plugins that have credentials */
   async initAll(): Promise<void> {
-    const store = loadCredentialStore();
     for (const plugin of this.plugins.values()) {
-      if (store[plugin.name]) {
+      if (plugin.credentials.length === 0 || hasCredential(plugin.name)) {
         await this.initPlugin(plugin.name);
       }
     }
@@ -200,6 +167,7 @@ export class ToolPluginRegistry {
     toolName: string,
     actionName: string,
     params: Record<string, any>,
+    context: ApprovalContext = {},
   ): Promise<ToolResult> {
     const plugin = this.plugins.get(toolName);
     if (!plugin) {
@@ -238,11 +206,6 @@ export class ToolPluginRegistry {
           error: 'SAFETY_BLOCKED',
         };
       }
-      // Financial and Delete tiers will eventually require user confirmation
-      // For now, log a warning
-      if (actionDef.safety === SafetyTier.FINANCIAL || actionDef.safety === SafetyTier.DELETE) {
-        console.log(`⚠️  Safety tier ${actionDef.safety}: ${toolName}.${actionName} — auto-approved (confirmation UI coming)`);
-      }
     }
     
     // Rate limit check
@@ -255,6 +218,20 @@ export class ToolPluginRegistry {
       };
     }
     
+    // Delete and Financial tiers wait for a human (unless already approved via confirmAction)
+    if (requiresApproval(actionDef.safety) && !consumeGrant(toolName, actionName, params, context)) {
+      const decision = await requestApproval(toolName, actionName, params, actionDef.safety, context);
+      if (!decision.approved) {
+        return {
+          success: false,
+          output: decision.reason === 'timeout'
+            ? `${toolName}.${actionName} was not approved in time and did not run`
+            : `${toolName}.${actionName} was denied by the user and did not run`,
+          error: decision.reason === 'timeout' ? 'APPROVAL_TIMEOUT' : 'APPROVAL_DENIED',
+        };
+      }
+    }
+    
     // Execute
     const start = Date.now();
     try {
@@ -273,6 +250,9 @@ export class ToolPluginRegistry {
         success: result.success,
         duration,
       });
+      emitNodeEvent('tool.executed', {
+        tool: toolName, action: actionName, success: result.success, duration, source: context.source || 'api',
+      });
       
       return result;
     } catch (err: any) {
@@ -293,20 +273,51 @@ export class ToolPluginRegistry {
   async executeByFullName(
     toolAction: string,
     params: Record<string, any>,
+    context: ApprovalContext = {},
   ): Promise<ToolResult> {
+    const found = this.findAction(toolAction);
+    if (found) {
+      return this.execute(found.plugin.name, found.action.name, params, context);
+    }
+    return {
+      success: false,
+      output: `Unknown tool action: ${toolAction}`,
+      error: 'NOT_FOUND',
+    };
+  }
+
+  /** Resolve a combined tool_action string to its plugin and action */
+  findAction(toolAction: string): { plugin: ToolPlugin; action: ToolAction } | undefined {
     // Find matching plugin by checking all registered names
     for (const plugin of this.plugins.values()) {
       for (const action of plugin.actions) {
         if (`${plugin.name}_${action.name}` === toolAction) {
-          return this.execute(plugin.name, action.name, params);
+          return { plugin, action };
         }
       }
     }
-    return {
-      success: false,
-      output: `Unknown tool action: ${toolAction}`,
-      error: 'NOT_FOUND',
-    };
+    return undefined;
+  }
+
+  /**
+   * Ask for approval ahead of execution (used as AgentCallbacks.onConfirmAction).
+   * Tiers that don't need a human pass straight through. An approval is
+   * remembered so the following execute() of the same call, by the caller
+   * `executeAs` (default: `context`), doesn't ask again.
+   */
+  async confirmAction(
+    toolAction: string,
+    params: Record<string, any>,
+    context: ApprovalContext = {},
+    executeAs: ApprovalContext = context,
+  ): Promise<boolean> {
+    const found = this.findAction(toolAction);
+    if (!found || !requiresApproval(found.action.safety)) return true;
+
+    const { plugin, action } = found;
+    const decision = await requestApproval(plugin.name, action.name, params, action.safety, context);
+    if (decision.approved) recordGrant(plugin.name, action.name, params, executeAs);
+    return decision.approved;
   }
 
   /** Get status summary for all plugins */
@@ -318,12 +329,11 @@ export class ToolPluginRegistry {
     ready: boolean;
     actionCount: number;
   }> {
-    const store = loadCredentialStore();
     return this.getAll().map(p => ({
       name: p.name,
       displayName: p.displayName,
       category: p.category,
-      configured: !!store[p.name],
+      configured: p.credentials.length === 0 || hasCredential(p.name),
       ready: this.isReady(p.name),
       actionCount: p.actions.length,
     }));
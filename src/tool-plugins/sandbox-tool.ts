@@ -0,0 +1,157 @@
+/**
+ * Sandbox Tool Plugins — isolate plugins' actions in the tool registry.
+ *
+ * A deployed plugin that declares `actions` in its manifest and exports
+ * matching handlers on `buhdi.actions` becomes the tool plugin
+ * "plugin_<name>" while its sandbox runs. Calls go through the registry like
+ * any built-in tool (safety tiers, approvals, rate limits, activity feed)
+ * and run inside the plugin's isolate, which enforces each call's timeout.
+ */
+
+import { ToolPlugin, ToolAction, ToolResult, ParameterSchema } from './types';
+import { toolRegistry } from './registry';
+import { PluginManifest, resolveResources } from '../plugins/manifest';
+import { PluginSandbox } from '../plugins/sandbox';
+
+/** What the LLM sees of a result */
+const MAX_OUTPUT_CHARS = 8000;
+
+export interface SandboxCallResult {
+  status: 'success' | 'error' | 'timeout';
+  startedAt: string;
+  duration_ms: number;
+  error?: string;
+}
+
+/**
+ * Register a running sandbox's actions. Declared actions without a handler
+ * are left out. The plugin unregisters itself when the sandbox exits.
+ */
+export function mountSandboxTools(
+  manifest: PluginManifest,
+  sandbox: PluginSandbox,
+  onCall?: (result: SandboxCallResult) => void,
+): ToolPlugin | null {
+  if (!manifest.actions?.length) return null;
+
+  const name = pluginName(manifest.name);
+  const existing = toolRegistry.get(name);
+  if (existing && existing.category !== 'Plugins') {
+    console.warn(`⚠️  Plugin ${manifest.name}: actions not exposed, a tool plugin named ${name} exists`);
+    return null;
+  }
+
+  const exported = new Set(sandbox.exportedActions());
+  const missing = manifest.actions.filter(a => !exported.has(a.name)).map(a => a.name);
+  if (missing.length) console.warn(`⚠️  Plugin ${manifest.name}: no handler on buhdi.actions for ${missing.join(', ')}`);
+
+  const actions: ToolAction[] = manifest.actions.filter(a => exported.has(a.name)).map(a => ({
+    name: a.name,
+    description: a.description,
+    parameters: a.parameters || ({ type: 'object', properties: {} } as ParameterSchema),
+    safety: a.safety,
+    rateLimit: a.rateLimit,
+  }));
+  if (actions.length === 0) return null;
+
+  const plugin = createSandboxToolPlugin(manifest, sandbox, actions, onCall);
+  toolRegistry.unregister(name);
+  toolRegistry.register(plugin);
+  toolRegistry.initPlugin(name).catch(() => {});
+  sandbox.onExit(() => unmountSandboxTools(manifest.name, plugin));
+  console.log(`🧩 Plugin ${manifest.name}: ${actions.length} actions available as ${name}`);
+  return plugin;
+}
+
+/** Remove a plugin's actions; with `plugin`, only if that instance is still the registered one */
+export function unmountSandboxTools(manifestName: string, plugin?: ToolPlugin): void {
+  const name = pluginName(manifestName);
+  const registered = toolRegistry.get(name);
+  if (!registered || registered.category !== 'Plugins') return;
+  if (plugin && registered !== plugin) return;
+  toolRegistry.unregister(name);
+}
+
+function createSandboxToolPlugin(
+  manifest: PluginManifest,
+  sandbox: PluginSandbox,
+  actions: ToolAction[],
+  onCall?: (result: SandboxCallResult) => void,
+): ToolPlugin {
+  const defaultTimeout = resolveResources(manifest).timeoutMs;
+  return {
+    name: pluginName(manifest.name),
+    displayName: manifest.name,
+    description: manifest.description || `Actions from the ${manifest.name} plugin`,
+    category: 'Plugins',
+    icon: '🧩',
+    credentials: [],
+    actions,
+
+    async init(): Promise<boolean> {
+      return sandbox.isRunning;
+    },
+
+    async healthCheck(): Promise<boolean> {
+      return sandbox.isRunning;
+    },
+
+    async testCredentials(): Promise<ToolResult> {
+      return sandbox.isRunning
+        ? { success: true, output: `Plugin ${manifest.name} v${manifest.version} is running` }
+        : { success: false, output: `Plugin ${manifest.name} is not running` };
+    },
+
+    async execute(action: string, params: Record<string, any>): Promise<ToolResult> {
+      const def = manifest.actions?.find(a => a.name === action);
+      if (!def) return { success: false, output: `Unknown action: ${action}`, error: 'UNKNOWN_ACTION' };
+      if (!sandbox.isRunning) {
+        return { success: false, output: `Plugin ${manifest.name} is not running`, error: 'PLUGIN_STOPPED' };
+      }
+
+      const started = Date.now();
+      const report = (status: SandboxCallResult['status'], error?: string) => onCall?.({
+        status,
+        startedAt: new Date(started).toISOString(),
+        duration_ms: Date.now() - started,
+        error,
+      });
+      try {
+        const result = await sandbox.callAction(action, params, def.timeoutMs ?? defaultTimeout);
+        report('success');
+        return toToolResult(result);
+      } catch (err: any) {
+        const timedOut = /timed out/i.test(err.message);
+        report(timedOut ? 'timeout' : 'error', err.message);
+        return { success: false, output: err.message, error: timedOut ? 'PLUGIN_TIMEOUT' : 'PLUGIN_ERROR' };
+      }
+    },
+  };
+}
+
+/**
+ * A handler may return a string, any JSON value, or a ToolResult-shaped
+ * object ({ success, output, data }) to report failure or a custom summary.
+ */
+function toToolResult(result: unknown): ToolResult {
+  if (result && typeof result === 'object' && 'success' in result && 'output' in result) {
+    const r = result as { success: unknown; output: unknown; data?: unknown };
+    return {
+      success: !!r.success,
+      output: truncate(String(r.output)),
+      data: r.data,
+      ...(r.success ? {} : { error: 'PLUGIN_ACTION_FAILED' }),
+    };
+  }
+  if (typeof result === 'string') return { success: true, output: truncate(result || '(no output)') };
+  if (result === null) return { success: true, output: '(no output)' };
+  return { success: true, output: truncate(JSON.stringify(result, null, 2)), data: result };
+}
+
+function truncate(output: string): string {
+  return output.length > MAX_OUTPUT_CHARS ? output.slice(0, MAX_OUTPUT_CHARS) + '\n... [truncated]' : output;
+}
+
+function pluginName(manifestName: string): string {
+  return `plugin_${manifestName.toLowerCase().replace(/[^a-z0-9_]/g, '_')}`;
+}
@@ -23,6 +23,7 @@ export interface ParameterSchema {
     description?: string;
     default?: any;
     enum?: string[];
+    items?: { type: string };
   }>;
   required?: string[];
 }
@@ -46,6 +47,12 @@ export interface CredentialSpec {
   placeholder?: string;      // Input placeholder
 }
 
+/** Sign-in through a provider's OAuth consent page, instead of pasting a token */
+export interface OAuthSpec {
+  provider: 'google';
+  scopes: string[];
+}
+
 /** Result of a tool execution */
 export interface ToolResult {
   success: boolean;
@@ -74,6 +81,9 @@ export interface ToolPlugin {
   /** What credentials this tool needs */
   credentials: CredentialSpec[];
 
+  /** Set if the dashboard can sign this tool in with OAuth */
+  oauth?: OAuthSpec;
+
   /** Available actions */
   actions: ToolAction[];
 
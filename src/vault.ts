@@ -1,27 +1,23 @@
 /**
  * Vault — RSA-4096 keypair management for buhdi-node
- * Private key stored encrypted at ~/.buhdi/vault-key.enc
+ * Private key stored in the secret store (`cloud` namespace)
  *
  * Security model:
- * - Random 32-byte salt per install (stored at ~/.buhdi/vault-salt)
- * - Random 32-byte machine secret per install (stored at ~/.buhdi/machine-secret, chmod 600)
- * - PBKDF2 with 600K iterations derives AES-256-GCM key from machine-secret + salt
- * - Private key encrypted at rest, cached in memory with 5-minute auto-clear
- * - All vault files written with mode 0o600 (owner read/write only)
+ * - The secret store encrypts the private key at rest with a key derived from
+ *   the install's machine secret and salt (see secret-store.ts)
+ * - Private key cached in memory with 5-minute auto-clear
+ * - Public key is not secret; kept at ~/.buhdi/vault-pub.pem (mode 0o600)
  */
 
 import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { secretStore, CLOUD_PRIVATE_KEY } from './secret-store';
 
 const VAULT_DIR = path.join(os.homedir(), '.buhdi');
-const KEY_FILE = path.join(VAULT_DIR, 'vault-key.enc');
 const PUBKEY_FILE = path.join(VAULT_DIR, 'vault-pub.pem');
-const SALT_FILE = path.join(VAULT_DIR, 'vault-salt');
-const SECRET_FILE = path.join(VAULT_DIR, 'machine-secret');
 
-const PBKDF2_ITERATIONS = 600_000; // INFO-1: Raised from 100K to 600K for consistency
 const CACHE_TTL_MS = 5 * 60 * 1000; // HIGH-2: 5-minute cache timeout
 
 let cachedPrivateKey: crypto.KeyObject | null = null;
@@ -46,56 +42,6 @@ async function writeSecure(filePath: string, data: Buffer | string): Promise<voi
   await fs.writeFile(filePath, data, opts);
 }
 
-/** Get or create the random salt for this install */
-async function getSalt(): Promise<Buffer> {
-  try {
-    return await fs.readFile(SALT_FILE);
-  } catch {
-    const salt = crypto.randomBytes(32);
-    await writeSecure(SALT_FILE, salt);
-    return salt;
-  }
-}
-
-/** Get or create the random machine secret for this install */
-async function getMachineSecret(): Promise<Buffer> {
-  try {
-    return await fs.readFile(SECRET_FILE);
-  } catch {
-    const secret = crypto.randomBytes(32);
-    await writeSecure(SECRET_FILE, secret);
-    return secret;
-  }
-}
-
-/** Derive an encryption key from machine-secret + random salt */
-async function deriveMachineKey(): Promise<Buffer> {
-  const [secret, salt] = await Promise.all([getMachineSecret(), getSalt()]);
-  return crypto.pbkdf2Sync(secret, salt, PBKDF2_ITERATIONS, 32, 'sha256');
-}
-
-/** Encrypt data with machine-derived key */
-async function encryptWithMachineKey(data: string): Promise<Buffer> {
-  const key = await deriveMachineKey();
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
-  const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
-  const tag = cipher.getAuthTag();
-  // Format: iv(16) + tag(16) + ciphertext
-  return Buffer.concat([iv, tag, encrypted]);
-}
-
-/** Decrypt data with machine-derived key */
-async function decryptWithMachineKey(data: Buffer): Promise<string> {
-  const key = await deriveMachineKey();
-  const iv = data.subarray(0, 16);
-  const tag = data.subarray(16, 32);
-  const ciphertext = data.subarray(32);
-  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
-  decipher.setAuthTag(tag);
-  return decipher.update(ciphertext) + decipher.final('utf8');
-}
-
 /** Generate RSA-4096 keypair and store securely */
 async function generateKeypair(): Promise<void> {
   console.log('🔐 Generating RSA-4096 keypair for vault...');
@@ -108,13 +54,8 @@ async function generateKeypair(): Promise<void> {
 
   await fs.mkdir(VAULT_DIR, { recursive: true, mode: 0o700 });
 
-  // Ensure salt and machine secret exist before encrypting
-  await getSalt();
-  await getMachineSecret();
-
-  // Store private key encrypted (HIGH-1: mode 0o600)
-  const encryptedPrivate = await encryptWithMachineKey(privateKey as string);
-  await writeSecure(KEY_FILE, encryptedPrivate);
+  // Private key goes into the secret store, encrypted at rest
+  secretStore.set('cloud', CLOUD_PRIVATE_KEY, privateKey as string);
   
   // Store public key as PEM (not sensitive, but still restricted)
   await writeSecure(PUBKEY_FILE, publicKey as string);
@@ -130,12 +71,9 @@ async function generateKeypair(): Promise<void> {
 /** Load existing keypair from disk */
 async function loadKeypair(): Promise<boolean> {
   try {
-    const [encPrivate, pubPem] = await Promise.all([
-      fs.readFile(KEY_FILE),
-      fs.readFile(PUBKEY_FILE, 'utf8'),
-    ]);
-    
-    const privatePem = await decryptWithMachineKey(encPrivate);
+    const pubPem = await fs.readFile(PUBKEY_FILE, 'utf8');
+    const privatePem = secretStore.get('cloud', CLOUD_PRIVATE_KEY, 'cloud-vault');
+    if (!privatePem) return false;
     cachedPrivateKey = crypto.createPrivateKey(privatePem);
     cachedPublicKeyPem = pubPem;
     touchCache();